@@ -0,0 +1,27 @@
+const mongoose = require('mongoose');
+
+// Response to a trip upload batch, kept so a client that lost it can resend
+// the batch with the same Idempotency-Key and get the same answer
+const SyncBatchSchema = new mongoose.Schema({
+  user_id: {
+    type: String,
+    required: true
+  },
+  batch_key: {
+    type: String,
+    required: true
+  },
+  response: {
+    type: mongoose.Schema.Types.Mixed,
+    required: true
+  },
+  created_at: {
+    type: Date,
+    default: Date.now,
+    expires: 60 * 60 * 24 * 7 // 7 days, longer than the client keeps retrying
+  }
+});
+
+SyncBatchSchema.index({ user_id: 1, batch_key: 1 }, { unique: true });
+
+module.exports = mongoose.model('SyncBatch', SyncBatchSchema);
@@ -31,6 +31,9 @@ const SensorSummarySchema = new mongoose.Schema({
   total_acceleration: { type: Number, required: true }
 }, { _id: false });
 
+// Trips synced from the app arrive as a signed envelope sealed with the
+// user's trip key. The server opens it with the same key and keeps the
+// plaintext fields alongside for analytics and corrections.
 const TripSchema = new mongoose.Schema({
   trip_id: {
     type: String,
@@ -114,12 +117,29 @@ const TripSchema = new mongoose.Schema({
   },
   plausibility_score: {
     type: Number,
-    required: true,
     min: 0,
     max: 1
   },
   anonymized_at: {
     type: Date
+  },
+  encrypted_data: {
+    type: String
+  },
+  signature: {
+    type: String // HMAC over encrypted_data with the trip key
+  },
+  leg_count: {
+    type: Number,
+    min: 0
+  },
+  upload_id: {
+    type: String // idempotency key of the upload that stored encrypted_data
+  },
+  // Per-field versions for delta sync: { field: { version, corrected, updated_at } }
+  field_versions: {
+    type: mongoose.Schema.Types.Mixed,
+    default: {}
   }
 }, {
   timestamps: { createdAt: 'created_at', updatedAt: 'updated_at' }
@@ -133,6 +153,7 @@ TripSchema.index({ 'origin.lat': 1, 'origin.lon': 1 });
 TripSchema.index({ 'destination.lat': 1, 'destination.lon': 1 });
 TripSchema.index({ travel_mode: 1 });
 TripSchema.index({ synced: 1, anonymized_at: 1 });
+TripSchema.index({ user_id: 1, updated_at: 1, trip_id: 1 }); // change feed
 
 module.exports = mongoose.model('Trip', TripSchema);
 
@@ -109,7 +109,8 @@ router.post('/signup', validateSignup, async (req, res, next) => {
         tokens: {
           access_token: accessToken,
           refresh_token: refreshToken
-        }
+        },
+        trip_key: EncryptionService.deriveTripKey(user.salt)
       }
     });
 
@@ -169,7 +170,8 @@ router.post('/login', validateLogin, async (req, res, next) => {
         tokens: {
           access_token: accessToken,
           refresh_token: refreshToken
-        }
+        },
+        trip_key: EncryptionService.deriveTripKey(user.salt)
       }
     });
 
@@ -271,6 +273,31 @@ router.get('/profile', authenticateToken, async (req, res, next) => {
   }
 });
 
+// Key for sealing trip envelopes, for apps that lost theirs
+router.get('/trip-key', authenticateToken, async (req, res, next) => {
+  try {
+    const userId = req.user?.user_id;
+    if (!userId) {
+      return next(createError('User not authenticated', 401, 'UNAUTHORIZED'));
+    }
+
+    const user = await User.findById(userId).select('salt');
+    if (!user) {
+      return next(createError('User not found', 404, 'USER_NOT_FOUND'));
+    }
+
+    res.json({
+      success: true,
+      data: {
+        trip_key: EncryptionService.deriveTripKey(user.salt)
+      }
+    });
+
+  } catch (error) {
+    next(error);
+  }
+});
+
 // Update user profile
 router.put('/profile', authenticateToken, [
   body('email').optional().isEmail().normalizeEmail(),
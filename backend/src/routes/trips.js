@@ -1,6 +1,7 @@
 const express = require('express');
-const { body, validationResult, query } = require('express-validator');
+const { body, header, validationResult, query } = require('express-validator');
 const Trip = require('../models/Trip');
+const SyncBatch = require('../models/SyncBatch');
 const User = require('../models/User');
 const { createError } = require('../middleware/errorHandler');
 const { authenticateToken } = require('../middleware/auth');
@@ -13,16 +14,46 @@ const validateTripSync = [
   body('trips').isArray().withMessage('Trips must be an array'),
   body('trips.*.trip_id').isUUID().withMessage('Invalid trip ID'),
   body('trips.*.encrypted_data').notEmpty().withMessage('Encrypted data is required'),
-  body('trips.*.signature').notEmpty().withMessage('Signature is required'),
+  body('trips.*.signature').isHexadecimal().isLength({ min: 64, max: 64 }).withMessage('Signature must be an HMAC-SHA256 hex digest'),
+  body('trips.*.upload_id').optional().isHexadecimal().isLength({ min: 64, max: 64 }).withMessage('Upload ID must be a hex digest'),
+  header('Idempotency-Key').optional().isLength({ min: 1, max: 128 }).withMessage('Idempotency key is too long'),
   body('sync_timestamp').isISO8601().withMessage('Invalid sync timestamp'),
 ];
 
+// Trip fields versioned separately so edits from different devices merge
+const VERSIONED_FIELDS = ['travel_mode', 'trip_purpose', 'accompanying', 'notes', 'is_private', 'legs'];
+
+// Fields changed here after the versions an upload was based on
+const staleFields = (serverVersions = {}, baseVersions = {}) =>
+  VERSIONED_FIELDS.filter(field => (serverVersions[field]?.version || 0) > (baseVersions[field] || 0));
+
+// Fields of an opened envelope kept in plaintext for analytics. Ownership,
+// timestamps and sync bookkeeping are the server's own.
+const SERVER_FIELDS = ['_id', 'user_id', 'created_at', 'updated_at', 'synced', 'legs', 'field_versions', 'synced_versions', 'upload_id'];
+
+const surveyFields = trip => {
+  const fields = { ...trip };
+  SERVER_FIELDS.forEach(field => delete fields[field]);
+  return fields;
+};
+
+// A stored trip as clients receive it, exactly as it was uploaded
+const toEnvelope = trip => ({
+  trip_id: trip.trip_id,
+  encrypted_data: trip.encrypted_data,
+  signature: trip.signature,
+  leg_count: trip.leg_count || 0,
+  field_versions: trip.field_versions || {},
+  updated_at: trip.updated_at
+});
+
 const validateTripCorrection = [
   body('trip_id').isUUID().withMessage('Invalid trip ID'),
   body('corrections').isObject().withMessage('Corrections must be an object'),
 ];
 
-// Bulk sync trips endpoint
+// Bulk sync trips endpoint. Trips arrive encrypted and signed with the
+// user's trip key; the envelope is stored as sent and its contents alongside.
 router.post('/bulk', authenticateToken, validateTripSync, async (req, res, next) => {
   try {
     const errors = validationResult(req);
@@ -30,90 +61,127 @@ router.post('/bulk', authenticateToken, validateTripSync, async (req, res, next)
       return next(createError('Validation failed', 400, 'VALIDATION_ERROR', errors.array()));
     }
 
-    const { trips, sync_timestamp } = req.body;
+    const { trips } = req.body;
     const userId = req.user.user_id;
+    const batchKey = req.get('Idempotency-Key');
 
-    // Get user's encryption key
-    const user = await User.findById(userId).select('salt');
+    // A batch already processed gets its original answer again
+    if (batchKey) {
+      const processed = await SyncBatch.findOne({ user_id: userId, batch_key: batchKey });
+      if (processed) {
+        return res.json({ success: true, data: processed.response });
+      }
+    }
 
+    const user = await User.findById(userId).select('salt');
     if (!user) {
       return next(createError('User not found', 404, 'USER_NOT_FOUND'));
     }
+    const tripKey = EncryptionService.deriveTripKey(user.salt);
 
     const syncedTrips = [];
     const failedTrips = [];
 
     for (const tripData of trips) {
       try {
-        // Verify signature
-        if (!EncryptionService.verifySignature(
-          tripData.encrypted_data,
-          tripData.signature,
-          user.salt
-        )) {
+        // Check if trip already exists
+        const existingTrip = await Trip.findOne({ trip_id: tripData.trip_id });
+
+        if (existingTrip && existingTrip.user_id !== userId) {
           failedTrips.push({
             trip_id: tripData.trip_id,
-            error: 'Invalid signature'
+            error: 'Trip belongs to another user',
+            code: 'FORBIDDEN'
           });
           continue;
         }
 
-        // Decrypt trip data
-        const trip = EncryptionService.decryptTripData(
-          tripData.encrypted_data,
-          user.salt
-        );
+        // Stored by an earlier attempt whose response the client never got;
+        // its versions are already ours, so the conflict check would misfire
+        if (existingTrip && tripData.upload_id && existingTrip.upload_id === tripData.upload_id) {
+          syncedTrips.push(tripData.trip_id);
+          continue;
+        }
 
-        // Validate trip data
-        if (!trip.trip_id || !trip.start_time || !trip.end_time) {
+        // Refuse to overwrite changes the client has not pulled yet; it
+        // merges them and uploads again
+        const stale = existingTrip ? staleFields(existingTrip.field_versions, tripData.base_versions) : [];
+        if (stale.length > 0) {
           failedTrips.push({
             trip_id: tripData.trip_id,
-            error: 'Invalid trip data'
+            error: `Changed on the server: ${stale.join(', ')}`,
+            code: 'SYNC_CONFLICT'
           });
           continue;
         }
 
-        // Check if trip already exists
-        const existingTrip = await Trip.findOne({ trip_id: trip.trip_id });
-
-        if (existingTrip) {
-          // Update existing trip
-          await Trip.findOneAndUpdate(
-            { trip_id: trip.trip_id },
-            {
-              ...trip,
-              user_id: userId,
-              synced: true,
-              updated_at: new Date()
-            }
-          );
-        } else {
-          // Insert new trip
-          await Trip.create({
-            ...trip,
-            user_id: userId,
-            synced: true
+        if (!EncryptionService.verifySignature(tripData.encrypted_data, tripData.signature, tripKey)) {
+          failedTrips.push({
+            trip_id: tripData.trip_id,
+            error: 'Trip signature does not match',
+            code: 'INVALID_SIGNATURE'
+          });
+          continue;
+        }
+
+        let trip;
+        try {
+          trip = EncryptionService.openTrip(tripData.encrypted_data, tripKey);
+        } catch (error) {
+          trip = null;
+        }
+        if (!trip || trip.trip_id !== tripData.trip_id || !trip.start_time || !trip.end_time) {
+          failedTrips.push({
+            trip_id: tripData.trip_id,
+            error: 'Trip data is unreadable',
+            code: 'VALIDATION_ERROR'
           });
+          continue;
         }
 
-        syncedTrips.push(trip.trip_id);
+        await Trip.findOneAndUpdate(
+          { trip_id: tripData.trip_id },
+          {
+            ...surveyFields(trip),
+            trip_id: tripData.trip_id,
+            user_id: userId,
+            encrypted_data: tripData.encrypted_data,
+            signature: tripData.signature,
+            leg_count: tripData.leg_count || 0,
+            field_versions: tripData.field_versions || {},
+            upload_id: tripData.upload_id,
+            synced: true
+          },
+          { upsert: true, setDefaultsOnInsert: true }
+        );
+
+        syncedTrips.push(tripData.trip_id);
       } catch (error) {
         console.error('Failed to sync trip:', tripData.trip_id, error);
         failedTrips.push({
           trip_id: tripData.trip_id,
-          error: 'Decryption or validation failed'
+          error: 'Could not store trip',
+          code: 'SERVER_ERROR'
         });
       }
     }
 
-    res.json({
-      success: true,
-      data: {
-        synced_trips: syncedTrips,
-        failed_trips: failedTrips,
-        server_timestamp: new Date().toISOString()
-      }
-    });
+    const response = {
+      synced_trips: syncedTrips,
+      failed_trips: failedTrips,
+      server_timestamp: new Date().toISOString()
+    };
+
+    // Only answers worth replaying are kept; a batch with trips that may
+    // succeed next time is processed again
+    if (batchKey && !failedTrips.some(failed => failed.code === 'SERVER_ERROR')) {
+      await SyncBatch.create({ user_id: userId, batch_key: batchKey, response }).catch(error => {
+        // A concurrent duplicate of this batch stored it first
+        if (error.code !== 11000) throw error;
+      });
+    }
+
+    res.json({ success: true, data: response });
   } catch (error) {
     next(error);
   }
@@ -134,44 +202,16 @@ router.get('/', authenticateToken, [
     const limit = parseInt(req.query.limit) || 100;
     const offset = parseInt(req.query.offset) || 0;
 
-    // Get user's encryption key
-    const user = await User.findById(userId).select('salt');
-
-    if (!user) {
-      return next(createError('User not found', 404, 'USER_NOT_FOUND'));
-    }
-
     // Get trips from database
-    const trips = await Trip.find({ user_id: userId })
+    const trips = await Trip.find({ user_id: userId, encrypted_data: { $exists: true } })
       .sort({ start_time: -1 })
       .limit(limit)
       .skip(offset);
 
-    // Decrypt trip data
-    const decryptedTrips = trips.map(trip => {
-      try {
-        const decryptedData = EncryptionService.decryptTripData(
-          trip.encrypted_data,
-          user.salt
-        );
-        return {
-          ...decryptedData,
-          trip_id: trip.trip_id,
-          user_id: trip.user_id,
-          synced: trip.synced,
-          created_at: trip.created_at,
-          updated_at: trip.updated_at
-        };
-      } catch (error) {
-        console.error('Failed to decrypt trip:', trip.trip_id, error);
-        return null;
-      }
-    }).filter(trip => trip !== null);
-
     res.json({
       success: true,
       data: {
-        trips: decryptedTrips,
+        trips: trips.map(toEnvelope),
         pagination: {
           limit,
           offset,
@@ -185,6 +225,59 @@ router.get('/', authenticateToken, [
   }
 });
 
+// Trips changed since a cursor, oldest change first. The cursor is the
+// updated_at and trip_id of the last trip the client has seen.
+router.get('/changes', authenticateToken, [
+  query('limit').optional().isInt({ min: 1, max: 500 }).withMessage('Limit must be between 1 and 500'),
+  query('since').optional().isISO8601().withMessage('Invalid since timestamp'),
+  query('after').optional().isString(),
+], async (req, res, next) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return next(createError('Validation failed', 400, 'VALIDATION_ERROR', errors.array()));
+    }
+
+    const userId = req.user.user_id;
+    const limit = parseInt(req.query.limit) || 100;
+    const { since, after } = req.query;
+
+    const filter = { user_id: userId, encrypted_data: { $exists: true } };
+    if (since) {
+      const sinceDate = new Date(since);
+      filter.$or = [
+        { updated_at: { $gt: sinceDate } },
+        { updated_at: sinceDate, trip_id: { $gt: after || '' } }
+      ];
+    }
+
+    // One extra row tells whether another page follows
+    const trips = await Trip.find(filter)
+      .sort({ updated_at: 1, trip_id: 1 })
+      .limit(limit + 1)
+      .lean();
+    const hasMore = trips.length > limit;
+    const page = trips.slice(0, limit);
+
+    const last = page[page.length - 1];
+    const cursor = last
+      ? { since: last.updated_at.toISOString(), after: last.trip_id }
+      : (since ? { since, after: after || '' } : null);
+
+    res.json({
+      success: true,
+      data: {
+        trips: page.map(toEnvelope),
+        cursor,
+        has_more: hasMore,
+        server_timestamp: new Date().toISOString()
+      }
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
 // Confirm/correct trip endpoint
 router.post('/confirm', authenticateToken, validateTripCorrection, async (req, res, next) => {
   try {
@@ -211,10 +304,8 @@ router.post('/confirm', authenticateToken, validateTripCorrection, async (req, r
     }
 
     // Decrypt trip data
-    const decryptedTrip = EncryptionService.decryptTripData(
-      trip.encrypted_data,
-      user.salt
-    );
+    const tripKey = EncryptionService.deriveTripKey(user.salt);
+    const decryptedTrip = EncryptionService.openTrip(trip.encrypted_data, tripKey);
 
     // Apply corrections
     const updatedTrip = {
@@ -223,15 +314,30 @@ router.post('/confirm', authenticateToken, validateTripCorrection, async (req, r
       updated_at: new Date()
     };
 
-    // Re-encrypt trip data
-    const encryptedData = EncryptionService.encryptTripData(updatedTrip, user.salt);
+    // Re-seal so the user's devices can verify the corrected trip
+    const envelope = EncryptionService.sealTrip(updatedTrip, tripKey);
+
+    // Corrections are the user's own, so they win over automatic updates
+    // when devices merge them
+    const fieldVersions = { ...(trip.field_versions || {}) };
+    const now = new Date();
+    for (const field of VERSIONED_FIELDS) {
+      if (corrections[field] === undefined) continue;
+      fieldVersions[field] = {
+        version: (fieldVersions[field]?.version || 0) + 1,
+        corrected: true,
+        updated_at: now.toISOString()
+      };
+    }
 
     // Update trip in database
     await Trip.findOneAndUpdate(
       { trip_id },
       {
-        encrypted_data: encryptedData,
-        updated_at: new Date()
+        ...surveyFields(updatedTrip),
+        ...envelope,
+        field_versions: fieldVersions,
+        updated_at: now
       }
     );
 
@@ -102,6 +102,29 @@ class EncryptionService {
     return this.decrypt(encryptedData, userKey);
   }
 
+  // Key the app and server seal trip envelopes with. Derived from the user's
+  // salt, so the server can open synced trips and a reinstalled app gets the
+  // same key back at login.
+  static deriveTripKey(salt) {
+    return crypto.createHmac('sha256', salt).update('trip-sync').digest('hex');
+  }
+
+  // Trip envelopes in the app's format: crypto-js AES with the key as
+  // passphrase, signed with HMAC-SHA256 over the ciphertext
+  static sealTrip(trip, tripKey) {
+    const encryptedData = CryptoJS.AES.encrypt(JSON.stringify(trip), tripKey).toString();
+    return {
+      encrypted_data: encryptedData,
+      signature: this.generateSignature(encryptedData, tripKey)
+    };
+  }
+
+  // Check the signature with verifySignature first
+  static openTrip(encryptedData, tripKey) {
+    const decrypted = CryptoJS.AES.decrypt(encryptedData, tripKey).toString(CryptoJS.enc.Utf8);
+    return JSON.parse(decrypted);
+  }
+
   // Generate pseudonymous user ID
   static generatePseudonymousUserId(email, salt) {
     const hash = crypto.createHash('sha256')
@@ -169,5 +192,5 @@ class EncryptionService {
   }
 }
 
-module.exports = EncryptionService;
+module.exports = { EncryptionService };
 
@@ -4,13 +4,14 @@ import { NavigationContainer } from '@react-navigation/native';
 import { createDrawerNavigator } from '@react-navigation/drawer';
 import { createStackNavigator } from '@react-navigation/stack';
 import { SafeAreaProvider } from 'react-native-safe-area-context';
-import { View, Text, StyleSheet, ActivityIndicator } from 'react-native';
+import { View, Text, StyleSheet, ActivityIndicator, Alert } from 'react-native';
 
 // Services
 import { databaseService } from './services/DatabaseService';
 import { tripDetectionService } from './services/TripDetectionService';
 import { syncService } from './services/SyncService';
 import { apiService } from './services/ApiService';
+import { DatabaseKeyError } from './services/DatabaseEncryption';
 
 // Screens
 import OnboardingScreen from './screens/OnboardingScreen';
@@ -22,6 +23,10 @@ import TripDetailScreen from './screens/TripDetailScreen';
 import SettingsScreen from './screens/SettingsScreen';
 import PrivacyScreen from './screens/PrivacyScreen';
 import AboutScreen from './screens/AboutScreen';
+import ImportTripsScreen from './screens/ImportTripsScreen';
+import ExportTripsScreen from './screens/ExportTripsScreen';
+import SyncQueueScreen from './screens/SyncQueueScreen';
+import SyncConflictsScreen from './screens/SyncConflictsScreen';
 
 // Components
 import DrawerContent from './components/DrawerContent';
@@ -148,6 +153,9 @@ export default function App() {
         await databaseService.initialize();
       } catch (dbError) {
         console.log('Database initialization failed, continuing without database:', dbError);
+        if (dbError instanceof DatabaseKeyError) {
+          handleDatabaseKeyLoss();
+        }
       }
       
       // BYPASS AUTHENTICATION FOR TESTING - Go directly to main app
@@ -184,6 +192,29 @@ export default function App() {
     }
   };
 
+  // The encrypted diary cannot be read without its key. Nothing is deleted
+  // unless the user agrees; trips already synced can be downloaded again.
+  const handleDatabaseKeyLoss = () => {
+    Alert.alert(
+      'Travel Diary Locked',
+      'The key protecting your on-device travel diary is no longer available, so its trips cannot be read. ' +
+        'You can start a new, empty diary. Trips that were not synced will be lost.',
+      [
+        { text: 'Not Now', style: 'cancel' },
+        {
+          text: 'Start New Diary',
+          style: 'destructive',
+          onPress: () => {
+            databaseService.resetEncryptedDatabase().catch(error => {
+              console.error('Failed to reset the local database:', error);
+              Alert.alert('Error', 'Failed to reset the local database');
+            });
+          },
+        },
+      ]
+    );
+  };
+
   const initializeServices = async () => {
     try {
       // Initialize trip detection (skip if permission denied)
@@ -320,6 +351,34 @@ export default function App() {
               title: 'Trip Details',
             }}
           />
+          <Stack.Screen 
+            name="ImportTrips" 
+            component={ImportTripsScreen}
+            options={{
+              title: 'Import Trips',
+            }}
+          />
+          <Stack.Screen 
+            name="ExportTrips" 
+            component={ExportTripsScreen}
+            options={{
+              title: 'Export Trips',
+            }}
+          />
+          <Stack.Screen 
+            name="SyncQueue" 
+            component={SyncQueueScreen}
+            options={{
+              title: 'Sync Queue',
+            }}
+          />
+          <Stack.Screen 
+            name="SyncConflicts" 
+            component={SyncConflictsScreen}
+            options={{
+              title: 'Sync Conflicts',
+            }}
+          />
         </Stack.Navigator>
       </NavigationContainer>
       <StatusBar style="light" backgroundColor={Colors.primary} />
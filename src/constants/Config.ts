@@ -17,19 +17,75 @@ export const APP_CONFIG = {
   MIN_TRIP_DISTANCE: 50, // meters
   MIN_TRIP_DURATION: 60, // seconds
   DWELL_TIME_THRESHOLD: 300, // 5 minutes
+  CHAIN_BREAK_DWELL_TIME: 1800, // 30 minutes
+  
+  // GPS noise filtering
+  GPS_FILTER: {
+    MAX_ACCURACY: 50, // meters - less accurate fixes are dropped
+    MAX_SPEED: 70, // m/s - faster implied movement is an outlier
+    KALMAN_PROCESS_NOISE: 3, // m/s
+    MAX_CONSECUTIVE_REJECTIONS: 3, // then the filter re-locks on new fixes
+  },
+  
+  // Trip segmentation
+  SEGMENTATION_THRESHOLDS: {
+    START_SPEED: 1.0, // m/s - needed to leave a stop
+    STOP_SPEED: 0.5, // m/s - below this a stop may begin
+    STOP_RADIUS: 50, // meters - GPS jitter tolerated around a stop
+    START_WINDOW: 180, // seconds to confirm a candidate start
+    MIN_START_FIXES: 2, // moving fixes needed to confirm a start
+  },
   
   // Trip detection
-  SPEED_THRESHOLDS: {
-    WALKING: 1.5, // m/s
-    CYCLING: 3.0, // m/s
-    VEHICLE: 5.0, // m/s
+  MODE_WINDOW_SECONDS: 120, // window classified for leg splitting
+  MIN_LEG_DURATION: 180, // seconds - shorter mode runs merge into a neighbour
+  
+  // Mode personalisation from user corrections
+  MODE_PERSONALIZATION: {
+    MAX_EXAMPLES: 500, // most recent labelled examples used
+    NEIGHBOURS: 5, // labelled examples consulted per classification
+    NEIGHBOUR_RADIUS: 1.0, // in scaled feature units
+    MAX_EXAMPLE_WEIGHT: 0.7, // share of the result the examples can decide
+    PRIOR_STRENGTH: 0.5, // how strongly the user's mode mix shifts predictions
+  },
+  
+  // Significant places
+  PLACES: {
+    CLUSTER_RADIUS: 100, // meters - stays closer than this are the same place
+    MAX_STAY_HOURS: 72, // longer gaps are treated as missing data
+    HOME_MIN_NIGHT_HOURS: 8, // night-time dwell needed to call a place home
+    WORK_MIN_DAYTIME_HOURS: 8, // weekday daytime dwell needed for work/education
+    MIN_REGULAR_DAYS: 2, // distinct days a work/education place must be visited
+  },
+  
+  // Reverse geocoding
+  GEOCODING: {
+    CACHE_PRECISION: 4, // decimal places of the cache key, about 11 m
+    LOCALITY_RADIUS: 10000, // meters, default for gazetteer localities
+    POI_RADIUS: 250, // meters, default for gazetteer points of interest
+    INDEX_CELL_DEGREES: 0.05, // spatial index grid size
+  },
+  
+  // Trip purpose inference
+  PURPOSE_INFERENCE: {
+    MIN_CONFIDENCE: 0.3, // weaker guesses leave the purpose as 'other'
+    HISTORY_LIMIT: 500, // most recent confirmed purposes considered
+    PLACE_TYPE_WEIGHT: 6, // boost for the purpose matching a home/work/education place
+  },
+  
+  // Trip search
+  SEARCH: {
+    HIGHLIGHT_START: '\u0002', // wraps matched terms in search highlights
+    HIGHLIGHT_END: '\u0003',
+    RESULT_LIMIT: 50,
   },
-  ACCELERATION_THRESHOLD: 0.5, // m/s²
   
   // Sync configuration
   SYNC_BATCH_SIZE: 50,
-  SYNC_RETRY_ATTEMPTS: 3,
-  SYNC_RETRY_DELAY: 5000, // 5 seconds
+  SYNC_RETRY_ATTEMPTS: 6, // failed attempts before a queued change is dead-lettered
+  SYNC_RETRY_DELAY: 60000, // 1 minute, doubled after each failed attempt
+  SYNC_RETRY_MAX_DELAY: 6 * 60 * 60 * 1000, // 6 hours
+  SYNC_PULL_PAGE_SIZE: 100, // trips per page of server changes
   OFFLINE_QUEUE_SIZE: 1000,
   
   // Privacy settings
@@ -48,6 +104,17 @@ export const APP_CONFIG = {
   BATTERY_SAVER_MODE: 0.2, // 20% battery
   REDUCED_SAMPLING_BATTERY: 0.1, // 10% battery
   MIN_BATTERY_FOR_TRACKING: 0.05, // 5% battery
+  RESUME_BATTERY_MARGIN: 0.02, // resume paused tracking only above minimum + margin
+  
+  // Sampling profiles (intervals in ms, distances in meters, sensor interval 0 = sensors off)
+  SAMPLING_PROFILES: {
+    MOVING: { ACCURACY: 'high', TIME_INTERVAL: 5000, DISTANCE_INTERVAL: 10, SENSOR_INTERVAL: 200 }, // fast enough to resolve walking cadence
+    STATIONARY: { ACCURACY: 'balanced', TIME_INTERVAL: 30000, DISTANCE_INTERVAL: 25, SENSOR_INTERVAL: 1000 },
+    SAVER_MOVING: { ACCURACY: 'balanced', TIME_INTERVAL: 15000, DISTANCE_INTERVAL: 20, SENSOR_INTERVAL: 200 },
+    SAVER_STATIONARY: { ACCURACY: 'low', TIME_INTERVAL: 60000, DISTANCE_INTERVAL: 50, SENSOR_INTERVAL: 0 },
+    REDUCED_MOVING: { ACCURACY: 'low', TIME_INTERVAL: 30000, DISTANCE_INTERVAL: 50, SENSOR_INTERVAL: 0 },
+    REDUCED_STATIONARY: { ACCURACY: 'low', TIME_INTERVAL: 120000, DISTANCE_INTERVAL: 100, SENSOR_INTERVAL: 0 },
+  },
 } as const;
 
 export const PRIVACY_LEVELS = {
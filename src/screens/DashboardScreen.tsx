@@ -59,13 +59,13 @@ export default function DashboardScreen({ navigation }: any) {
     try {
       const userId = await getCurrentUserId();
       if (userId) {
-        const userTrips = await databaseService.getTrips(userId, 1000, 0);
+        const { trips: rangeTrips } = await databaseService.queryTrips({
+          user_id: userId,
+          from: getRangeStart(timeRange).toISOString(),
+        });
         const userRewards = await databaseService.getRewardPoints(userId);
         
-        // Filter trips based on time range
-        const filteredTrips = filterTripsByTimeRange(userTrips, timeRange);
-        
-        setTrips(filteredTrips);
+        setTrips(rangeTrips);
         setRewardPoints(userRewards);
       }
     } catch (error) {
@@ -73,7 +73,7 @@ export default function DashboardScreen({ navigation }: any) {
     }
   };
 
-  const filterTripsByTimeRange = (trips: Trip[], range: 'week' | 'month' | 'year'): Trip[] => {
+  const getRangeStart = (range: 'week' | 'month' | 'year'): Date => {
     const now = new Date();
     const cutoffDate = new Date();
     
@@ -89,7 +89,7 @@ export default function DashboardScreen({ navigation }: any) {
         break;
     }
     
-    return trips.filter(trip => new Date(trip.start_time) >= cutoffDate);
+    return cutoffDate;
   };
 
   const getCurrentUserId = async (): Promise<string | null> => {
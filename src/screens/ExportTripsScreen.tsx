@@ -0,0 +1,187 @@
+import React, { useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+  Alert,
+  ActivityIndicator,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { Colors } from '../constants/Colors';
+import { TRAVEL_MODES, TripExportFilter } from '../types';
+import { tripExportService } from '../services/TripExportService';
+import { ExportFormat } from '../services/TripExportFormats';
+import { formatTravelMode } from '../utils/formatters';
+
+const FORMATS: Array<{ value: ExportFormat; label: string }> = [
+  { value: 'gpx', label: 'GPX' },
+  { value: 'geojson', label: 'GeoJSON' },
+  { value: 'kml', label: 'KML' },
+];
+
+const DATE_RANGES: Array<{ days: number | null; label: string }> = [
+  { days: 7, label: '7 days' },
+  { days: 30, label: '30 days' },
+  { days: 365, label: '1 year' },
+  { days: null, label: 'All' },
+];
+
+export default function ExportTripsScreen() {
+  const [format, setFormat] = useState<ExportFormat>('gpx');
+  const [rangeDays, setRangeDays] = useState<number | null>(30);
+  const [modes, setModes] = useState<string[]>([]);
+  const [isExporting, setIsExporting] = useState(false);
+
+  const toggleMode = (mode: string) => {
+    setModes(current =>
+      current.includes(mode) ? current.filter(selected => selected !== mode) : [...current, mode]
+    );
+  };
+
+  const handleExport = async () => {
+    const filter: TripExportFilter = {
+      from: rangeDays !== null ? new Date(Date.now() - rangeDays * 24 * 60 * 60 * 1000).toISOString() : undefined,
+      modes: modes.length > 0 ? modes : undefined,
+    };
+
+    setIsExporting(true);
+    try {
+      const result = await tripExportService.exportTrips(format, filter);
+      if (result.tripCount === 0) {
+        Alert.alert('No Trips', 'No trips match the selected filters.');
+        return;
+      }
+      await tripExportService.shareExport(result);
+    } catch (error) {
+      console.error('Failed to export trips:', error);
+      Alert.alert('Export Failed', error instanceof Error ? error.message : 'Could not export trips.');
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  const renderOption = (key: string, label: string, selected: boolean, onPress: () => void) => (
+    <TouchableOpacity
+      key={key}
+      style={[styles.option, selected && styles.selectedOption]}
+      onPress={onPress}
+    >
+      <Text style={[styles.optionText, selected && styles.selectedOptionText]}>{label}</Text>
+    </TouchableOpacity>
+  );
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <ScrollView style={styles.scrollView}>
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>Format</Text>
+          <View style={styles.options}>
+            {FORMATS.map(option =>
+              renderOption(option.value, option.label, format === option.value, () => setFormat(option.value))
+            )}
+          </View>
+        </View>
+
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>Date Range</Text>
+          <View style={styles.options}>
+            {DATE_RANGES.map(option =>
+              renderOption(option.label, option.label, rangeDays === option.days, () => setRangeDays(option.days))
+            )}
+          </View>
+        </View>
+
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>Travel Modes</Text>
+          <Text style={styles.description}>Leave all unselected to export every mode.</Text>
+          <View style={styles.options}>
+            {TRAVEL_MODES.map(mode =>
+              renderOption(mode, formatTravelMode(mode), modes.includes(mode), () => toggleMode(mode))
+            )}
+          </View>
+        </View>
+
+        <View style={styles.section}>
+          <TouchableOpacity
+            style={[styles.button, isExporting && styles.buttonDisabled]}
+            onPress={handleExport}
+            disabled={isExporting}
+          >
+            {isExporting ? (
+              <ActivityIndicator color={Colors.textInverse} />
+            ) : (
+              <Text style={styles.buttonText}>Export & Share</Text>
+            )}
+          </TouchableOpacity>
+        </View>
+      </ScrollView>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: Colors.background,
+  },
+  scrollView: {
+    flex: 1,
+  },
+  section: {
+    paddingHorizontal: 20,
+    paddingTop: 20,
+  },
+  sectionTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: Colors.text,
+    marginBottom: 10,
+    textTransform: 'uppercase',
+    letterSpacing: 0.5,
+  },
+  description: {
+    fontSize: 14,
+    color: Colors.textSecondary,
+    marginBottom: 10,
+  },
+  options: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  option: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 6,
+    borderWidth: 1,
+    borderColor: Colors.border,
+  },
+  selectedOption: {
+    backgroundColor: Colors.primary,
+    borderColor: Colors.primary,
+  },
+  optionText: {
+    fontSize: 14,
+    color: Colors.text,
+  },
+  selectedOptionText: {
+    color: Colors.textInverse,
+  },
+  button: {
+    marginTop: 10,
+    paddingVertical: 14,
+    borderRadius: 8,
+    backgroundColor: Colors.primary,
+    alignItems: 'center',
+  },
+  buttonDisabled: {
+    backgroundColor: Colors.border,
+  },
+  buttonText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: Colors.textInverse,
+  },
+});
@@ -7,15 +7,20 @@ import {
   TouchableOpacity,
   RefreshControl,
   Alert,
+  TextInput,
+  ScrollView,
 } from 'react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { Colors } from '../constants/Colors';
-import { Trip, TripDetectionState } from '../types';
+import { Trip, TripDetectionState, TripSearchHit, TripSearchResults } from '../types';
 import { databaseService } from '../services/DatabaseService';
 import { tripDetectionService } from '../services/TripDetectionService';
 import { syncService } from '../services/SyncService';
+import { placeService } from '../services/PlaceService';
+import { purposeService } from '../services/PurposeService';
+import { tripNumberingService } from '../services/TripNumberingService';
 import { getTravelModeColor } from '../constants/Colors';
-import { formatDistance, formatDuration, formatTime } from '../utils/formatters';
+import { formatDistance, formatDuration, formatTime, formatMonth, formatTravelMode, splitHighlights } from '../utils/formatters';
 
 export default function HomeScreen({ navigation }: any) {
   const [trips, setTrips] = useState<Trip[]>([]);
@@ -23,6 +28,10 @@ export default function HomeScreen({ navigation }: any) {
   const [isRefreshing, setIsRefreshing] = useState(false);
   const [detectionState, setDetectionState] = useState<Partial<TripDetectionState>>({});
   const [syncStatus, setSyncStatus] = useState(syncService.getSyncStatus());
+  const [searchText, setSearchText] = useState('');
+  const [searchResults, setSearchResults] = useState<TripSearchResults | null>(null);
+  const [modeFacet, setModeFacet] = useState<string | null>(null);
+  const [monthFacet, setMonthFacet] = useState<string | null>(null);
 
   useEffect(() => {
     loadTrips();
@@ -35,6 +44,19 @@ export default function HomeScreen({ navigation }: any) {
     };
   }, []);
 
+  // Search as the user types, once they pause
+  useEffect(() => {
+    if (!searchText.trim()) {
+      setSearchResults(null);
+      return;
+    }
+    
+    const timeout = setTimeout(() => {
+      runSearch();
+    }, 250);
+    return () => clearTimeout(timeout);
+  }, [searchText, modeFacet, monthFacet]);
+
   const setupListeners = () => {
     // Listen for new trips
     tripDetectionService.addTripListener(handleNewTrip);
@@ -51,8 +73,36 @@ export default function HomeScreen({ navigation }: any) {
   };
 
   const handleNewTrip = async (trip: Trip) => {
-    // Save trip to database
-    await databaseService.saveTrip(trip);
+    // Save trip to database; listeners are not awaited, so failures end here
+    try {
+      await databaseService.saveTrip(trip);
+    } catch (error) {
+      console.error('Failed to save detected trip:', error);
+      Alert.alert(
+        'Error',
+        `Failed to save the trip from ${trip.origin.place_name} to ${trip.destination.place_name}`,
+        [
+          { text: 'Retry', onPress: () => handleNewTrip(trip) },
+          { text: 'Discard', style: 'destructive' },
+        ]
+      );
+      return;
+    }
+    
+    // Keep the day's trip numbers in departure order
+    try {
+      await tripNumberingService.renumberDays(trip.user_id, [trip.start_time]);
+    } catch (error) {
+      console.error('Failed to renumber trips:', error);
+    }
+    
+    // The new stay can create or reshape significant places, and tells us
+    // how long the user stayed at the previous trip's destination
+    placeService.rebuildPlaces(trip.user_id)
+      .then(() => purposeService.refinePreviousTrip(trip))
+      .catch(error => {
+        console.error('Failed to update places and purposes:', error);
+      });
     
     // Refresh trips list
     await loadTrips();
@@ -86,6 +136,39 @@ export default function HomeScreen({ navigation }: any) {
     }
   };
 
+  const runSearch = async () => {
+    try {
+      const userId = await getCurrentUserId();
+      if (!userId) return;
+      
+      // Month facets are UTC calendar months of the stored start times
+      let from: string | undefined;
+      let to: string | undefined;
+      if (monthFacet) {
+        const [year, month] = monthFacet.split('-').map(Number);
+        from = new Date(Date.UTC(year, month - 1, 1)).toISOString();
+        to = new Date(Date.UTC(year, month, 1)).toISOString();
+      }
+      
+      const results = await databaseService.searchTrips({
+        user_id: userId,
+        text: searchText,
+        from,
+        to,
+        modes: modeFacet ? [modeFacet] : undefined,
+      });
+      setSearchResults(results);
+    } catch (error) {
+      console.error('Failed to search trips:', error);
+    }
+  };
+
+  const clearSearch = () => {
+    setSearchText('');
+    setModeFacet(null);
+    setMonthFacet(null);
+  };
+
   const handleRefresh = async () => {
     setIsRefreshing(true);
     await loadTrips();
@@ -177,7 +260,97 @@ export default function HomeScreen({ navigation }: any) {
     </TouchableOpacity>
   );
 
-  const renderEmptyState = () => (
+  const renderHighlighted = (text: string) =>
+    splitHighlights(text).map((segment, index) => (
+      <Text key={index} style={segment.match ? styles.searchMatch : undefined}>
+        {segment.text}
+      </Text>
+    ));
+
+  const renderSearchHit = ({ item }: { item: TripSearchHit }) => {
+    const mode = item.trip.travel_mode.user_confirmed || item.trip.travel_mode.detected;
+    return (
+      <TouchableOpacity
+        style={styles.tripItem}
+        onPress={() => navigation.navigate('TripDetail', { tripId: item.trip.trip_id })}
+      >
+        <View style={styles.tripHeader}>
+          <View style={styles.tripInfo}>
+            <Text style={styles.tripRoute}>
+              {renderHighlighted(item.highlights.origin)} → {renderHighlighted(item.highlights.destination)}
+            </Text>
+            <Text style={styles.tripTime}>
+              {new Date(item.trip.start_time).toLocaleDateString()} {formatTime(item.trip.start_time)}
+            </Text>
+          </View>
+          <View style={[styles.modeBadge, { backgroundColor: getTravelModeColor(mode) }]}>
+            <Text style={styles.modeText}>{mode}</Text>
+          </View>
+        </View>
+        
+        {item.highlights.notes ? (
+          <Text style={styles.searchNotes} numberOfLines={2}>
+            {renderHighlighted(item.highlights.notes)}
+          </Text>
+        ) : null}
+      </TouchableOpacity>
+    );
+  };
+
+  const renderFacetChip = (label: string, count: number, selected: boolean, onPress: () => void) => (
+    <TouchableOpacity
+      key={label}
+      style={[styles.facetChip, selected && styles.facetChipSelected]}
+      onPress={onPress}
+    >
+      <Text style={[styles.facetChipText, selected && styles.facetChipTextSelected]}>
+        {label} ({count})
+      </Text>
+    </TouchableOpacity>
+  );
+
+  const renderSearchHeader = () => {
+    if (!searchResults) return null;
+    
+    const modes = Object.entries(searchResults.facets.modes).sort((a, b) => b[1] - a[1]);
+    const months = Object.entries(searchResults.facets.months).sort((a, b) => b[0].localeCompare(a[0]));
+    return (
+      <View style={styles.searchHeader}>
+        <Text style={styles.searchSummary}>
+          {searchResults.total === 1 ? '1 matching trip' : `${searchResults.total} matching trips`}
+        </Text>
+        {modes.length > 0 && (
+          <ScrollView horizontal showsHorizontalScrollIndicator={false} style={styles.facetRow}>
+            {modes.map(([mode, count]) => renderFacetChip(
+              formatTravelMode(mode),
+              count,
+              modeFacet === mode,
+              () => setModeFacet(modeFacet === mode ? null : mode)
+            ))}
+          </ScrollView>
+        )}
+        {months.length > 0 && (
+          <ScrollView horizontal showsHorizontalScrollIndicator={false} style={styles.facetRow}>
+            {months.map(([month, count]) => renderFacetChip(
+              formatMonth(month),
+              count,
+              monthFacet === month,
+              () => setMonthFacet(monthFacet === month ? null : month)
+            ))}
+          </ScrollView>
+        )}
+      </View>
+    );
+  };
+
+  const renderEmptyState = () => searchResults ? (
+    <View style={styles.emptyState}>
+      <Text style={styles.emptyStateTitle}>No matching trips</Text>
+      <Text style={styles.emptyStateText}>
+        Try fewer words or clear the filters
+      </Text>
+    </View>
+  ) : (
     <View style={styles.emptyState}>
       <Text style={styles.emptyStateTitle}>No trips yet</Text>
       <Text style={styles.emptyStateText}>
@@ -200,10 +373,14 @@ export default function HomeScreen({ navigation }: any) {
             <Text style={styles.statusLabel}>Tracking</Text>
             <View style={[
               styles.statusIndicator,
-              { backgroundColor: detectionState.isTracking ? Colors.success : Colors.textSecondary }
+              { backgroundColor: !detectionState.isTracking
+                ? Colors.textSecondary
+                : detectionState.samplingProfile === 'paused' ? Colors.warning : Colors.success }
             ]}>
               <Text style={styles.statusText}>
-                {detectionState.isTracking ? 'ON' : 'OFF'}
+                {!detectionState.isTracking
+                  ? 'OFF'
+                  : detectionState.samplingProfile === 'paused' ? 'PAUSED' : 'ON'}
               </Text>
             </View>
           </View>
@@ -241,30 +418,60 @@ export default function HomeScreen({ navigation }: any) {
           <TouchableOpacity
             style={styles.controlButton}
             onPress={handleForceSync}
-            disabled={!syncStatus.isOnline}
+            disabled={syncStatus.blockedBy !== null}
           >
-            <Text style={[styles.controlButtonText, !syncStatus.isOnline && styles.controlButtonDisabled]}>
+            <Text style={[styles.controlButtonText, syncStatus.blockedBy !== null && styles.controlButtonDisabled]}>
               Sync Now
             </Text>
           </TouchableOpacity>
         </View>
+        
+        <View style={styles.searchBar}>
+          <TextInput
+            style={styles.searchInput}
+            value={searchText}
+            onChangeText={setSearchText}
+            placeholder="Search notes and places"
+            placeholderTextColor={Colors.textTertiary}
+            autoCorrect={false}
+            returnKeyType="search"
+          />
+          {searchText.length > 0 && (
+            <TouchableOpacity style={styles.searchClear} onPress={clearSearch}>
+              <Text style={styles.searchClearText}>✕</Text>
+            </TouchableOpacity>
+          )}
+        </View>
       </View>
 
-      <FlatList
-        data={trips}
-        renderItem={renderTripItem}
-        keyExtractor={(item) => item.trip_id}
-        contentContainerStyle={trips.length === 0 ? styles.emptyContainer : styles.listContainer}
-        refreshControl={
-          <RefreshControl
-            refreshing={isRefreshing}
-            onRefresh={handleRefresh}
-            colors={[Colors.primary]}
-          />
-        }
-        ListEmptyComponent={renderEmptyState}
-        showsVerticalScrollIndicator={false}
-      />
+      {searchResults ? (
+        <FlatList
+          data={searchResults.hits}
+          renderItem={renderSearchHit}
+          keyExtractor={(item) => item.trip.trip_id}
+          ListHeaderComponent={renderSearchHeader}
+          contentContainerStyle={styles.listContainer}
+          ListEmptyComponent={renderEmptyState}
+          keyboardShouldPersistTaps="handled"
+          showsVerticalScrollIndicator={false}
+        />
+      ) : (
+        <FlatList
+          data={trips}
+          renderItem={renderTripItem}
+          keyExtractor={(item) => item.trip_id}
+          contentContainerStyle={trips.length === 0 ? styles.emptyContainer : styles.listContainer}
+          refreshControl={
+            <RefreshControl
+              refreshing={isRefreshing}
+              onRefresh={handleRefresh}
+              colors={[Colors.primary]}
+            />
+          }
+          ListEmptyComponent={renderEmptyState}
+          showsVerticalScrollIndicator={false}
+        />
+      )}
     </SafeAreaView>
   );
 }
@@ -331,6 +538,68 @@ const styles = StyleSheet.create({
   controlButtonDisabled: {
     color: Colors.textSecondary,
   },
+  searchBar: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginTop: 12,
+    borderWidth: 1,
+    borderColor: Colors.border,
+    borderRadius: 6,
+    backgroundColor: Colors.background,
+  },
+  searchInput: {
+    flex: 1,
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    fontSize: 14,
+    color: Colors.text,
+  },
+  searchClear: {
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+  },
+  searchClearText: {
+    fontSize: 14,
+    color: Colors.textSecondary,
+  },
+  searchHeader: {
+    marginBottom: 10,
+  },
+  searchSummary: {
+    fontSize: 14,
+    color: Colors.textSecondary,
+    marginBottom: 8,
+  },
+  facetRow: {
+    marginBottom: 8,
+  },
+  facetChip: {
+    paddingHorizontal: 10,
+    paddingVertical: 4,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: Colors.border,
+    marginRight: 6,
+  },
+  facetChipSelected: {
+    backgroundColor: Colors.primary,
+    borderColor: Colors.primary,
+  },
+  facetChipText: {
+    fontSize: 12,
+    color: Colors.text,
+  },
+  facetChipTextSelected: {
+    color: Colors.textInverse,
+  },
+  searchMatch: {
+    fontWeight: 'bold',
+    color: Colors.primary,
+  },
+  searchNotes: {
+    fontSize: 14,
+    color: Colors.textSecondary,
+  },
   listContainer: {
     padding: 15,
   },
@@ -0,0 +1,219 @@
+import React, { useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+  Switch,
+  Alert,
+  ActivityIndicator,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import * as DocumentPicker from 'expo-document-picker';
+import { File } from 'expo-file-system';
+import { Colors } from '../constants/Colors';
+import { tripImportService, ImportPreview } from '../services/TripImportService';
+import { formatDateTime, formatDistance, formatDuration, formatTravelMode } from '../utils/formatters';
+
+export default function ImportTripsScreen({ navigation }: any) {
+  const [preview, setPreview] = useState<ImportPreview | null>(null);
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [isWorking, setIsWorking] = useState(false);
+
+  const handlePickFile = async () => {
+    const result = await DocumentPicker.getDocumentAsync({
+      type: ['application/gpx+xml', 'application/geo+json', 'application/json', 'application/xml', 'text/xml', '*/*'],
+      copyToCacheDirectory: true,
+    });
+    if (result.canceled || result.assets.length === 0) return;
+
+    const asset = result.assets[0];
+    setIsWorking(true);
+    try {
+      const content = await new File(asset.uri).text();
+      const importPreview = await tripImportService.previewImport(content, asset.name);
+      setPreview(importPreview);
+      // Trips that overlap ones already recorded are probably duplicates
+      setSelectedIds(
+        importPreview.trips
+          .filter(imported => !imported.overlapsExisting)
+          .map(imported => imported.trip.trip_id)
+      );
+    } catch (error) {
+      console.error('Failed to read trace file:', error);
+      Alert.alert('Import Failed', error instanceof Error ? error.message : 'Could not read the file.');
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const toggleTrip = (tripId: string, selected: boolean) => {
+    setSelectedIds(current =>
+      selected ? [...current, tripId] : current.filter(id => id !== tripId)
+    );
+  };
+
+  const handleImport = async () => {
+    if (!preview) return;
+
+    setIsWorking(true);
+    try {
+      const count = await tripImportService.commitImport(preview, selectedIds);
+      Alert.alert(
+        'Import Complete',
+        `${count} trip${count === 1 ? '' : 's'} added to your diary.`,
+        [{ text: 'OK', onPress: () => navigation.goBack() }]
+      );
+    } catch (error) {
+      console.error('Failed to import trips:', error);
+      Alert.alert('Import Failed', 'The trips could not be saved. Please try again.');
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <ScrollView style={styles.scrollView}>
+        <View style={styles.section}>
+          <Text style={styles.description}>
+            Add trips recorded by another app or a GPS logger. GPX tracks and GeoJSON
+            LineStrings with timestamps are supported; trips are detected the same way
+            as when tracking live.
+          </Text>
+          <TouchableOpacity
+            style={[styles.button, isWorking && styles.buttonDisabled]}
+            onPress={handlePickFile}
+            disabled={isWorking}
+          >
+            <Text style={styles.buttonText}>{preview ? 'Choose Another File' : 'Choose File'}</Text>
+          </TouchableOpacity>
+        </View>
+
+        {isWorking && (
+          <View style={styles.loadingContainer}>
+            <ActivityIndicator size="large" color={Colors.primary} />
+          </View>
+        )}
+
+        {preview && !isWorking && (
+          <View style={styles.section}>
+            <Text style={styles.sectionTitle}>{preview.name || preview.source}</Text>
+            <Text style={styles.summaryText}>
+              {preview.pointCount} points, {preview.rejectedCount} filtered as noise,{' '}
+              {preview.trips.length} trip{preview.trips.length === 1 ? '' : 's'} found
+            </Text>
+
+            {preview.trips.map(({ trip, overlapsExisting }) => (
+              <View key={trip.trip_id} style={styles.tripItem}>
+                <View style={styles.tripInfo}>
+                  <Text style={styles.tripRoute}>
+                    {trip.origin.place_name} → {trip.destination.place_name}
+                  </Text>
+                  <Text style={styles.tripDetails}>
+                    {formatDateTime(trip.start_time)} · {formatDuration(trip.duration_seconds)} ·{' '}
+                    {formatDistance(trip.distance_meters)} · {formatTravelMode(trip.travel_mode.detected)}
+                  </Text>
+                  {overlapsExisting && (
+                    <Text style={styles.warningText}>Overlaps a trip already in your diary</Text>
+                  )}
+                </View>
+                <Switch
+                  value={selectedIds.includes(trip.trip_id)}
+                  onValueChange={(value) => toggleTrip(trip.trip_id, value)}
+                  trackColor={{ false: Colors.border, true: Colors.primaryLight }}
+                  thumbColor={selectedIds.includes(trip.trip_id) ? Colors.primary : Colors.textSecondary}
+                />
+              </View>
+            ))}
+
+            <TouchableOpacity
+              style={[styles.button, selectedIds.length === 0 && styles.buttonDisabled]}
+              onPress={handleImport}
+              disabled={selectedIds.length === 0}
+            >
+              <Text style={styles.buttonText}>
+                Import {selectedIds.length} Trip{selectedIds.length === 1 ? '' : 's'}
+              </Text>
+            </TouchableOpacity>
+          </View>
+        )}
+      </ScrollView>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: Colors.background,
+  },
+  scrollView: {
+    flex: 1,
+  },
+  loadingContainer: {
+    padding: 40,
+    alignItems: 'center',
+  },
+  section: {
+    padding: 20,
+  },
+  sectionTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: Colors.text,
+    marginBottom: 4,
+  },
+  description: {
+    fontSize: 14,
+    color: Colors.textSecondary,
+    lineHeight: 20,
+    marginBottom: 16,
+  },
+  summaryText: {
+    fontSize: 14,
+    color: Colors.textSecondary,
+    marginBottom: 12,
+  },
+  tripItem: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 12,
+    borderBottomWidth: 1,
+    borderBottomColor: Colors.borderLight,
+  },
+  tripInfo: {
+    flex: 1,
+    marginRight: 10,
+  },
+  tripRoute: {
+    fontSize: 16,
+    color: Colors.text,
+    marginBottom: 4,
+  },
+  tripDetails: {
+    fontSize: 13,
+    color: Colors.textSecondary,
+  },
+  warningText: {
+    fontSize: 13,
+    color: Colors.warning,
+    marginTop: 4,
+  },
+  button: {
+    marginTop: 16,
+    paddingVertical: 14,
+    borderRadius: 8,
+    backgroundColor: Colors.primary,
+    alignItems: 'center',
+  },
+  buttonDisabled: {
+    backgroundColor: Colors.border,
+  },
+  buttonText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: Colors.textInverse,
+  },
+});
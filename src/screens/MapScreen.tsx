@@ -8,7 +8,7 @@ import {
 } from 'react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { Colors } from '../constants/Colors';
-import { Trip } from '../types';
+import { Trip, TripQuery } from '../types';
 import { databaseService } from '../services/DatabaseService';
 import { formatDistance, formatDuration, formatTime } from '../utils/formatters';
 import { getTravelModeColor } from '../constants/Colors';
@@ -55,25 +55,24 @@ export default function MapScreen({ navigation }: any) {
     try {
       const userId = await getCurrentUserId();
       if (userId) {
-        const userTrips = await databaseService.getTrips(userId, 100, 0);
-        
-        // Filter trips based on view mode
+        const query: TripQuery = { user_id: userId };
         const now = new Date();
-        const filteredTrips = userTrips.filter(trip => {
-          const tripDate = new Date(trip.start_time);
-          
-          switch (viewMode) {
-            case 'today':
-              return tripDate.toDateString() === now.toDateString();
-            case 'week':
-              const weekAgo = new Date(now.getTime() - 7 * 24 * 60 * 60 * 1000);
-              return tripDate >= weekAgo;
-            case 'all':
-            default:
-              return true;
+        switch (viewMode) {
+          case 'today': {
+            const midnight = new Date(now.getFullYear(), now.getMonth(), now.getDate());
+            query.from = midnight.toISOString();
+            break;
           }
-        });
+          case 'week':
+            query.from = new Date(now.getTime() - 7 * 24 * 60 * 60 * 1000).toISOString();
+            break;
+          case 'all':
+          default:
+            query.limit = 100;
+            break;
+        }
         
+        const { trips: filteredTrips } = await databaseService.queryTrips(query);
         setTrips(filteredTrips);
       }
     } catch (error) {
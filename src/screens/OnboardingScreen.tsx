@@ -15,6 +15,7 @@ import { Colors } from '../constants/Colors';
 import { EncryptionService } from '../utils/encryption';
 import { apiService } from '../services/ApiService';
 import { databaseService } from '../services/DatabaseService';
+import { deviceTimeZone } from '../services/TripNumbering';
 import { User, SignupData, LoginCredentials } from '../types';
 import { SignupRequest } from '../types/Api';
 import { APP_CONFIG } from '../constants/Config';
@@ -49,10 +50,6 @@ export default function OnboardingScreen({ onAuthentication }: OnboardingScreenP
     setIsLoading(true);
 
     try {
-      // Generate encryption key for user
-      const userKey = await EncryptionService.generateUserKey();
-      await EncryptionService.storeUserKey(userKey);
-
       // Generate pseudonymous user ID
       const userId = await EncryptionService.generatePseudonymousUserId(email);
 
@@ -101,12 +98,14 @@ export default function OnboardingScreen({ onAuthentication }: OnboardingScreenP
         user_id: userId,
         background_tracking_enabled: true,
         sync_frequency_minutes: 30,
+        sync_network_policy: 'any',
         battery_optimization: true,
         privacy_mode: false,
         reward_notifications: true,
         created_at: new Date().toISOString(),
         updated_at: new Date().toISOString(),
       });
+      await ensureUserProfile(userId);
 
       onAuthentication(user);
 
@@ -118,6 +117,21 @@ export default function OnboardingScreen({ onAuthentication }: OnboardingScreenP
     }
   };
 
+  // Trips are numbered per day in the user's timezone, taken from the device at signup
+  const ensureUserProfile = async (userId: string) => {
+    const existing = await databaseService.getUserProfile(userId);
+    if (existing) return;
+
+    const now = new Date().toISOString();
+    await databaseService.saveUserProfile({
+      user_id: userId,
+      timezone: deviceTimeZone(),
+      language: 'en',
+      created_at: now,
+      updated_at: now,
+    });
+  };
+
   const handleLogin = async () => {
     if (!email || !password) {
       Alert.alert('Error', 'Please fill in all fields');
@@ -154,6 +168,7 @@ export default function OnboardingScreen({ onAuthentication }: OnboardingScreenP
       // Save user to local storage
       const { default: AsyncStorage } = await import('@react-native-async-storage/async-storage');
       await AsyncStorage.setItem('current_user', JSON.stringify(user));
+      await ensureUserProfile(userId);
 
       onAuthentication(user);
 
@@ -13,6 +13,7 @@ import { Colors } from '../constants/Colors';
 import { User, ConsentRecord } from '../types';
 import { databaseService } from '../services/DatabaseService';
 import { syncService } from '../services/SyncService';
+import { tripExportService } from '../services/TripExportService';
 import { formatFileSize } from '../utils/formatters';
 
 export default function PrivacyScreen({ navigation }: any) {
@@ -97,6 +98,32 @@ export default function PrivacyScreen({ navigation }: any) {
     }
   };
 
+  const handleExportDiary = () => {
+    const exportDiary = async (includeLegs: boolean) => {
+      try {
+        const result = await tripExportService.exportDiaryCsv({}, { includeLegs });
+        if (result.tripCount === 0) {
+          Alert.alert('No Trips', 'There are no trips to export yet.');
+          return;
+        }
+        await tripExportService.shareExport(result);
+      } catch (error) {
+        console.error('Failed to export trip diary:', error);
+        Alert.alert('Error', 'Failed to export trip diary');
+      }
+    };
+
+    Alert.alert(
+      'Export Trip Diary',
+      'Export one row per trip, or add a row for each leg of the trip?',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        { text: 'Trips Only', onPress: () => exportDiary(false) },
+        { text: 'Trips and Legs', onPress: () => exportDiary(true) },
+      ]
+    );
+  };
+
   const handleDeleteData = () => {
     Alert.alert(
       'Delete All Data',
@@ -278,6 +305,20 @@ export default function PrivacyScreen({ navigation }: any) {
             <Text style={styles.actionButtonChevron}>›</Text>
           </TouchableOpacity>
 
+          <TouchableOpacity
+            style={styles.actionButton}
+            onPress={handleExportDiary}
+          >
+            <Text style={styles.actionButtonIcon}>📊</Text>
+            <View style={styles.actionButtonInfo}>
+              <Text style={styles.actionButtonTitle}>Export Trip Diary (CSV)</Text>
+              <Text style={styles.actionButtonDescription}>
+                Save your trips as a spreadsheet from this device
+              </Text>
+            </View>
+            <Text style={styles.actionButtonChevron}>›</Text>
+          </TouchableOpacity>
+
           <TouchableOpacity
             style={styles.actionButton}
             onPress={handleRequestDataDeletion}
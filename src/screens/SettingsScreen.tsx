@@ -10,19 +10,38 @@ import {
 } from 'react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { Colors } from '../constants/Colors';
-import { UserPreferences } from '../types';
+import { UserPreferences, ModeAccuracy, SyncNetworkPolicy, SYNC_NETWORK_POLICIES } from '../types';
 import { databaseService } from '../services/DatabaseService';
 import { tripDetectionService } from '../services/TripDetectionService';
 import { syncService } from '../services/SyncService';
+import { SyncBlockReason } from '../services/Connectivity';
+import { formatPercentage, formatTravelMode } from '../utils/formatters';
+
+const NETWORK_POLICY_LABELS: Record<SyncNetworkPolicy, string> = {
+  any: 'Any',
+  no_roaming: 'No roaming',
+  unmetered: 'Unmetered',
+  wifi: 'Wi-Fi',
+};
+
+const SYNC_BLOCK_LABELS: Record<SyncBlockReason, string> = {
+  offline: 'Offline',
+  not_wifi: 'Waiting for Wi-Fi',
+  metered: 'Waiting for an unmetered network',
+  roaming: 'Paused while roaming',
+};
 
 export default function SettingsScreen({ navigation }: any) {
   const [preferences, setPreferences] = useState<UserPreferences | null>(null);
   const [isTrackingEnabled, setIsTrackingEnabled] = useState(false);
   const [syncStatus, setSyncStatus] = useState(syncService.getSyncStatus());
+  const [modeAccuracy, setModeAccuracy] = useState<ModeAccuracy[]>([]);
 
   useEffect(() => {
     loadPreferences();
+    loadModeAccuracy();
     setupListeners();
+    syncService.refreshQueueCounts();
     
     return () => {
       syncService.removeSyncStatusListener(handleSyncStatusChange);
@@ -52,6 +71,17 @@ export default function SettingsScreen({ navigation }: any) {
     }
   };
 
+  const loadModeAccuracy = async () => {
+    try {
+      const userId = await getCurrentUserId();
+      if (userId) {
+        setModeAccuracy(await databaseService.getModeAccuracy(userId));
+      }
+    } catch (error) {
+      console.error('Failed to load mode accuracy:', error);
+    }
+  };
+
   const getCurrentUserId = async (): Promise<string | null> => {
     try {
       const { default: AsyncStorage } = await import('@react-native-async-storage/async-storage');
@@ -87,6 +117,10 @@ export default function SettingsScreen({ navigation }: any) {
           await tripDetectionService.stopTracking();
         }
         setIsTrackingEnabled(value);
+      } else if (key === 'battery_optimization') {
+        tripDetectionService.setBatteryOptimization(value);
+      } else if (key === 'sync_network_policy') {
+        syncService.setNetworkPolicy(value);
       }
     } catch (error) {
       console.error('Failed to update preference:', error);
@@ -98,6 +132,10 @@ export default function SettingsScreen({ navigation }: any) {
     updatePreference('sync_frequency_minutes', frequency);
   };
 
+  const handleNetworkPolicyChange = (policy: SyncNetworkPolicy) => {
+    updatePreference('sync_network_policy', policy);
+  };
+
   const handleForceSync = async () => {
     try {
       await syncService.forceSync();
@@ -229,6 +267,26 @@ export default function SettingsScreen({ navigation }: any) {
           </View>
         </View>
 
+        {modeAccuracy.length > 0 && (
+          <View style={styles.section}>
+            <Text style={styles.sectionTitle}>Mode Detection</Text>
+            
+            {modeAccuracy.map((entry) => (
+              <View key={entry.mode} style={styles.settingItem}>
+                <View style={styles.settingInfo}>
+                  <Text style={styles.settingLabel}>{formatTravelMode(entry.mode)}</Text>
+                  <Text style={styles.settingDescription}>
+                    {entry.correct_count} of {entry.confirmed_count} confirmed trips detected correctly
+                  </Text>
+                </View>
+                <Text style={styles.accuracyText}>
+                  {formatPercentage(entry.correct_count, entry.confirmed_count)}
+                </Text>
+              </View>
+            ))}
+          </View>
+        )}
+
         <View style={styles.section}>
           <Text style={styles.sectionTitle}>Sync & Data</Text>
           
@@ -260,23 +318,84 @@ export default function SettingsScreen({ navigation }: any) {
             </View>
           </View>
 
+          <View style={styles.settingItem}>
+            <View style={styles.settingInfo}>
+              <Text style={styles.settingLabel}>Sync Network</Text>
+              <Text style={styles.settingDescription}>
+                Which networks sync may use. Roaming is detected on Android; elsewhere, mobile data counts as roaming.
+              </Text>
+            </View>
+            <View style={[styles.frequencySelector, styles.policySelector]}>
+              {SYNC_NETWORK_POLICIES.map((policy) => (
+                <TouchableOpacity
+                  key={policy}
+                  style={[
+                    styles.frequencyOption,
+                    preferences.sync_network_policy === policy && styles.selectedFrequencyOption
+                  ]}
+                  onPress={() => handleNetworkPolicyChange(policy)}
+                >
+                  <Text style={[
+                    styles.frequencyText,
+                    preferences.sync_network_policy === policy && styles.selectedFrequencyText
+                  ]}>
+                    {NETWORK_POLICY_LABELS[policy]}
+                  </Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+          </View>
+
           <View style={styles.settingItem}>
             <View style={styles.settingInfo}>
               <Text style={styles.settingLabel}>Sync Status</Text>
               <Text style={styles.settingDescription}>
-                {syncStatus.isOnline ? 'Online' : 'Offline'} • {syncStatus.pendingTrips} pending
+                {syncStatus.blockedBy ? SYNC_BLOCK_LABELS[syncStatus.blockedBy] : 'Online'} • {syncStatus.pendingTrips} pending
               </Text>
+              {syncStatus.tamperedTrips > 0 && (
+                <Text style={[styles.settingDescription, styles.warningText]}>
+                  {syncStatus.tamperedTrips} downloaded trips failed verification and were skipped
+                </Text>
+              )}
             </View>
             <TouchableOpacity
               style={styles.syncButton}
               onPress={handleForceSync}
-              disabled={!syncStatus.isOnline}
+              disabled={syncStatus.blockedBy !== null}
             >
-              <Text style={[styles.syncButtonText, !syncStatus.isOnline && styles.syncButtonDisabled]}>
+              <Text style={[styles.syncButtonText, syncStatus.blockedBy !== null && styles.syncButtonDisabled]}>
                 Sync Now
               </Text>
             </TouchableOpacity>
           </View>
+
+          <TouchableOpacity
+            style={styles.settingItem}
+            onPress={() => navigation.navigate('SyncQueue')}
+          >
+            <View style={styles.settingInfo}>
+              <Text style={styles.settingLabel}>Sync Queue</Text>
+              <Text style={[styles.settingDescription, syncStatus.stuckChanges > 0 && styles.warningText]}>
+                {syncStatus.pendingChanges} waiting • {syncStatus.stuckChanges} need attention
+              </Text>
+            </View>
+            <Text style={styles.chevron}>›</Text>
+          </TouchableOpacity>
+
+          <TouchableOpacity
+            style={styles.settingItem}
+            onPress={() => navigation.navigate('SyncConflicts')}
+          >
+            <View style={styles.settingInfo}>
+              <Text style={styles.settingLabel}>Sync Conflicts</Text>
+              <Text style={[styles.settingDescription, syncStatus.conflicts > 0 && styles.warningText]}>
+                {syncStatus.conflicts === 0
+                  ? 'Edits on all your devices agree'
+                  : `${syncStatus.conflicts} edits to choose between`}
+              </Text>
+            </View>
+            <Text style={styles.chevron}>›</Text>
+          </TouchableOpacity>
         </View>
 
         <View style={styles.section}>
@@ -333,6 +452,32 @@ export default function SettingsScreen({ navigation }: any) {
         <View style={styles.section}>
           <Text style={styles.sectionTitle}>Data Management</Text>
           
+          <TouchableOpacity
+            style={styles.settingItem}
+            onPress={() => navigation.navigate('ImportTrips')}
+          >
+            <View style={styles.settingInfo}>
+              <Text style={styles.settingLabel}>Import Trips</Text>
+              <Text style={styles.settingDescription}>
+                Add trips from GPX or GeoJSON files
+              </Text>
+            </View>
+            <Text style={styles.chevron}>›</Text>
+          </TouchableOpacity>
+
+          <TouchableOpacity
+            style={styles.settingItem}
+            onPress={() => navigation.navigate('ExportTrips')}
+          >
+            <View style={styles.settingInfo}>
+              <Text style={styles.settingLabel}>Export Trips</Text>
+              <Text style={styles.settingDescription}>
+                Save trips as GPX, GeoJSON or KML for other apps
+              </Text>
+            </View>
+            <Text style={styles.chevron}>›</Text>
+          </TouchableOpacity>
+
           <TouchableOpacity
             style={styles.settingItem}
             onPress={handleExportData}
@@ -450,6 +595,9 @@ const styles = StyleSheet.create({
     color: Colors.textSecondary,
     lineHeight: 18,
   },
+  warningText: {
+    color: Colors.warning,
+  },
   chevron: {
     fontSize: 18,
     color: Colors.textSecondary,
@@ -459,6 +607,11 @@ const styles = StyleSheet.create({
     flexDirection: 'row',
     gap: 8,
   },
+  policySelector: {
+    flexShrink: 1,
+    flexWrap: 'wrap',
+    justifyContent: 'flex-end',
+  },
   frequencyOption: {
     paddingHorizontal: 12,
     paddingVertical: 6,
@@ -491,6 +644,12 @@ const styles = StyleSheet.create({
   syncButtonDisabled: {
     color: Colors.textSecondary,
   },
+  accuracyText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: Colors.primary,
+    marginLeft: 10,
+  },
   dangerText: {
     color: Colors.error,
   },
@@ -0,0 +1,253 @@
+import React, { useState, useEffect } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+  Alert,
+  RefreshControl,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { Colors } from '../constants/Colors';
+import { Trip, TripConflict, ConflictResolution, VersionedTripField } from '../types';
+import { databaseService } from '../services/DatabaseService';
+import { syncService } from '../services/SyncService';
+import { formatDateTime, formatRelativeTime, formatTravelMode, formatTripPurpose } from '../utils/formatters';
+
+const FIELD_LABELS: Record<VersionedTripField, string> = {
+  travel_mode: 'Travel mode',
+  trip_purpose: 'Purpose',
+  accompanying: 'Companions',
+  notes: 'Notes',
+  is_private: 'Privacy',
+  legs: 'Mode chain',
+};
+
+const describeValue = (field: VersionedTripField, value: any): string => {
+  switch (field) {
+    case 'travel_mode':
+      return formatTravelMode(value.user_confirmed ?? value.detected);
+    case 'trip_purpose':
+      return formatTripPurpose(value.trip_purpose);
+    case 'accompanying':
+      return value.num_accompanying === 0 ? 'Travelled alone' : `${value.num_accompanying} accompanying`;
+    case 'notes':
+      return value || 'No notes';
+    case 'is_private':
+      return value ? 'Private' : 'Shared';
+    case 'legs':
+      return value.length === 0
+        ? 'Single mode'
+        : value.map((leg: any) => formatTravelMode(leg.travel_mode.user_confirmed ?? leg.travel_mode.detected)).join(' → ');
+  }
+};
+
+export default function SyncConflictsScreen({ navigation }: any) {
+  const [conflicts, setConflicts] = useState<TripConflict[]>([]);
+  const [trips, setTrips] = useState<Record<string, Trip>>({});
+  const [isRefreshing, setIsRefreshing] = useState(false);
+
+  useEffect(() => {
+    loadConflicts();
+  }, []);
+
+  const loadConflicts = async () => {
+    try {
+      const loaded = await databaseService.getSyncConflicts();
+      const loadedTrips: Record<string, Trip> = {};
+      for (const tripId of new Set(loaded.map(conflict => conflict.trip_id))) {
+        const trip = await databaseService.getTrip(tripId);
+        if (trip) loadedTrips[tripId] = trip;
+      }
+      setTrips(loadedTrips);
+      setConflicts(loaded);
+    } catch (error) {
+      console.error('Failed to load sync conflicts:', error);
+    }
+  };
+
+  const handleRefresh = async () => {
+    setIsRefreshing(true);
+    await loadConflicts();
+    setIsRefreshing(false);
+  };
+
+  const handleResolve = async (conflict: TripConflict, resolution: ConflictResolution) => {
+    try {
+      await syncService.resolveConflict(conflict, resolution);
+    } catch (error) {
+      console.error('Failed to resolve conflict:', error);
+      Alert.alert('Error', 'Failed to save your choice');
+    } finally {
+      await loadConflicts();
+    }
+  };
+
+  const renderConflict = (conflict: TripConflict) => {
+    const trip = trips[conflict.trip_id];
+    return (
+      <View key={`${conflict.trip_id}:${conflict.field}`} style={styles.item}>
+        <View style={styles.itemHeader}>
+          <Text style={styles.itemType}>{FIELD_LABELS[conflict.field]}</Text>
+          <Text style={styles.itemTime}>{formatRelativeTime(conflict.detected_at)}</Text>
+        </View>
+        <TouchableOpacity
+          disabled={!trip}
+          onPress={() => navigation.navigate('TripDetail', { tripId: conflict.trip_id })}
+        >
+          <Text style={styles.itemTitle} numberOfLines={1}>
+            {trip ? `${trip.origin.place_name} → ${trip.destination.place_name}` : conflict.trip_id}
+          </Text>
+          {trip && <Text style={styles.itemMeta}>{formatDateTime(trip.start_time)}</Text>}
+        </TouchableOpacity>
+
+        <View style={styles.choice}>
+          <Text style={styles.choiceLabel}>On this device</Text>
+          <Text style={styles.choiceValue}>{describeValue(conflict.field, conflict.local_value)}</Text>
+          <Text style={styles.itemMeta}>Changed {formatDateTime(conflict.local_version.updated_at)}</Text>
+        </View>
+        <View style={styles.choice}>
+          <Text style={styles.choiceLabel}>From the server</Text>
+          <Text style={styles.choiceValue}>{describeValue(conflict.field, conflict.remote_value)}</Text>
+          <Text style={styles.itemMeta}>Changed {formatDateTime(conflict.remote_version.updated_at)}</Text>
+        </View>
+
+        <View style={styles.itemActions}>
+          <TouchableOpacity style={styles.actionButton} onPress={() => handleResolve(conflict, 'keep_local')}>
+            <Text style={styles.actionButtonText}>Keep Mine</Text>
+          </TouchableOpacity>
+          <TouchableOpacity
+            style={[styles.actionButton, styles.secondaryButton]}
+            onPress={() => handleResolve(conflict, 'use_remote')}
+          >
+            <Text style={[styles.actionButtonText, styles.secondaryButtonText]}>Use Server's</Text>
+          </TouchableOpacity>
+        </View>
+      </View>
+    );
+  };
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <ScrollView
+        style={styles.scrollView}
+        refreshControl={
+          <RefreshControl
+            refreshing={isRefreshing}
+            onRefresh={handleRefresh}
+            colors={[Colors.primary]}
+          />
+        }
+      >
+        <View style={styles.section}>
+          <Text style={styles.description}>
+            These trip details were corrected both on this device and elsewhere since the last sync.
+            Your version stays until you choose; the trip is not uploaded in the meantime.
+          </Text>
+          {conflicts.length === 0 ? (
+            <Text style={styles.emptyText}>No conflicts.</Text>
+          ) : (
+            conflicts.map(renderConflict)
+          )}
+        </View>
+      </ScrollView>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: Colors.background,
+  },
+  scrollView: {
+    flex: 1,
+  },
+  section: {
+    paddingHorizontal: 20,
+    paddingTop: 20,
+  },
+  description: {
+    fontSize: 14,
+    color: Colors.textSecondary,
+    marginBottom: 10,
+  },
+  emptyText: {
+    fontSize: 14,
+    color: Colors.textSecondary,
+    fontStyle: 'italic',
+  },
+  item: {
+    borderWidth: 1,
+    borderColor: Colors.border,
+    borderRadius: 8,
+    padding: 12,
+    marginBottom: 10,
+  },
+  itemHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    marginBottom: 4,
+  },
+  itemType: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: Colors.textSecondary,
+    textTransform: 'uppercase',
+  },
+  itemTime: {
+    fontSize: 12,
+    color: Colors.textSecondary,
+  },
+  itemTitle: {
+    fontSize: 16,
+    color: Colors.text,
+    marginBottom: 2,
+  },
+  itemMeta: {
+    fontSize: 12,
+    color: Colors.textSecondary,
+  },
+  choice: {
+    marginTop: 10,
+    paddingLeft: 10,
+    borderLeftWidth: 3,
+    borderLeftColor: Colors.border,
+  },
+  choiceLabel: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: Colors.textSecondary,
+    textTransform: 'uppercase',
+  },
+  choiceValue: {
+    fontSize: 15,
+    color: Colors.text,
+    marginVertical: 2,
+  },
+  itemActions: {
+    flexDirection: 'row',
+    marginTop: 12,
+    gap: 8,
+  },
+  actionButton: {
+    paddingHorizontal: 14,
+    paddingVertical: 6,
+    borderRadius: 6,
+    backgroundColor: Colors.primary,
+  },
+  actionButtonText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: Colors.textInverse,
+  },
+  secondaryButton: {
+    backgroundColor: Colors.background,
+    borderWidth: 1,
+    borderColor: Colors.primary,
+  },
+  secondaryButtonText: {
+    color: Colors.primary,
+  },
+});
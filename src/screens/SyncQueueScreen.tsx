@@ -0,0 +1,272 @@
+import React, { useState, useEffect } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+  Alert,
+  RefreshControl,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { Colors } from '../constants/Colors';
+import { SyncQueueItem, SyncTableName } from '../types';
+import { databaseService } from '../services/DatabaseService';
+import { syncService } from '../services/SyncService';
+import { formatDateTime, formatRelativeTime } from '../utils/formatters';
+
+const TABLE_LABELS: Record<SyncTableName, string> = {
+  trips: 'Trip',
+  user_preferences: 'Preferences',
+  consent_records: 'Consent',
+  reward_transactions: 'Reward',
+};
+
+export default function SyncQueueScreen() {
+  const [pending, setPending] = useState<SyncQueueItem[]>([]);
+  const [stuck, setStuck] = useState<SyncQueueItem[]>([]);
+  const [isRefreshing, setIsRefreshing] = useState(false);
+
+  useEffect(() => {
+    loadQueue();
+  }, []);
+
+  const loadQueue = async () => {
+    try {
+      setPending(await databaseService.getSyncQueue());
+      setStuck(await databaseService.getDeadLetters());
+    } catch (error) {
+      console.error('Failed to load sync queue:', error);
+    }
+  };
+
+  const handleRefresh = async () => {
+    setIsRefreshing(true);
+    await loadQueue();
+    setIsRefreshing(false);
+  };
+
+  const runAction = async (action: () => Promise<void>, failure: string) => {
+    try {
+      await action();
+    } catch (error) {
+      console.error(failure, error);
+      Alert.alert('Error', failure);
+    } finally {
+      await loadQueue();
+    }
+  };
+
+  const handleRetry = (item: SyncQueueItem) =>
+    runAction(() => syncService.retryStuckChange(item.id), 'Failed to retry the change');
+
+  const handleRetryAll = () =>
+    runAction(() => syncService.retryAllStuckChanges(), 'Failed to retry the changes');
+
+  const handleDiscard = (item: SyncQueueItem) => {
+    Alert.alert(
+      'Discard Change',
+      'This change will stay on your device but will not be sent to the server.',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Discard',
+          style: 'destructive',
+          onPress: () => runAction(() => syncService.discardStuckChange(item.id), 'Failed to discard the change'),
+        },
+      ]
+    );
+  };
+
+  const describe = (item: SyncQueueItem): string => {
+    if (item.table_name === 'trips' && item.data?.origin && item.data?.destination) {
+      return `${item.data.origin.place_name} → ${item.data.destination.place_name}`;
+    }
+    return item.record_id;
+  };
+
+  const renderItem = (item: SyncQueueItem, isStuck: boolean) => (
+    <View key={item.id} style={styles.item}>
+      <View style={styles.itemHeader}>
+        <Text style={styles.itemType}>
+          {TABLE_LABELS[item.table_name] ?? item.table_name} • {item.operation_type.toLowerCase()}
+        </Text>
+        <Text style={styles.itemTime}>{formatRelativeTime(item.created_at)}</Text>
+      </View>
+      <Text style={styles.itemTitle} numberOfLines={1}>{describe(item)}</Text>
+      {item.last_error && (
+        <Text style={styles.itemError} numberOfLines={3}>{item.last_error}</Text>
+      )}
+      <Text style={styles.itemMeta}>
+        {item.retry_count === 1 ? '1 failed attempt' : `${item.retry_count} failed attempts`}
+        {!isStuck && item.next_attempt_at ? ` • next try ${formatDateTime(item.next_attempt_at)}` : ''}
+      </Text>
+      {isStuck && (
+        <View style={styles.itemActions}>
+          <TouchableOpacity style={styles.actionButton} onPress={() => handleRetry(item)}>
+            <Text style={styles.actionButtonText}>Retry</Text>
+          </TouchableOpacity>
+          <TouchableOpacity style={[styles.actionButton, styles.discardButton]} onPress={() => handleDiscard(item)}>
+            <Text style={[styles.actionButtonText, styles.discardButtonText]}>Discard</Text>
+          </TouchableOpacity>
+        </View>
+      )}
+    </View>
+  );
+
+  const retrying = pending.filter(item => item.retry_count > 0);
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <ScrollView
+        style={styles.scrollView}
+        refreshControl={
+          <RefreshControl
+            refreshing={isRefreshing}
+            onRefresh={handleRefresh}
+            colors={[Colors.primary]}
+          />
+        }
+      >
+        <View style={styles.section}>
+          <Text style={styles.summary}>
+            {pending.length} waiting to sync • {stuck.length} need attention
+          </Text>
+        </View>
+
+        <View style={styles.section}>
+          <View style={styles.sectionHeader}>
+            <Text style={styles.sectionTitle}>Stuck</Text>
+            {stuck.length > 1 && (
+              <TouchableOpacity onPress={handleRetryAll}>
+                <Text style={styles.sectionAction}>Retry All</Text>
+              </TouchableOpacity>
+            )}
+          </View>
+          <Text style={styles.description}>
+            These changes failed too often, or were refused by the server, and are no longer retried.
+          </Text>
+          {stuck.length === 0 ? (
+            <Text style={styles.emptyText}>Nothing is stuck.</Text>
+          ) : (
+            stuck.map(item => renderItem(item, true))
+          )}
+        </View>
+
+        {retrying.length > 0 && (
+          <View style={styles.section}>
+            <Text style={styles.sectionTitle}>Retrying</Text>
+            {retrying.map(item => renderItem(item, false))}
+          </View>
+        )}
+      </ScrollView>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: Colors.background,
+  },
+  scrollView: {
+    flex: 1,
+  },
+  section: {
+    paddingHorizontal: 20,
+    paddingTop: 20,
+  },
+  sectionHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  sectionTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: Colors.text,
+    marginBottom: 10,
+    textTransform: 'uppercase',
+    letterSpacing: 0.5,
+  },
+  sectionAction: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: Colors.primary,
+    marginBottom: 10,
+  },
+  summary: {
+    fontSize: 16,
+    color: Colors.text,
+  },
+  description: {
+    fontSize: 14,
+    color: Colors.textSecondary,
+    marginBottom: 10,
+  },
+  emptyText: {
+    fontSize: 14,
+    color: Colors.textSecondary,
+    fontStyle: 'italic',
+  },
+  item: {
+    borderWidth: 1,
+    borderColor: Colors.border,
+    borderRadius: 8,
+    padding: 12,
+    marginBottom: 10,
+  },
+  itemHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    marginBottom: 4,
+  },
+  itemType: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: Colors.textSecondary,
+    textTransform: 'uppercase',
+  },
+  itemTime: {
+    fontSize: 12,
+    color: Colors.textSecondary,
+  },
+  itemTitle: {
+    fontSize: 16,
+    color: Colors.text,
+    marginBottom: 4,
+  },
+  itemError: {
+    fontSize: 13,
+    color: Colors.error,
+    marginBottom: 4,
+  },
+  itemMeta: {
+    fontSize: 12,
+    color: Colors.textSecondary,
+  },
+  itemActions: {
+    flexDirection: 'row',
+    marginTop: 10,
+    gap: 8,
+  },
+  actionButton: {
+    paddingHorizontal: 14,
+    paddingVertical: 6,
+    borderRadius: 6,
+    backgroundColor: Colors.primary,
+  },
+  actionButtonText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: Colors.textInverse,
+  },
+  discardButton: {
+    backgroundColor: Colors.background,
+    borderWidth: 1,
+    borderColor: Colors.error,
+  },
+  discardButtonText: {
+    color: Colors.error,
+  },
+});
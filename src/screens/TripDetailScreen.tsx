@@ -10,10 +10,12 @@ import {
 } from 'react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { Colors } from '../constants/Colors';
-import { Trip, TRIP_PURPOSES, TRAVEL_MODES } from '../types';
+import { Trip, TripLeg, PurposeSuggestion, TRIP_PURPOSES, TRAVEL_MODES } from '../types';
 import { databaseService } from '../services/DatabaseService';
-import { apiService } from '../services/ApiService';
-import { formatDistance, formatDuration, formatTime, formatDate, formatConfidence } from '../utils/formatters';
+import { tripDetectionService } from '../services/TripDetectionService';
+import { placeService } from '../services/PlaceService';
+import { purposeService } from '../services/PurposeService';
+import { formatDistance, formatDuration, formatTime, formatDate, formatConfidence, formatTravelMode, formatTripPurpose, formatPercentage } from '../utils/formatters';
 import { getTravelModeColor } from '../constants/Colors';
 
 export default function TripDetailScreen({ route, navigation }: any) {
@@ -21,6 +23,10 @@ export default function TripDetailScreen({ route, navigation }: any) {
   const [trip, setTrip] = useState<Trip | null>(null);
   const [isEditing, setIsEditing] = useState(false);
   const [editedTrip, setEditedTrip] = useState<Partial<Trip>>({});
+  const [editedLegs, setEditedLegs] = useState<TripLeg[]>([]);
+  const [placeNames, setPlaceNames] = useState({ origin: '', destination: '' });
+  const [purposeSuggestions, setPurposeSuggestions] = useState<PurposeSuggestion[]>([]);
+  const [conflictCount, setConflictCount] = useState(0);
 
   useEffect(() => {
     loadTrip();
@@ -37,6 +43,15 @@ export default function TripDetailScreen({ route, navigation }: any) {
           notes: tripData.notes,
           is_private: tripData.is_private,
         });
+        setEditedLegs(tripData.legs || []);
+        setPlaceNames({
+          origin: tripData.origin.place_name,
+          destination: tripData.destination.place_name,
+        });
+        setConflictCount((await databaseService.getSyncConflicts(tripId)).length);
+        purposeService.suggestForTrip(tripData)
+          .then(setPurposeSuggestions)
+          .catch(error => console.error('Failed to suggest purposes:', error));
       }
     } catch (error) {
       console.error('Failed to load trip:', error);
@@ -48,27 +63,51 @@ export default function TripDetailScreen({ route, navigation }: any) {
     if (!trip) return;
 
     try {
+      const originRenamed = !!trip.origin.place_id && !!placeNames.origin.trim() &&
+        placeNames.origin.trim() !== trip.origin.place_name;
+      const destinationRenamed = !!trip.destination.place_id && !!placeNames.destination.trim() &&
+        placeNames.destination.trim() !== trip.destination.place_name;
+
       const updatedTrip: Trip = {
         ...trip,
         ...editedTrip,
+        origin: originRenamed ? { ...trip.origin, place_name: placeNames.origin.trim() } : trip.origin,
+        destination: destinationRenamed ? { ...trip.destination, place_name: placeNames.destination.trim() } : trip.destination,
+        legs: editedLegs,
         updated_at: new Date().toISOString(),
       };
 
       await databaseService.saveTrip(updatedTrip);
 
-      // Send correction to server if needed
-      if (editedTrip.travel_mode?.user_confirmed || editedTrip.trip_purpose) {
-        await apiService.correctTrip({
-          trip_id: trip.trip_id,
-          corrections: {
-            travel_mode: editedTrip.travel_mode?.user_confirmed,
-            trip_purpose: editedTrip.trip_purpose,
-            notes: editedTrip.notes,
-            is_private: editedTrip.is_private,
-          },
-        });
+      // Names apply to the place, and so to every trip that starts or ends there
+      if (originRenamed) {
+        await placeService.namePlace(trip.user_id, trip.origin.place_id!, placeNames.origin);
+      }
+      if (destinationRenamed) {
+        await placeService.namePlace(trip.user_id, trip.destination.place_id!, placeNames.destination);
+      }
+
+      // Trip purposes help tell work and education places apart
+      if (editedTrip.trip_purpose && editedTrip.trip_purpose !== trip.trip_purpose) {
+        await placeService.rebuildPlaces(trip.user_id);
+      }
+
+      const legsCorrected = editedLegs.some((leg, index) =>
+        leg.travel_mode.user_confirmed &&
+        leg.travel_mode.user_confirmed !== trip.legs?.[index]?.travel_mode.user_confirmed
+      );
+
+      // Mode corrections personalise future detection
+      if (
+        legsCorrected ||
+        (editedTrip.travel_mode?.user_confirmed &&
+          editedTrip.travel_mode.user_confirmed !== trip.travel_mode.user_confirmed)
+      ) {
+        await tripDetectionService.refreshModeClassifier();
       }
 
+      // Corrections reach the server through the sync queue, versioned so
+      // they win over automatic updates made elsewhere
       setTrip(updatedTrip);
       setIsEditing(false);
       Alert.alert('Success', 'Trip updated successfully');
@@ -85,9 +124,26 @@ export default function TripDetailScreen({ route, navigation }: any) {
       notes: trip?.notes,
       is_private: trip?.is_private,
     });
+    setEditedLegs(trip?.legs || []);
+    setPlaceNames({
+      origin: trip?.origin.place_name || '',
+      destination: trip?.destination.place_name || '',
+    });
     setIsEditing(false);
   };
 
+  const handlePurposeSelect = (purpose: string) => {
+    setEditedTrip(prev => ({ ...prev, trip_purpose: purpose, purpose_confirmed: true }));
+  };
+
+  const handleLegModeChange = (legId: string, mode: string) => {
+    setEditedLegs(prev => prev.map(leg =>
+      leg.leg_id === legId
+        ? { ...leg, travel_mode: { ...leg.travel_mode, user_confirmed: mode } }
+        : leg
+    ));
+  };
+
   const getConfidenceColor = (confidence: number) => {
     if (confidence >= 0.8) return Colors.success;
     if (confidence >= 0.6) return Colors.warning;
@@ -119,15 +175,41 @@ export default function TripDetailScreen({ route, navigation }: any) {
           </TouchableOpacity>
         </View>
 
+        {conflictCount > 0 && (
+          <TouchableOpacity style={styles.conflictBanner} onPress={() => navigation.navigate('SyncConflicts')}>
+            <Text style={styles.conflictBannerText}>
+              This trip was also corrected on another device. Tap to choose which changes to keep.
+            </Text>
+          </TouchableOpacity>
+        )}
+
         <View style={styles.routeCard}>
           <View style={styles.routeHeader}>
             <View style={styles.locationDot} />
-            <Text style={styles.locationText}>{trip.origin.place_name}</Text>
+            {isEditing && trip.origin.place_id ? (
+              <TextInput
+                style={styles.placeNameInput}
+                value={placeNames.origin}
+                onChangeText={(text) => setPlaceNames(prev => ({ ...prev, origin: text }))}
+                placeholder="Name this place..."
+              />
+            ) : (
+              <Text style={styles.locationText}>{trip.origin.place_name}</Text>
+            )}
           </View>
           <View style={styles.routeLine} />
           <View style={styles.routeHeader}>
             <View style={[styles.locationDot, styles.destinationDot]} />
-            <Text style={styles.locationText}>{trip.destination.place_name}</Text>
+            {isEditing && trip.destination.place_id ? (
+              <TextInput
+                style={styles.placeNameInput}
+                value={placeNames.destination}
+                onChangeText={(text) => setPlaceNames(prev => ({ ...prev, destination: text }))}
+                placeholder="Name this place..."
+              />
+            ) : (
+              <Text style={styles.locationText}>{trip.destination.place_name}</Text>
+            )}
           </View>
         </View>
 
@@ -216,11 +298,81 @@ export default function TripDetailScreen({ route, navigation }: any) {
           )}
         </View>
 
+        {editedLegs.length > 1 && (
+          <View style={styles.legsCard}>
+            <Text style={styles.cardTitle}>Journey Legs</Text>
+
+            {editedLegs.map((leg) => {
+              const legMode = leg.travel_mode.user_confirmed || leg.travel_mode.detected;
+              return (
+                <View key={leg.leg_id} style={styles.legItem}>
+                  <View style={styles.legHeader}>
+                    <Text style={styles.legNumber}>{leg.leg_number}</Text>
+                    <View style={[styles.modeBadge, styles.legModeBadge, { backgroundColor: getTravelModeColor(legMode) }]}>
+                      <Text style={styles.modeText}>{formatTravelMode(legMode)}</Text>
+                    </View>
+                    <Text style={styles.legDetails}>
+                      {formatTime(leg.start_time)} - {formatTime(leg.end_time)} • {formatDuration(leg.duration_seconds)} • {formatDistance(leg.distance_meters)}
+                    </Text>
+                  </View>
+
+                  {isEditing && (
+                    <View style={styles.modeSelector}>
+                      {TRAVEL_MODES.map((mode) => (
+                        <TouchableOpacity
+                          key={mode}
+                          style={[
+                            styles.modeOption,
+                            leg.travel_mode.user_confirmed === mode && styles.selectedModeOption
+                          ]}
+                          onPress={() => handleLegModeChange(leg.leg_id, mode)}
+                        >
+                          <Text style={[
+                            styles.modeOptionText,
+                            leg.travel_mode.user_confirmed === mode && styles.selectedModeOptionText
+                          ]}>
+                            {mode.replace('_', ' ')}
+                          </Text>
+                        </TouchableOpacity>
+                      ))}
+                    </View>
+                  )}
+                </View>
+              );
+            })}
+          </View>
+        )}
+
         <View style={styles.purposeCard}>
           <Text style={styles.cardTitle}>Trip Purpose</Text>
           
           {isEditing ? (
             <View style={styles.editSection}>
+              {purposeSuggestions.length > 0 && (
+                <>
+                  <Text style={styles.editLabel}>Suggested</Text>
+                  <View style={styles.purposeSelector}>
+                    {purposeSuggestions.map((suggestion) => (
+                      <TouchableOpacity
+                        key={suggestion.purpose}
+                        style={[
+                          styles.purposeOption,
+                          editedTrip.trip_purpose === suggestion.purpose && styles.selectedPurposeOption
+                        ]}
+                        onPress={() => handlePurposeSelect(suggestion.purpose)}
+                      >
+                        <Text style={[
+                          styles.purposeOptionText,
+                          editedTrip.trip_purpose === suggestion.purpose && styles.selectedPurposeOptionText
+                        ]}>
+                          {formatTripPurpose(suggestion.purpose)} • {formatPercentage(suggestion.confidence, 1)}
+                        </Text>
+                      </TouchableOpacity>
+                    ))}
+                  </View>
+                  <Text style={styles.editLabel}>All Purposes</Text>
+                </>
+              )}
               <View style={styles.purposeSelector}>
                 {TRIP_PURPOSES.map((purpose) => (
                   <TouchableOpacity
@@ -229,7 +381,7 @@ export default function TripDetailScreen({ route, navigation }: any) {
                       styles.purposeOption,
                       editedTrip.trip_purpose === purpose && styles.selectedPurposeOption
                     ]}
-                    onPress={() => setEditedTrip(prev => ({ ...prev, trip_purpose: purpose }))}
+                    onPress={() => handlePurposeSelect(purpose)}
                   >
                     <Text style={[
                       styles.purposeOptionText,
@@ -242,7 +394,14 @@ export default function TripDetailScreen({ route, navigation }: any) {
               </View>
             </View>
           ) : (
-            <Text style={styles.purposeText}>{trip.trip_purpose.replace('_', ' ')}</Text>
+            <>
+              <Text style={styles.purposeText}>{trip.trip_purpose.replace('_', ' ')}</Text>
+              {!trip.purpose_confirmed && trip.purpose_confidence !== undefined && (
+                <Text style={styles.confidenceText}>
+                  Suggested • Confidence: {formatConfidence(trip.purpose_confidence)}
+                </Text>
+              )}
+            </>
           )}
         </View>
 
@@ -361,6 +520,19 @@ const styles = StyleSheet.create({
     fontSize: 16,
     color: Colors.textSecondary,
   },
+  conflictBanner: {
+    margin: 20,
+    marginBottom: 0,
+    padding: 12,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: Colors.warning,
+    backgroundColor: Colors.backgroundSecondary,
+  },
+  conflictBannerText: {
+    fontSize: 14,
+    color: Colors.text,
+  },
   header: {
     flexDirection: 'row',
     justifyContent: 'space-between',
@@ -414,6 +586,16 @@ const styles = StyleSheet.create({
     color: Colors.text,
     flex: 1,
   },
+  placeNameInput: {
+    flex: 1,
+    borderWidth: 1,
+    borderColor: Colors.border,
+    borderRadius: 6,
+    paddingHorizontal: 10,
+    paddingVertical: 6,
+    fontSize: 16,
+    color: Colors.text,
+  },
   routeLine: {
     width: 2,
     height: 20,
@@ -517,6 +699,39 @@ const styles = StyleSheet.create({
   selectedModeOptionText: {
     color: Colors.textInverse,
   },
+  legsCard: {
+    backgroundColor: Colors.background,
+    margin: 15,
+    marginTop: 0,
+    padding: 20,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: Colors.border,
+  },
+  legItem: {
+    paddingVertical: 10,
+    borderBottomWidth: 1,
+    borderBottomColor: Colors.border,
+  },
+  legHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    flexWrap: 'wrap',
+  },
+  legNumber: {
+    width: 24,
+    fontSize: 14,
+    fontWeight: '600',
+    color: Colors.textSecondary,
+  },
+  legModeBadge: {
+    marginBottom: 0,
+    marginRight: 10,
+  },
+  legDetails: {
+    fontSize: 12,
+    color: Colors.textSecondary,
+  },
   purposeCard: {
     backgroundColor: Colors.background,
     margin: 15,
@@ -5,6 +5,9 @@ import {
   SignupRequest, 
   TripSyncRequest, 
   TripSyncResponse,
+  TripChangeCursor,
+  TripChangesResponse,
+  RejectedTripDownload,
   TripCorrectionRequest,
   ODMatrixRequest,
   HeatmapRequest,
@@ -18,7 +21,7 @@ import {
 } from '../types/Api';
 import { Trip, UserPreferences, ConsentRecord } from '../types';
 import { APP_CONFIG } from '../constants/Config';
-import { EncryptionService } from '../utils/encryption';
+import { EncryptionService, TripIntegrityError } from '../utils/encryption';
 
 export class ApiService {
   private baseUrl: string;
@@ -33,12 +36,14 @@ export class ApiService {
   async signup(data: SignupRequest): Promise<LoginResponse> {
     const response = await this.makeRequest<LoginResponse>('POST', '/auth/signup', data);
     this.setTokens(response.tokens);
+    await EncryptionService.storeUserKey(response.trip_key);
     return response;
   }
   
   async login(credentials: LoginRequest): Promise<LoginResponse> {
     const response = await this.makeRequest<LoginResponse>('POST', '/auth/login', credentials);
     this.setTokens(response.tokens);
+    await EncryptionService.storeUserKey(response.trip_key);
     return response;
   }
   
@@ -72,16 +77,44 @@ export class ApiService {
     }
   }
   
-  // Trip sync methods
+  // Fetches the trip key for sessions that started before the server issued
+  // one, or whose key was found stale
+  private async ensureTripKey(): Promise<void> {
+    if (await EncryptionService.getUserKey()) return;
+    
+    const response = await this.makeRequest<{ trip_key: string }>('GET', '/auth/trip-key');
+    await EncryptionService.storeUserKey(response.trip_key);
+  }
+  
+  // Trip sync methods. Trips leave the device encrypted and signed with the
+  // trip key; the server holds the same key so it can analyse them.
   async syncTrips(trips: Trip[]): Promise<TripSyncResponse> {
     const encryptedTrips = [];
+    if (trips.length > 0) {
+      await this.ensureTripKey();
+    }
     
     for (const trip of trips) {
-      const encrypted = await EncryptionService.encryptTripForSync(trip);
+      // Callers leave private trips out; this is the last line of defence
+      if (trip.is_private) {
+        throw new PrivateTripError(trip.trip_id);
+      }
+      
+      // Legs travel with the trip; raw points stay on the device, and sync
+      // bookkeeping goes in the envelope
+      const { synced, field_versions, synced_versions, ...payload } = trip;
+      const legs = (trip.legs || []).map(({ points, ...leg }) => leg);
+      const encrypted = await EncryptionService.encryptTripForSync({ ...payload, legs });
+      const versions = { field_versions: trip.field_versions ?? {}, base_versions: trip.synced_versions ?? {} };
       encryptedTrips.push({
         trip_id: trip.trip_id,
         encrypted_data: encrypted.encrypted_data,
-        signature: encrypted.signature
+        signature: encrypted.signature,
+        leg_count: legs.length,
+        // The server refuses the upload if it has changes this device has not pulled
+        ...versions,
+        // Covers the versions too: after a pull the same content is a new upload
+        upload_id: await EncryptionService.generateUploadId({ ...payload, legs, ...versions })
       });
     }
     
@@ -90,7 +123,16 @@ export class ApiService {
       sync_timestamp: new Date().toISOString()
     };
     
-    return await this.makeRequest<TripSyncResponse>('POST', '/trips/bulk', syncRequest);
+    // Resending unchanged trips after a lost response repeats the key, so the
+    // server replays its answer instead of storing them again
+    const batchId = EncryptionService.generateBatchId(encryptedTrips.map(trip => trip.upload_id));
+    const response = await this.makeRequest<TripSyncResponse>('POST', '/trips/bulk', syncRequest, { 'Idempotency-Key': batchId });
+    
+    // The server no longer derives the stored key; the retry fetches it again
+    if (response.failed_trips.some(failed => failed.code === API_ERROR_CODES.INVALID_SIGNATURE)) {
+      await EncryptionService.deleteUserKey();
+    }
+    return response;
   }
   
   async getUserTrips(limit: number = 100, offset: number = 0): Promise<Trip[]> {
@@ -99,21 +141,52 @@ export class ApiService {
       `/trips?limit=${limit}&offset=${offset}`
     );
     
-    // Decrypt trips
-    const decryptedTrips = [];
-    for (const encryptedTrip of response.trips) {
+    const { trips } = await this.openTripEnvelopes(response.trips);
+    return trips;
+  }
+  
+  // Trips changed on the server after the cursor, in change order
+  async getTripChanges(cursor: TripChangeCursor | null, limit: number = APP_CONFIG.SYNC_PULL_PAGE_SIZE): Promise<TripChangesResponse> {
+    const position = cursor
+      ? `&since=${encodeURIComponent(cursor.since)}&after=${encodeURIComponent(cursor.after)}`
+      : '';
+    const response = await this.makeRequest<{ trips: any[]; cursor: TripChangeCursor | null; has_more: boolean; server_timestamp: string }>(
+      'GET',
+      `/trips/changes?limit=${limit}${position}`
+    );
+    
+    const { trips, rejected } = await this.openTripEnvelopes(response.trips);
+    return {
+      trips,
+      rejected,
+      cursor: response.cursor,
+      has_more: response.has_more,
+      server_timestamp: response.server_timestamp
+    };
+  }
+  
+  // Verifies and decrypts downloaded trips. Trips that fail are left out and
+  // reported, with signature mismatches told apart from unreadable payloads.
+  private async openTripEnvelopes(envelopes: any[]): Promise<{ trips: Trip[]; rejected: RejectedTripDownload[] }> {
+    // Without the key every trip would look unreadable
+    if (envelopes.length > 0) {
+      await this.ensureTripKey();
+    }
+    
+    const trips: Trip[] = [];
+    const rejected: RejectedTripDownload[] = [];
+    for (const envelope of envelopes) {
       try {
-        const trip = await EncryptionService.decryptTripFromSync(
-          encryptedTrip.encrypted_data,
-          encryptedTrip.signature
-        );
-        decryptedTrips.push(trip);
+        const trip = await EncryptionService.decryptTripFromSync(envelope.encrypted_data, envelope.signature);
+        trips.push({ ...trip, field_versions: envelope.field_versions ?? {} });
       } catch (error) {
-        console.error('Failed to decrypt trip:', error);
+        const reason = error instanceof TripIntegrityError ? 'signature_mismatch' : 'unreadable';
+        console.error(`Rejected downloaded trip ${envelope.trip_id} (${reason}):`, error);
+        rejected.push({ trip_id: envelope.trip_id, reason });
       }
     }
     
-    return decryptedTrips;
+    return { trips, rejected };
   }
   
   async correctTrip(correction: TripCorrectionRequest): Promise<void> {
@@ -168,6 +241,11 @@ export class ApiService {
     await this.makeRequest('POST', '/user/consent', consent);
   }
   
+  // Rewards methods
+  async redeemPoints(points: number, description: string): Promise<void> {
+    await this.makeRequest('POST', '/rewards/redeem', { points, description });
+  }
+  
   // Health check
   async healthCheck(): Promise<{ status: string; timestamp: string }> {
     return await this.makeRequest<{ status: string; timestamp: string }>('GET', '/health');
@@ -177,11 +255,13 @@ export class ApiService {
   private async makeRequest<T = any>(
     method: string, 
     endpoint: string, 
-    data?: any
+    data?: any,
+    extraHeaders: Record<string, string> = {}
   ): Promise<T> {
     const url = `${this.baseUrl}${endpoint}`;
     const headers: Record<string, string> = {
       'Content-Type': 'application/json',
+      ...extraHeaders,
     };
     
     if (this.accessToken) {
@@ -305,12 +385,6 @@ export class ApiService {
   getAccessToken(): string | null {
     return this.accessToken;
   }
-  
-  // Offline queue management
-  async processOfflineQueue(): Promise<void> {
-    // This would be called when coming back online
-    // Implementation depends on your offline queue structure
-  }
 }
 
 // Custom error class
@@ -326,6 +400,17 @@ export class ApiError extends Error {
   }
 }
 
+// A private trip reached the upload path. Private trips never leave the device.
+export class PrivateTripError extends Error {
+  public tripId: string;
+  
+  constructor(tripId: string) {
+    super(`Trip ${tripId} is private and cannot be uploaded`);
+    this.name = 'PrivateTripError';
+    this.tripId = tripId;
+  }
+}
+
 // Singleton instance
 export const apiService = new ApiService();
 
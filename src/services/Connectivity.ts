@@ -0,0 +1,45 @@
+import { SyncNetworkPolicy } from '../types';
+import { SourceSubscription } from './DetectionSources';
+
+// Network state as sync sees it.
+// Sync only talks to these interfaces, so the platform's network state can be
+// swapped for a scripted one and the sync policies exercised without a phone.
+
+export type NetworkType = 'wifi' | 'cellular' | 'ethernet' | 'other' | 'none';
+
+export interface NetworkState {
+  connected: boolean; // false when the platform knows the internet is out of reach
+  type: NetworkType;
+  metered: boolean; // data may cost the user money
+  roaming: boolean | null; // null when the platform does not report it
+}
+
+export interface ConnectivitySource {
+  current(): Promise<NetworkState>;
+  // Called with every change of network state
+  addListener(listener: (state: NetworkState) => void): SourceSubscription;
+}
+
+// Why sync is not using the current network
+export type SyncBlockReason = 'offline' | 'not_wifi' | 'metered' | 'roaming';
+
+export const OFFLINE: NetworkState = { connected: false, type: 'none', metered: false, roaming: null };
+
+// Returns null when the policy lets sync use the network
+export const syncBlockReason = (policy: SyncNetworkPolicy, network: NetworkState): SyncBlockReason | null => {
+  if (!network.connected) return 'offline';
+  
+  switch (policy) {
+    case 'wifi':
+      // A wired connection is at least as good
+      return network.type === 'wifi' || network.type === 'ethernet' ? null : 'not_wifi';
+    case 'unmetered':
+      return network.metered ? 'metered' : null;
+    case 'no_roaming':
+      // Only cellular networks roam; when the platform cannot tell, assume
+      // the worst rather than run up roaming charges
+      return network.type === 'cellular' && network.roaming !== false ? 'roaming' : null;
+    default:
+      return null;
+  }
+};
@@ -0,0 +1,101 @@
+import * as SQLite from 'expo-sqlite';
+import { File } from 'expo-file-system';
+import { EncryptionService } from '../utils/encryption';
+import { getSchemaVersion } from './Migrations';
+
+// The local database is encrypted as a whole with SQLCipher (expo-sqlite is
+// built with useSQLCipher, see app.json), so the full-text index and the
+// coordinate indices are protected along with the tables they cover.
+// Installs from before encryption keep a plaintext file under the old name;
+// it is copied into the encrypted file on first start and then deleted.
+
+export const DATABASE_NAME = 'travel_diary_encrypted.db';
+const PLAINTEXT_DATABASE_NAME = 'smart_travel_diary.db';
+
+export type DatabaseKeyProblem = 'key_missing' | 'key_rejected';
+
+// The encrypted database exists but cannot be opened. Its contents are
+// unrecoverable without the key; see DatabaseService.resetEncryptedDatabase.
+export class DatabaseKeyError extends Error {
+  public code: DatabaseKeyProblem;
+  
+  constructor(code: DatabaseKeyProblem, message: string) {
+    super(message);
+    this.name = 'DatabaseKeyError';
+    this.code = code;
+  }
+}
+
+const databaseExists = (name: string): boolean =>
+  new File(`file://${SQLite.defaultDatabaseDirectory}/${name}`).exists;
+
+// A raw key skips SQLCipher's passphrase derivation
+const keyLiteral = (key: string): string => `"x'${key}'"`;
+
+// Copies a plaintext install into the encrypted file. The plaintext file is
+// deleted only after the copy completes, so an interrupted run starts over.
+const encryptPlaintextDatabase = async (key: string): Promise<void> => {
+  if (databaseExists(DATABASE_NAME)) {
+    await SQLite.deleteDatabaseAsync(DATABASE_NAME);
+  }
+  
+  const plaintext = await SQLite.openDatabaseAsync(PLAINTEXT_DATABASE_NAME);
+  try {
+    const target = plaintext.databasePath.replace(/[^/]+$/, DATABASE_NAME);
+    // sqlcipher_export copies schema and rows but not user_version
+    const version = await getSchemaVersion(plaintext);
+    await plaintext.execAsync(`
+      ATTACH DATABASE '${target.replace(/'/g, "''")}' AS encrypted KEY ${keyLiteral(key)};
+      SELECT sqlcipher_export('encrypted');
+      PRAGMA encrypted.user_version = ${version};
+      DETACH DATABASE encrypted;
+    `);
+  } finally {
+    await plaintext.closeAsync();
+  }
+  
+  await SQLite.deleteDatabaseAsync(PLAINTEXT_DATABASE_NAME);
+  console.log('Encrypted the local database');
+};
+
+export const openEncryptedDatabase = async (): Promise<SQLite.SQLiteDatabase> => {
+  let key = await EncryptionService.getDatabaseKey();
+  
+  if (databaseExists(PLAINTEXT_DATABASE_NAME)) {
+    key = key ?? await EncryptionService.createDatabaseKey();
+    await encryptPlaintextDatabase(key);
+  } else if (!databaseExists(DATABASE_NAME)) {
+    key = key ?? await EncryptionService.createDatabaseKey();
+  } else if (!key) {
+    throw new DatabaseKeyError('key_missing', 'The key for the local database is missing from secure storage');
+  }
+  
+  const db = await SQLite.openDatabaseAsync(DATABASE_NAME);
+  try {
+    const cipher = await db.getFirstAsync('PRAGMA cipher_version');
+    if (!cipher) {
+      throw new Error('This build of expo-sqlite does not include SQLCipher');
+    }
+    
+    await db.execAsync(`PRAGMA key = ${keyLiteral(key)}`);
+    // SQLCipher only checks the key when the first page is read
+    try {
+      await db.getFirstAsync('SELECT count(*) FROM sqlite_master');
+    } catch (error) {
+      throw new DatabaseKeyError('key_rejected', 'The local database could not be decrypted with the stored key');
+    }
+  } catch (error) {
+    await db.closeAsync();
+    throw error;
+  }
+  
+  return db;
+};
+
+// Drops an encrypted database that can no longer be read, and its key
+export const discardEncryptedDatabase = async (): Promise<void> => {
+  if (databaseExists(DATABASE_NAME)) {
+    await SQLite.deleteDatabaseAsync(DATABASE_NAME);
+  }
+  await EncryptionService.deleteDatabaseKey();
+};
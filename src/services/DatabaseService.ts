@@ -1,202 +1,155 @@
 import * as SQLite from 'expo-sqlite';
-import { Trip, TripChain, UserPreferences, ConsentRecord, RewardPoints, RewardTransaction } from '../types';
+import { Trip, TripChain, TripLeg, LocationPoint, RecordedFix, ModeExample, ModeAccuracy, Place, TripEndpoints, TripNumberEntry, TripExportFilter, TripQuery, TripPage, TripSearchQuery, TripSearchResults, TripConflict, TripVersionNumbers, SyncQueueItem, SyncTableName, SyncOperationType, PurposeHistoryEntry, UserPreferences, UserProfile, ConsentRecord, RewardPoints, RewardTransaction } from '../types';
 import { EncryptionService } from '../utils/encryption';
+import { runMigrations, getSchemaVersion, SCHEMA_VERSION, EFFECTIVE_MODE } from './Migrations';
+import { openEncryptedDatabase, discardEncryptedDatabase } from './DatabaseEncryption';
+import { APP_CONFIG } from '../constants/Config';
+import { stampFieldVersions, hasUnsyncedFields } from './TripVersioning';
 
 export class DatabaseService {
   private db: SQLite.SQLiteDatabase | null = null;
   private isInitialized = false;
+  private initialization: Promise<void> | null = null;
+  private writes: Promise<void> = Promise.resolve();
   
   async initialize(): Promise<void> {
     if (this.isInitialized) return;
     
-    this.db = await SQLite.openDatabaseAsync('smart_travel_diary.db');
-    await this.createTables();
-    this.isInitialized = true;
-  }
-  
-  private async createTables(): Promise<void> {
-    if (!this.db) throw new Error('Database not initialized');
-    
-    // Create trips table
-    await this.db.execAsync(`
-      CREATE TABLE IF NOT EXISTS trips (
-        trip_id TEXT PRIMARY KEY,
-        user_id TEXT NOT NULL,
-        trip_number INTEGER NOT NULL,
-        chain_id TEXT NOT NULL,
-        origin_lat REAL NOT NULL,
-        origin_lon REAL NOT NULL,
-        origin_place_name TEXT NOT NULL,
-        destination_lat REAL NOT NULL,
-        destination_lon REAL NOT NULL,
-        destination_place_name TEXT NOT NULL,
-        start_time TEXT NOT NULL,
-        end_time TEXT NOT NULL,
-        duration_seconds INTEGER NOT NULL,
-        distance_meters REAL NOT NULL,
-        travel_mode_detected TEXT NOT NULL,
-        travel_mode_confirmed TEXT,
-        travel_mode_confidence REAL NOT NULL,
-        trip_purpose TEXT NOT NULL,
-        num_accompanying INTEGER NOT NULL,
-        accompanying_basic TEXT,
-        notes TEXT,
-        sensor_summary TEXT NOT NULL,
-        recorded_offline INTEGER NOT NULL DEFAULT 1,
-        synced INTEGER NOT NULL DEFAULT 0,
-        is_private INTEGER NOT NULL DEFAULT 0,
-        plausibility_score REAL,
-        created_at TEXT NOT NULL,
-        updated_at TEXT NOT NULL
-      );
-    `);
-    
-    // Create trip chains table
-    await this.db.execAsync(`
-      CREATE TABLE IF NOT EXISTS trip_chains (
-        chain_id TEXT PRIMARY KEY,
-        user_id TEXT NOT NULL,
-        start_time TEXT NOT NULL,
-        end_time TEXT NOT NULL,
-        total_distance REAL NOT NULL,
-        total_duration INTEGER NOT NULL,
-        created_at TEXT NOT NULL,
-        updated_at TEXT NOT NULL
-      );
-    `);
-    
-    // Create user preferences table
-    await this.db.execAsync(`
-      CREATE TABLE IF NOT EXISTS user_preferences (
-        user_id TEXT PRIMARY KEY,
-        background_tracking_enabled INTEGER NOT NULL DEFAULT 1,
-        sync_frequency_minutes INTEGER NOT NULL DEFAULT 30,
-        battery_optimization INTEGER NOT NULL DEFAULT 1,
-        privacy_mode INTEGER NOT NULL DEFAULT 0,
-        reward_notifications INTEGER NOT NULL DEFAULT 1,
-        created_at TEXT NOT NULL,
-        updated_at TEXT NOT NULL
-      );
-    `);
-    
-    // Create consent records table
-    await this.db.execAsync(`
-      CREATE TABLE IF NOT EXISTS consent_records (
-        user_id TEXT NOT NULL,
-        consent_version TEXT NOT NULL,
-        background_tracking_consent INTEGER NOT NULL,
-        data_sharing_consent INTEGER NOT NULL,
-        analytics_consent INTEGER NOT NULL,
-        consent_timestamp TEXT NOT NULL,
-        ip_address TEXT,
-        user_agent TEXT,
-        PRIMARY KEY (user_id, consent_version)
-      );
-    `);
-    
-    // Create reward points table
-    await this.db.execAsync(`
-      CREATE TABLE IF NOT EXISTS reward_points (
-        user_id TEXT PRIMARY KEY,
-        total_points INTEGER NOT NULL DEFAULT 0,
-        available_points INTEGER NOT NULL DEFAULT 0,
-        redeemed_points INTEGER NOT NULL DEFAULT 0,
-        last_earned TEXT,
-        created_at TEXT NOT NULL,
-        updated_at TEXT NOT NULL
-      );
-    `);
+    // Startup and background task restoration may both ask for the database
+    if (!this.initialization) {
+      this.initialization = (async () => {
+        this.db = await openEncryptedDatabase();
+        // Lets INSERT OR REPLACE fire delete triggers, which keep trips_fts in step
+        await this.db.execAsync('PRAGMA recursive_triggers = ON');
+        await this.migrate();
+        this.isInitialized = true;
+      })().finally(() => {
+        this.initialization = null;
+      });
+    }
+    return this.initialization;
+  }
+  
+  // Last resort after a DatabaseKeyError: without its key the encrypted file
+  // is unreadable, so start over with an empty database and a new key
+  async resetEncryptedDatabase(): Promise<void> {
+    if (this.db) {
+      await this.db.closeAsync();
+      this.db = null;
+    }
+    this.isInitialized = false;
     
-    // Create reward transactions table
-    await this.db.execAsync(`
-      CREATE TABLE IF NOT EXISTS reward_transactions (
-        transaction_id TEXT PRIMARY KEY,
-        user_id TEXT NOT NULL,
-        trip_id TEXT,
-        points_earned INTEGER NOT NULL DEFAULT 0,
-        points_redeemed INTEGER NOT NULL DEFAULT 0,
-        transaction_type TEXT NOT NULL,
-        description TEXT NOT NULL,
-        created_at TEXT NOT NULL
-      );
-    `);
+    await discardEncryptedDatabase();
+    await this.initialize();
+  }
+  
+  // Brings the schema up to the latest migration; see Migrations.ts
+  private async migrate(): Promise<void> {
+    if (!this.db) throw new Error('Database not initialized');
     
-    // Create sync queue table for offline operations
-    await this.db.execAsync(`
-      CREATE TABLE IF NOT EXISTS sync_queue (
-        id INTEGER PRIMARY KEY AUTOINCREMENT,
-        operation_type TEXT NOT NULL,
-        table_name TEXT NOT NULL,
-        record_id TEXT NOT NULL,
-        data TEXT NOT NULL,
-        created_at TEXT NOT NULL,
-        retry_count INTEGER NOT NULL DEFAULT 0,
-        last_retry TEXT
-      );
-    `);
+    const from = await getSchemaVersion(this.db);
+    await runMigrations(this.db, SCHEMA_VERSION);
+    if (from !== SCHEMA_VERSION) {
+      console.log(`Database migrated from schema v${from} to v${SCHEMA_VERSION}`);
+    }
+  }
+  
+  // expo-sqlite transactions are a plain BEGIN/COMMIT on the one connection
+  // and cannot overlap, so write transactions take turns here
+  private async writeTransaction(work: () => Promise<void>): Promise<void> {
+    if (!this.db) throw new Error('Database not initialized');
     
-    // Create indexes for better performance
-    await this.db.execAsync(`
-      CREATE INDEX IF NOT EXISTS idx_trips_user_id ON trips(user_id);
-      CREATE INDEX IF NOT EXISTS idx_trips_chain_id ON trips(chain_id);
-      CREATE INDEX IF NOT EXISTS idx_trips_start_time ON trips(start_time);
-      CREATE INDEX IF NOT EXISTS idx_trips_synced ON trips(synced);
-      CREATE INDEX IF NOT EXISTS idx_sync_queue_operation ON sync_queue(operation_type);
-    `);
+    const db = this.db;
+    const transaction = this.writes.then(() => db.withTransactionAsync(work));
+    this.writes = transaction.catch(() => {});
+    return transaction;
   }
   
   // Trip operations
-  async saveTrip(trip: Trip): Promise<void> {
+  // Local saves bump the versions of the fields they change; trips merged
+  // from the server arrive already versioned (fromSync)
+  async saveTrip(trip: Trip, options: { fromSync?: boolean } = {}): Promise<void> {
     if (!this.db) throw new Error('Database not initialized');
     
+    const db = this.db;
     const query = `
       INSERT OR REPLACE INTO trips (
         trip_id, user_id, trip_number, chain_id,
-        origin_lat, origin_lon, origin_place_name,
-        destination_lat, destination_lon, destination_place_name,
+        origin_lat, origin_lon, origin_place_name, origin_place_id,
+        destination_lat, destination_lon, destination_place_name, destination_place_id,
         start_time, end_time, duration_seconds, distance_meters,
         travel_mode_detected, travel_mode_confirmed, travel_mode_confidence,
-        trip_purpose, num_accompanying, accompanying_basic, notes,
-        sensor_summary, recorded_offline, synced, is_private,
-        plausibility_score, created_at, updated_at
-      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+        travel_mode_probabilities,
+        trip_purpose, purpose_confidence, purpose_confirmed,
+        num_accompanying, accompanying_basic, notes,
+        sensor_summary, recorded_offline, import_source, synced, is_private,
+        plausibility_score, field_versions, synced_versions, created_at, updated_at
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
     `;
     
-    await this.db.runAsync(query, [
-      trip.trip_id,
-      trip.user_id,
-      trip.trip_number,
-      trip.chain_id,
-      trip.origin.lat,
-      trip.origin.lon,
-      trip.origin.place_name,
-      trip.destination.lat,
-      trip.destination.lon,
-      trip.destination.place_name,
-      trip.start_time,
-      trip.end_time,
-      trip.duration_seconds,
-      trip.distance_meters,
-      trip.travel_mode.detected,
-      trip.travel_mode.user_confirmed,
-      trip.travel_mode.confidence,
-      trip.trip_purpose,
-      trip.num_accompanying,
-      JSON.stringify(trip.accompanying_basic),
-      trip.notes || null,
-      JSON.stringify(trip.sensor_summary),
-      trip.recorded_offline ? 1 : 0,
-      trip.synced ? 1 : 0,
-      trip.is_private ? 1 : 0,
-      trip.plausibility_score || null,
-      trip.created_at,
-      trip.updated_at
-    ]);
-    
-    // Add to sync queue if not synced
-    if (!trip.synced) {
-      await this.addToSyncQueue('INSERT', 'trips', trip.trip_id, trip);
-    }
+    // The trip, its legs and its queue entry are stored together or not at all
+    await this.writeTransaction(async () => {
+      if (!options.fromSync) {
+        trip = stampFieldVersions(await this.getTrip(trip.trip_id), trip, new Date().toISOString());
+        if (hasUnsyncedFields(trip)) {
+          trip = { ...trip, synced: false };
+        }
+      }
+      
+      await db.runAsync(query, [
+        trip.trip_id,
+        trip.user_id,
+        trip.trip_number,
+        trip.chain_id,
+        trip.origin.lat,
+        trip.origin.lon,
+        trip.origin.place_name,
+        trip.origin.place_id || null,
+        trip.destination.lat,
+        trip.destination.lon,
+        trip.destination.place_name,
+        trip.destination.place_id || null,
+        trip.start_time,
+        trip.end_time,
+        trip.duration_seconds,
+        trip.distance_meters,
+        trip.travel_mode.detected,
+        trip.travel_mode.user_confirmed,
+        trip.travel_mode.confidence,
+        trip.travel_mode.probabilities ? JSON.stringify(trip.travel_mode.probabilities) : null,
+        trip.trip_purpose,
+        trip.purpose_confidence ?? null,
+        trip.purpose_confirmed ? 1 : 0,
+        trip.num_accompanying,
+        JSON.stringify(trip.accompanying_basic),
+        trip.notes || null,
+        JSON.stringify(trip.sensor_summary),
+        trip.recorded_offline ? 1 : 0,
+        trip.import_source ?? null,
+        trip.synced ? 1 : 0,
+        trip.is_private ? 1 : 0,
+        trip.plausibility_score || null,
+        JSON.stringify(trip.field_versions ?? {}),
+        JSON.stringify(trip.synced_versions ?? {}),
+        trip.created_at,
+        trip.updated_at
+      ]);
+      
+      if (trip.legs) {
+        await this.saveTripLegs(trip.trip_id, trip.legs);
+      }
+      
+      if (trip.travel_mode.user_confirmed) {
+        await this.labelModeExample(trip.trip_id, trip.travel_mode.user_confirmed);
+      }
+      
+      // Add to sync queue if not synced; private trips never leave the device
+      if (trip.is_private) {
+        await this.removeFromSyncQueue('trips', trip.trip_id);
+      } else if (!trip.synced) {
+        await this.addToSyncQueue('INSERT', 'trips', trip.trip_id, trip);
+      }
+    });
   }
   
   async getTrip(tripId: string): Promise<Trip | null> {
@@ -208,7 +161,9 @@ export class DatabaseService {
     
     if (!result) return null;
     
-    return this.mapRowToTrip(result as any);
+    const trip = this.mapRowToTrip(result as any);
+    trip.legs = await this.getTripLegs(tripId);
+    return trip;
   }
   
   async getTrips(userId: string, limit: number = 100, offset: number = 0): Promise<Trip[]> {
@@ -224,27 +179,673 @@ export class DatabaseService {
     return results.map(row => this.mapRowToTrip(row as any));
   }
   
-  async getUnsyncedTrips(userId: string): Promise<Trip[]> {
+  // Endpoints of the user's trips, oldest first, for place clustering
+  async getTripEndpoints(userId: string): Promise<TripEndpoints[]> {
     if (!this.db) throw new Error('Database not initialized');
     
     const results = await this.db.getAllAsync(`
-      SELECT * FROM trips 
-      WHERE user_id = ? AND synced = 0 AND is_private = 0
-      ORDER BY created_at ASC
+      SELECT
+        trip_id, trip_purpose, start_time, end_time,
+        origin_lat, origin_lon, origin_place_name, origin_place_id,
+        destination_lat, destination_lon, destination_place_name, destination_place_id
+      FROM trips
+      WHERE user_id = ?
+      ORDER BY start_time ASC
     `, [userId]);
     
-    return results.map(row => this.mapRowToTrip(row as any));
+    return results.map((row: any) => ({
+      trip_id: row.trip_id,
+      trip_purpose: row.trip_purpose,
+      start_time: row.start_time,
+      end_time: row.end_time,
+      origin: {
+        lat: row.origin_lat,
+        lon: row.origin_lon,
+        place_name: row.origin_place_name,
+        place_id: row.origin_place_id ?? undefined
+      },
+      destination: {
+        lat: row.destination_lat,
+        lon: row.destination_lon,
+        place_name: row.destination_place_name,
+        place_id: row.destination_place_id ?? undefined
+      }
+    }));
+  }
+  
+  // Filtered trips in departure order, one page at a time. Pass the returned
+  // cursor as `after` to fetch the next page.
+  async queryTrips(query: TripQuery): Promise<TripPage> {
+    if (!this.db) throw new Error('Database not initialized');
+    
+    const { conditions, params } = this.tripFilter(query);
+    
+    const newestFirst = query.order !== 'oldest';
+    if (query.after) {
+      conditions.push(`(start_time, trip_id) ${newestFirst ? '<' : '>'} (?, ?)`);
+      params.push(query.after.start_time, query.after.trip_id);
+    }
+    
+    // One extra row tells whether another page follows
+    const limit = query.limit !== undefined ? `LIMIT ${Math.max(0, Math.floor(query.limit)) + 1}` : '';
+    const direction = newestFirst ? 'DESC' : 'ASC';
+    const results = await this.db.getAllAsync(`
+      SELECT * FROM trips
+      WHERE ${conditions.join(' AND ')}
+      ORDER BY start_time ${direction}, trip_id ${direction}
+      ${limit}
+    `, params);
+    
+    const trips = results.map(row => this.mapRowToTrip(row as any));
+    if (query.limit === undefined || trips.length <= query.limit) {
+      return { trips, next: null };
+    }
+    
+    trips.pop();
+    const last = trips[trips.length - 1];
+    return { trips, next: last ? { start_time: last.start_time, trip_id: last.trip_id } : null };
+  }
+  
+  // Trips whose notes or place names contain every word of the search text,
+  // best matches first, with facet counts over all matches
+  async searchTrips(query: TripSearchQuery): Promise<TripSearchResults> {
+    if (!this.db) throw new Error('Database not initialized');
+    
+    const empty: TripSearchResults = { hits: [], total: 0, facets: { modes: {}, months: {} } };
+    const match = this.toFtsMatch(query.text);
+    if (!match) return empty;
+    
+    const from = 'FROM trips_fts JOIN trips ON trips.rowid = trips_fts.rowid AND trips.trip_id = trips_fts.trip_id';
+    const where = (filter: Omit<TripQuery, 'user_id'>) => {
+      const { conditions, params } = this.tripFilter({ user_id: query.user_id, ...filter });
+      return { sql: `WHERE trips_fts MATCH ? AND ${conditions.join(' AND ')}`, params: [match, ...params] };
+    };
+    const all = where({ from: query.from, to: query.to, modes: query.modes });
+    const anyMode = where({ from: query.from, to: query.to });
+    const anyDate = where({ modes: query.modes });
+    
+    const { HIGHLIGHT_START, HIGHLIGHT_END, RESULT_LIMIT } = APP_CONFIG.SEARCH;
+    const limit = Math.max(0, Math.floor(query.limit ?? RESULT_LIMIT));
+    const rows = await this.db.getAllAsync(`
+      SELECT trips.*,
+        highlight(trips_fts, 1, ?, ?) AS notes_highlight,
+        highlight(trips_fts, 2, ?, ?) AS origin_highlight,
+        highlight(trips_fts, 3, ?, ?) AS destination_highlight
+      ${from}
+      ${all.sql}
+      ORDER BY bm25(trips_fts), trips.start_time DESC
+      LIMIT ${limit}
+    `, [HIGHLIGHT_START, HIGHLIGHT_END, HIGHLIGHT_START, HIGHLIGHT_END, HIGHLIGHT_START, HIGHLIGHT_END, ...all.params]);
+    
+    const total = await this.db.getFirstAsync(`SELECT COUNT(*) AS count ${from} ${all.sql}`, all.params) as any;
+    const modeCounts = await this.db.getAllAsync(`
+      SELECT ${EFFECTIVE_MODE} AS facet, COUNT(*) AS count ${from} ${anyMode.sql} GROUP BY facet
+    `, anyMode.params);
+    const monthCounts = await this.db.getAllAsync(`
+      SELECT substr(start_time, 1, 7) AS facet, COUNT(*) AS count ${from} ${anyDate.sql} GROUP BY facet
+    `, anyDate.params);
+    
+    const toCounts = (facetRows: any[]): Record<string, number> =>
+      Object.fromEntries(facetRows.map(row => [row.facet, row.count]));
+    
+    return {
+      hits: rows.map((row: any) => ({
+        trip: this.mapRowToTrip(row),
+        highlights: {
+          notes: row.notes_highlight ?? '',
+          origin: row.origin_highlight ?? '',
+          destination: row.destination_highlight ?? ''
+        }
+      })),
+      total: total?.count ?? 0,
+      facets: { modes: toCounts(modeCounts), months: toCounts(monthCounts) }
+    };
+  }
+  
+  // Each word becomes a quoted prefix term so FTS5 syntax in the text is inert
+  private toFtsMatch(text: string): string {
+    return text
+      .split(/\s+/)
+      .map(word => word.replace(/"/g, ''))
+      .filter(word => /[\p{L}\p{N}]/u.test(word))
+      .map(word => `"${word}"*`)
+      .join(' ');
+  }
+  
+  // WHERE conditions shared by trip listing and search
+  private tripFilter(query: Omit<TripQuery, 'order' | 'limit' | 'after'>): { conditions: string[]; params: (string | number)[] } {
+    const conditions = ['user_id = ?'];
+    const params: (string | number)[] = [query.user_id];
+    
+    if (query.from) {
+      conditions.push('start_time >= ?');
+      params.push(query.from);
+    }
+    if (query.to) {
+      conditions.push('start_time < ?');
+      params.push(query.to);
+    }
+    if (query.modes && query.modes.length > 0) {
+      conditions.push(`${EFFECTIVE_MODE} IN (${query.modes.map(() => '?').join(', ')})`);
+      params.push(...query.modes);
+    }
+    if (query.purposes && query.purposes.length > 0) {
+      conditions.push(`trip_purpose IN (${query.purposes.map(() => '?').join(', ')})`);
+      params.push(...query.purposes);
+    }
+    if (query.synced !== undefined) {
+      conditions.push('synced = ?');
+      params.push(query.synced ? 1 : 0);
+    }
+    if (query.is_private !== undefined) {
+      conditions.push('is_private = ?');
+      params.push(query.is_private ? 1 : 0);
+    }
+    if (query.chain_id) {
+      conditions.push('chain_id = ?');
+      params.push(query.chain_id);
+    }
+    if (query.bounds) {
+      const { south, west, north, east } = query.bounds;
+      // A box crossing the antimeridian has west > east
+      const lonJoin = west <= east ? 'AND' : 'OR';
+      conditions.push(`(
+        (origin_lat BETWEEN ? AND ? AND (origin_lon >= ? ${lonJoin} origin_lon <= ?)) OR
+        (destination_lat BETWEEN ? AND ? AND (destination_lon >= ? ${lonJoin} destination_lon <= ?))
+      )`);
+      params.push(south, north, west, east, south, north, west, east);
+    }
+    
+    return { conditions, params };
+  }
+  
+  // The user's latest trip that started before the given time
+  async getPreviousTrip(userId: string, startTime: string): Promise<Trip | null> {
+    if (!this.db) throw new Error('Database not initialized');
+    
+    const result = await this.db.getFirstAsync(`
+      SELECT * FROM trips
+      WHERE user_id = ? AND start_time < ?
+      ORDER BY start_time DESC
+      LIMIT 1
+    `, [userId, startTime]);
+    
+    return result ? this.mapRowToTrip(result as any) : null;
+  }
+  
+  // Start time of the first trip after the given time, i.e. when the user left
+  async getNextTripStartTime(userId: string, endTime: string): Promise<string | null> {
+    if (!this.db) throw new Error('Database not initialized');
+    
+    const result = await this.db.getFirstAsync<{ start_time: string }>(`
+      SELECT start_time FROM trips
+      WHERE user_id = ? AND start_time >= ?
+      ORDER BY start_time ASC
+      LIMIT 1
+    `, [userId, endTime]);
+    
+    return result ? result.start_time : null;
+  }
+  
+  async getConfirmedPurposes(userId: string, limit: number): Promise<PurposeHistoryEntry[]> {
+    if (!this.db) throw new Error('Database not initialized');
+    
+    const results = await this.db.getAllAsync(`
+      SELECT destination_place_id, trip_purpose, end_time FROM trips
+      WHERE user_id = ? AND purpose_confirmed = 1
+      ORDER BY end_time DESC
+      LIMIT ?
+    `, [userId, limit]);
+    
+    return results.map((row: any) => ({
+      destination_place_id: row.destination_place_id,
+      purpose: row.trip_purpose,
+      arrival: new Date(row.end_time).getTime()
+    }));
+  }
+  
+  // The user's trips departing within [from, to), for per-day numbering
+  async getTripNumberEntries(userId: string, from: string, to: string): Promise<TripNumberEntry[]> {
+    if (!this.db) throw new Error('Database not initialized');
+    
+    return this.db.getAllAsync<TripNumberEntry>(`
+      SELECT trip_id, start_time, trip_number FROM trips
+      WHERE user_id = ? AND start_time >= ? AND start_time < ?
+      ORDER BY start_time ASC
+    `, [userId, from, to]);
+  }
+  
+  // The user's trips whose time span intersects [from, to]
+  async getOverlappingTripIds(userId: string, from: string, to: string): Promise<string[]> {
+    if (!this.db) throw new Error('Database not initialized');
+    
+    const results = await this.db.getAllAsync<{ trip_id: string }>(`
+      SELECT trip_id FROM trips
+      WHERE user_id = ? AND start_time <= ? AND end_time >= ?
+    `, [userId, to, from]);
+    
+    return results.map(row => row.trip_id);
+  }
+  
+  // Renumbered trips are queued so the server gets the new numbers
+  async updateTripNumbers(changes: Array<{ trip_id: string; trip_number: number }>): Promise<void> {
+    if (!this.db) throw new Error('Database not initialized');
+    if (changes.length === 0) return;
+    
+    const db = this.db;
+    const now = new Date().toISOString();
+    await this.writeTransaction(async () => {
+      for (const change of changes) {
+        await db.runAsync(
+          'UPDATE trips SET trip_number = ?, synced = 0, updated_at = ? WHERE trip_id = ?',
+          [change.trip_number, now, change.trip_id]
+        );
+      }
+      await this.queueTripUpdates(changes.map(change => change.trip_id));
+    });
+  }
+  
+  // Queues trips changed in place for upload; private trips stay on the device
+  private async queueTripUpdates(tripIds: string[]): Promise<void> {
+    for (const tripId of tripIds) {
+      const trip = await this.getTrip(tripId);
+      if (!trip || trip.is_private) continue;
+      await this.addToSyncQueue('UPDATE', 'trips', tripId, trip);
+    }
   }
   
-  async markTripAsSynced(tripId: string): Promise<void> {
+  // Trips with their legs, oldest first
+  async getTripsForExport(userId: string, filter: TripExportFilter = {}): Promise<Trip[]> {
     if (!this.db) throw new Error('Database not initialized');
     
+    const { trips } = await this.queryTrips({ user_id: userId, ...filter, order: 'oldest' });
+    for (const trip of trips) {
+      trip.legs = await this.getTripLegs(trip.trip_id);
+    }
+    return trips;
+  }
+  
+  // Records the field versions the server accepted. A trip edited while its
+  // upload was in flight stays unsynced, and queued, for the newer versions.
+  async markTripAsSynced(tripId: string, acknowledged: TripVersionNumbers = {}): Promise<void> {
+    if (!this.db) throw new Error('Database not initialized');
+    
+    const row = await this.db.getFirstAsync<{ field_versions: string | null; synced_versions: string | null }>(`
+      SELECT field_versions, synced_versions FROM trips WHERE trip_id = ?
+    `, [tripId]);
+    if (!row) return;
+    
+    const state = {
+      field_versions: JSON.parse(row.field_versions || '{}'),
+      synced_versions: { ...JSON.parse(row.synced_versions || '{}'), ...acknowledged }
+    };
+    const pending = hasUnsyncedFields(state);
+    
     await this.db.runAsync(`
-      UPDATE trips SET synced = 1, updated_at = ? WHERE trip_id = ?
-    `, [new Date().toISOString(), tripId]);
+      UPDATE trips SET synced = ?, synced_versions = ?, updated_at = ? WHERE trip_id = ?
+    `, [pending ? 0 : 1, JSON.stringify(state.synced_versions), new Date().toISOString(), tripId]);
+    
+    if (!pending) {
+      await this.removeFromSyncQueue('trips', tripId);
+    }
+  }
+  
+  // Trip leg operations. Runs inside saveTrip's transaction; legs are
+  // replaced as a set so edits can merge or split them.
+  private async saveTripLegs(tripId: string, legs: TripLeg[]): Promise<void> {
+    if (!this.db) throw new Error('Database not initialized');
+    
+    const db = this.db;
+    const query = `
+      INSERT INTO trip_legs (
+        leg_id, trip_id, leg_number,
+        travel_mode_detected, travel_mode_confirmed, travel_mode_confidence,
+        travel_mode_probabilities,
+        start_lat, start_lon, end_lat, end_lon,
+        start_time, end_time, duration_seconds, distance_meters
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `;
+    
+    await db.runAsync('DELETE FROM trip_legs WHERE trip_id = ?', [tripId]);
+    for (const leg of legs) {
+      await db.runAsync(query, [
+        leg.leg_id,
+        tripId,
+        leg.leg_number,
+        leg.travel_mode.detected,
+        leg.travel_mode.user_confirmed,
+        leg.travel_mode.confidence,
+        leg.travel_mode.probabilities ? JSON.stringify(leg.travel_mode.probabilities) : null,
+        leg.start.lat,
+        leg.start.lon,
+        leg.end.lat,
+        leg.end.lon,
+        leg.start_time,
+        leg.end_time,
+        leg.duration_seconds,
+        leg.distance_meters
+      ]);
+    }
+    
+    for (const leg of legs) {
+      if (leg.travel_mode.user_confirmed) {
+        await this.labelModeExample(leg.leg_id, leg.travel_mode.user_confirmed);
+      }
+    }
+  }
+  
+  async getTripLegs(tripId: string, includePoints: boolean = false): Promise<TripLeg[]> {
+    if (!this.db) throw new Error('Database not initialized');
+    
+    const results = await this.db.getAllAsync(`
+      SELECT * FROM trip_legs 
+      WHERE trip_id = ? 
+      ORDER BY leg_number ASC
+    `, [tripId]);
+    
+    const legs = results.map(row => this.mapRowToTripLeg(row as any));
+    
+    if (includePoints && legs.length > 0) {
+      const points = await this.getTripPoints(tripId);
+      for (const leg of legs) {
+        const start = new Date(leg.start_time).getTime();
+        const end = new Date(leg.end_time).getTime();
+        leg.points = points.filter(point => point.timestamp >= start && point.timestamp <= end);
+      }
+    }
+    
+    return legs;
+  }
+  
+  // Trip point operations. Fixes are stored as received, rejected ones
+  // included; plain points, e.g. from an imported file, count as kept as is.
+  async saveTripPoints(tripId: string, points: RecordedFix[]): Promise<void> {
+    if (!this.db) throw new Error('Database not initialized');
+    if (points.length === 0) return;
+    
+    const db = this.db;
+    const query = `
+      INSERT INTO trip_points (
+        trip_id, latitude, longitude, timestamp, accuracy, speed, heading,
+        rejection, filtered_latitude, filtered_longitude, filtered_accuracy
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `;
+    
+    await this.writeTransaction(async () => {
+      for (const point of points) {
+        await db.runAsync(query, [
+          tripId,
+          point.latitude,
+          point.longitude,
+          point.timestamp,
+          point.accuracy ?? null,
+          point.speed ?? null,
+          point.heading ?? null,
+          point.rejection ?? null,
+          point.filtered?.latitude ?? null,
+          point.filtered?.longitude ?? null,
+          point.filtered?.accuracy ?? null
+        ]);
+      }
+    });
+  }
+  
+  // The trace as trip detection used it: the smoothed positions of the
+  // fixes the noise filter kept
+  async getTripPoints(tripId: string): Promise<LocationPoint[]> {
+    if (!this.db) throw new Error('Database not initialized');
+    
+    const results = await this.db.getAllAsync(`
+      SELECT * FROM trip_points 
+      WHERE trip_id = ? AND rejection IS NULL
+      ORDER BY timestamp ASC, id ASC
+    `, [tripId]);
+    
+    return results.map(row => this.mapRowToLocationPoint(row as any));
+  }
+  
+  // Fixes the noise filter rejected, up to the given time
+  async countRejectedTripPoints(tripId: string, until: number): Promise<number> {
+    if (!this.db) throw new Error('Database not initialized');
+    
+    const result = await this.db.getFirstAsync<{ count: number }>(`
+      SELECT COUNT(*) AS count FROM trip_points
+      WHERE trip_id = ? AND rejection IS NOT NULL AND timestamp <= ?
+    `, [tripId, until]);
+    
+    return result?.count ?? 0;
+  }
+  
+  async getTripPolyline(tripId: string): Promise<Array<{ lat: number; lon: number }>> {
+    if (!this.db) throw new Error('Database not initialized');
+    
+    const results = await this.db.getAllAsync(`
+      SELECT
+        COALESCE(filtered_latitude, latitude) AS latitude,
+        COALESCE(filtered_longitude, longitude) AS longitude
+      FROM trip_points 
+      WHERE trip_id = ? AND rejection IS NULL
+      ORDER BY timestamp ASC, id ASC
+    `, [tripId]);
+    
+    return results.map(row => {
+      const point = row as any;
+      return { lat: point.latitude, lon: point.longitude };
+    });
+  }
+  
+  async deleteTripPoints(tripId: string): Promise<void> {
+    if (!this.db) throw new Error('Database not initialized');
+    
+    await this.db.runAsync('DELETE FROM trip_points WHERE trip_id = ?', [tripId]);
+  }
+  
+  // Mode example operations
+  async saveModeExamples(examples: ModeExample[]): Promise<void> {
+    if (!this.db) throw new Error('Database not initialized');
+    
+    const db = this.db;
+    const query = `
+      INSERT OR REPLACE INTO mode_examples (
+        example_id, trip_id, user_id, features, detected_mode, confirmed_mode, created_at, updated_at
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+    `;
+    
+    await this.writeTransaction(async () => {
+      for (const example of examples) {
+        await db.runAsync(query, [
+          example.example_id,
+          example.trip_id,
+          example.user_id,
+          JSON.stringify(example.features),
+          example.detected_mode,
+          example.confirmed_mode,
+          example.created_at,
+          example.updated_at
+        ]);
+      }
+    });
+  }
+  
+  async labelModeExample(exampleId: string, confirmedMode: string): Promise<void> {
+    if (!this.db) throw new Error('Database not initialized');
+    
+    await this.db.runAsync(
+      'UPDATE mode_examples SET confirmed_mode = ?, updated_at = ? WHERE example_id = ?',
+      [confirmedMode, new Date().toISOString(), exampleId]
+    );
+  }
+  
+  // The user's corrected examples, which personalise only their own detection
+  async getLabelledModeExamples(userId: string, limit: number): Promise<ModeExample[]> {
+    if (!this.db) throw new Error('Database not initialized');
     
-    // Remove from sync queue
-    await this.removeFromSyncQueue('trips', tripId);
+    const results = await this.db.getAllAsync(`
+      SELECT * FROM mode_examples
+      WHERE user_id = ? AND confirmed_mode IS NOT NULL
+      ORDER BY updated_at DESC
+      LIMIT ?
+    `, [userId, limit]);
+    
+    return results.map(row => this.mapRowToModeExample(row as any));
+  }
+  
+  // Per-mode detection accuracy against the modes the user confirmed
+  async getModeAccuracy(userId: string): Promise<ModeAccuracy[]> {
+    if (!this.db) throw new Error('Database not initialized');
+    
+    const results = await this.db.getAllAsync(`
+      SELECT
+        travel_mode_confirmed AS mode,
+        COUNT(*) AS confirmed_count,
+        SUM(CASE WHEN travel_mode_detected = travel_mode_confirmed THEN 1 ELSE 0 END) AS correct_count
+      FROM trips
+      WHERE user_id = ? AND travel_mode_confirmed IS NOT NULL
+      GROUP BY travel_mode_confirmed
+      ORDER BY confirmed_count DESC
+    `, [userId]);
+    
+    return results.map((row: any) => ({
+      mode: row.mode,
+      confirmed_count: row.confirmed_count,
+      correct_count: row.correct_count,
+      accuracy: row.confirmed_count > 0 ? row.correct_count / row.confirmed_count : 0
+    }));
+  }
+  
+  // Place operations
+  async replacePlaces(userId: string, places: Place[]): Promise<void> {
+    if (!this.db) throw new Error('Database not initialized');
+    
+    const db = this.db;
+    const query = `
+      INSERT INTO places (
+        place_id, user_id, name, place_type, address, lat, lon, radius_meters,
+        visit_count, total_dwell_seconds, first_visit, last_visit,
+        created_at, updated_at
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `;
+    
+    // Places are derived data and are rebuilt as a set, per user
+    await this.writeTransaction(async () => {
+      await db.runAsync('DELETE FROM places WHERE user_id = ?', [userId]);
+      for (const place of places) {
+        await db.runAsync(query, [
+          place.place_id,
+          userId,
+          place.name,
+          place.place_type,
+          place.address,
+          place.lat,
+          place.lon,
+          place.radius_meters,
+          place.visit_count,
+          place.total_dwell_seconds,
+          place.first_visit,
+          place.last_visit,
+          place.created_at,
+          place.updated_at
+        ]);
+      }
+    });
+  }
+  
+  async getPlaces(userId: string): Promise<Place[]> {
+    if (!this.db) throw new Error('Database not initialized');
+    
+    const results = await this.db.getAllAsync(`
+      SELECT * FROM places WHERE user_id = ? ORDER BY visit_count DESC
+    `, [userId]);
+    
+    return results.map(row => this.mapRowToPlace(row as any));
+  }
+  
+  async updatePlaceName(placeId: string, name: string | null): Promise<void> {
+    if (!this.db) throw new Error('Database not initialized');
+    
+    await this.db.runAsync(
+      'UPDATE places SET name = ?, updated_at = ? WHERE place_id = ?',
+      [name, new Date().toISOString(), placeId]
+    );
+  }
+  
+  async setTripPlaces(assignments: Array<{ trip_id: string; origin_place_id: string | null; destination_place_id: string | null }>): Promise<void> {
+    if (!this.db) throw new Error('Database not initialized');
+    
+    const db = this.db;
+    const now = new Date().toISOString();
+    await this.writeTransaction(async () => {
+      // Reclustering reassigns every trip; only those whose places moved are sent again
+      const changed: string[] = [];
+      for (const assignment of assignments) {
+        const result = await db.runAsync(`
+          UPDATE trips SET origin_place_id = ?, destination_place_id = ?, synced = 0, updated_at = ?
+          WHERE trip_id = ? AND (origin_place_id IS NOT ? OR destination_place_id IS NOT ?)
+        `, [
+          assignment.origin_place_id,
+          assignment.destination_place_id,
+          now,
+          assignment.trip_id,
+          assignment.origin_place_id,
+          assignment.destination_place_id
+        ]);
+        if (result.changes > 0) {
+          changed.push(assignment.trip_id);
+        }
+      }
+      await this.queueTripUpdates(changed);
+    });
+  }
+  
+  // Show a place's new name on every trip that starts or ends there
+  async renamePlaceInTrips(placeId: string, placeName: string): Promise<void> {
+    if (!this.db) throw new Error('Database not initialized');
+    
+    const db = this.db;
+    const now = new Date().toISOString();
+    await this.writeTransaction(async () => {
+      const renamed = await db.getAllAsync<{ trip_id: string }>(`
+        SELECT trip_id FROM trips
+        WHERE (origin_place_id = ? AND origin_place_name IS NOT ?)
+           OR (destination_place_id = ? AND destination_place_name IS NOT ?)
+      `, [placeId, placeName, placeId, placeName]);
+      
+      await db.runAsync(
+        'UPDATE trips SET origin_place_name = ?, synced = 0, updated_at = ? WHERE origin_place_id = ? AND origin_place_name IS NOT ?',
+        [placeName, now, placeId, placeName]
+      );
+      await db.runAsync(
+        'UPDATE trips SET destination_place_name = ?, synced = 0, updated_at = ? WHERE destination_place_id = ? AND destination_place_name IS NOT ?',
+        [placeName, now, placeId, placeName]
+      );
+      await this.queueTripUpdates(renamed.map(row => row.trip_id));
+    });
+  }
+  
+  // Geocode cache operations
+  async getCachedPlaceName(cacheKey: string): Promise<string | null> {
+    if (!this.db) throw new Error('Database not initialized');
+    
+    const result = await this.db.getFirstAsync<{ place_name: string }>(
+      'SELECT place_name FROM geocode_cache WHERE cache_key = ?',
+      [cacheKey]
+    );
+    return result ? result.place_name : null;
+  }
+  
+  async cachePlaceName(cacheKey: string, placeName: string, source: string): Promise<void> {
+    if (!this.db) throw new Error('Database not initialized');
+    
+    await this.db.runAsync(
+      'INSERT OR REPLACE INTO geocode_cache (cache_key, place_name, source, created_at) VALUES (?, ?, ?, ?)',
+      [cacheKey, placeName, source, new Date().toISOString()]
+    );
+  }
+  
+  async clearGeocodeCache(source: string): Promise<void> {
+    if (!this.db) throw new Error('Database not initialized');
+    
+    await this.db.runAsync('DELETE FROM geocode_cache WHERE source = ?', [source]);
   }
   
   // Trip chain operations
@@ -290,21 +891,24 @@ export class DatabaseService {
     const query = `
       INSERT OR REPLACE INTO user_preferences (
         user_id, background_tracking_enabled, sync_frequency_minutes,
-        battery_optimization, privacy_mode, reward_notifications,
-        created_at, updated_at
-      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+        sync_network_policy, battery_optimization, privacy_mode,
+        reward_notifications, created_at, updated_at
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
     `;
     
     await this.db.runAsync(query, [
       preferences.user_id,
       preferences.background_tracking_enabled ? 1 : 0,
       preferences.sync_frequency_minutes,
+      preferences.sync_network_policy,
       preferences.battery_optimization ? 1 : 0,
       preferences.privacy_mode ? 1 : 0,
       preferences.reward_notifications ? 1 : 0,
       preferences.created_at,
       preferences.updated_at
     ]);
+    
+    await this.addToSyncQueue('UPDATE', 'user_preferences', preferences.user_id, preferences);
   }
   
   async getUserPreferences(userId: string): Promise<UserPreferences | null> {
@@ -319,6 +923,36 @@ export class DatabaseService {
     return this.mapRowToUserPreferences(result as any);
   }
   
+  async saveUserProfile(profile: UserProfile): Promise<void> {
+    if (!this.db) throw new Error('Database not initialized');
+    
+    await this.db.runAsync(`
+      INSERT OR REPLACE INTO user_profiles (
+        user_id, display_name, avatar_url, timezone, language, created_at, updated_at
+      ) VALUES (?, ?, ?, ?, ?, ?, ?)
+    `, [
+      profile.user_id,
+      profile.display_name || null,
+      profile.avatar_url || null,
+      profile.timezone,
+      profile.language,
+      profile.created_at,
+      profile.updated_at
+    ]);
+  }
+  
+  async getUserProfile(userId: string): Promise<UserProfile | null> {
+    if (!this.db) throw new Error('Database not initialized');
+    
+    const result = await this.db.getFirstAsync(`
+      SELECT * FROM user_profiles WHERE user_id = ?
+    `, [userId]);
+    
+    if (!result) return null;
+    
+    return this.mapRowToUserProfile(result as any);
+  }
+  
   // Consent operations
   async saveConsentRecord(consent: ConsentRecord): Promise<void> {
     if (!this.db) throw new Error('Database not initialized');
@@ -341,6 +975,8 @@ export class DatabaseService {
       consent.ip_address || null,
       consent.user_agent || null
     ]);
+    
+    await this.addToSyncQueue('INSERT', 'consent_records', `${consent.user_id}:${consent.consent_version}`, consent);
   }
   
   async getConsentRecord(userId: string, version: string): Promise<ConsentRecord | null> {
@@ -409,42 +1045,119 @@ export class DatabaseService {
       transaction.description,
       transaction.created_at
     ]);
+    
+    await this.addToSyncQueue('INSERT', 'reward_transactions', transaction.transaction_id, transaction);
   }
   
   // Sync queue operations
-  async addToSyncQueue(operationType: string, tableName: string, recordId: string, data: any): Promise<void> {
+  // Queuing a record replaces its pending entry, so only the latest change is sent
+  async addToSyncQueue(operationType: SyncOperationType, tableName: SyncTableName, recordId: string, data: any): Promise<void> {
     if (!this.db) throw new Error('Database not initialized');
     
-    const query = `
-      INSERT INTO sync_queue (operation_type, table_name, record_id, data, created_at)
-      VALUES (?, ?, ?, ?, ?)
-    `;
-    
-    await this.db.runAsync(query, [
+    await this.db.runAsync(`
+      DELETE FROM sync_queue
+      WHERE table_name = ? AND record_id = ? AND dead_lettered_at IS NULL
+    `, [tableName, recordId]);
+    await this.db.runAsync(`
+      INSERT INTO sync_queue (operation_type, table_name, record_id, user_id, data, created_at)
+      VALUES (?, ?, ?, ?, ?, ?)
+    `, [
       operationType,
       tableName,
       recordId,
+      data.user_id ?? null, // every synced record belongs to a user
       JSON.stringify(data),
       new Date().toISOString()
     ]);
   }
   
-  async getSyncQueue(): Promise<any[]> {
+  // Items still being retried, oldest first
+  async getSyncQueue(): Promise<SyncQueueItem[]> {
     if (!this.db) throw new Error('Database not initialized');
     
     const results = await this.db.getAllAsync(`
-      SELECT * FROM sync_queue 
-      WHERE retry_count < 3
-      ORDER BY created_at ASC
+      SELECT * FROM sync_queue
+      WHERE dead_lettered_at IS NULL
+      ORDER BY id ASC
     `);
     
-    return results.map(row => {
-      const parsedRow = row as any;
-      return {
-        ...parsedRow,
-        data: JSON.parse(parsedRow.data)
-      };
-    });
+    return results.map(row => this.mapRowToSyncQueueItem(row as any));
+  }
+  
+  // The user's items whose retry time has come; other accounts' changes
+  // wait until their owner signs in again
+  async getDueSyncItems(userId: string, now: string, limit: number): Promise<SyncQueueItem[]> {
+    if (!this.db) throw new Error('Database not initialized');
+    
+    const results = await this.db.getAllAsync(`
+      SELECT * FROM sync_queue
+      WHERE user_id = ? AND dead_lettered_at IS NULL AND (next_attempt_at IS NULL OR next_attempt_at <= ?)
+      ORDER BY id ASC
+      LIMIT ?
+    `, [userId, now, limit]);
+    
+    return results.map(row => this.mapRowToSyncQueueItem(row as any));
+  }
+  
+  // Items that are no longer retried, newest first
+  async getDeadLetters(): Promise<SyncQueueItem[]> {
+    if (!this.db) throw new Error('Database not initialized');
+    
+    const results = await this.db.getAllAsync(`
+      SELECT * FROM sync_queue
+      WHERE dead_lettered_at IS NOT NULL
+      ORDER BY dead_lettered_at DESC
+    `);
+    
+    return results.map(row => this.mapRowToSyncQueueItem(row as any));
+  }
+  
+  async getSyncQueueCounts(): Promise<{ pending: number; pendingTrips: number; deadLettered: number }> {
+    if (!this.db) throw new Error('Database not initialized');
+    
+    const result = await this.db.getFirstAsync(`
+      SELECT
+        COALESCE(SUM(dead_lettered_at IS NULL), 0) AS pending,
+        COALESCE(SUM(dead_lettered_at IS NULL AND table_name = 'trips'), 0) AS pending_trips,
+        COALESCE(SUM(dead_lettered_at IS NOT NULL), 0) AS dead_lettered
+      FROM sync_queue
+    `) as any;
+    
+    return {
+      pending: result?.pending ?? 0,
+      pendingTrips: result?.pending_trips ?? 0,
+      deadLettered: result?.dead_lettered ?? 0
+    };
+  }
+  
+  // A failed attempt; without a next attempt time the item is dead-lettered
+  async recordSyncFailure(id: number, error: string, nextAttemptAt: string | null): Promise<void> {
+    if (!this.db) throw new Error('Database not initialized');
+    
+    const now = new Date().toISOString();
+    await this.db.runAsync(`
+      UPDATE sync_queue
+      SET retry_count = retry_count + 1, last_retry = ?, last_error = ?,
+          next_attempt_at = ?, dead_lettered_at = ?
+      WHERE id = ?
+    `, [now, error, nextAttemptAt, nextAttemptAt ? null : now, id]);
+  }
+  
+  // Puts a dead-lettered item back in line with a fresh retry budget
+  async requeueSyncItem(id: number): Promise<void> {
+    if (!this.db) throw new Error('Database not initialized');
+    
+    await this.db.runAsync(`
+      UPDATE sync_queue
+      SET retry_count = 0, next_attempt_at = NULL, dead_lettered_at = NULL
+      WHERE id = ?
+    `, [id]);
+  }
+  
+  async removeSyncItem(id: number): Promise<void> {
+    if (!this.db) throw new Error('Database not initialized');
+    
+    await this.db.runAsync('DELETE FROM sync_queue WHERE id = ?', [id]);
   }
   
   async removeFromSyncQueue(tableName: string, recordId: string): Promise<void> {
@@ -455,6 +1168,66 @@ export class DatabaseService {
     `, [tableName, recordId]);
   }
   
+  // Conflicts from pulling trips, see TripVersioning.mergeRemoteTrip
+  async saveSyncConflict(conflict: TripConflict): Promise<void> {
+    if (!this.db) throw new Error('Database not initialized');
+    
+    await this.db.runAsync(`
+      INSERT OR REPLACE INTO sync_conflicts (
+        trip_id, field, local_value, remote_value, local_version, remote_version, detected_at
+      ) VALUES (?, ?, ?, ?, ?, ?, ?)
+    `, [
+      conflict.trip_id,
+      conflict.field,
+      JSON.stringify(conflict.local_value ?? null),
+      JSON.stringify(conflict.remote_value ?? null),
+      JSON.stringify(conflict.local_version),
+      JSON.stringify(conflict.remote_version),
+      conflict.detected_at
+    ]);
+  }
+  
+  async getSyncConflicts(tripId?: string): Promise<TripConflict[]> {
+    if (!this.db) throw new Error('Database not initialized');
+    
+    const results = tripId
+      ? await this.db.getAllAsync('SELECT * FROM sync_conflicts WHERE trip_id = ? ORDER BY field', [tripId])
+      : await this.db.getAllAsync('SELECT * FROM sync_conflicts ORDER BY detected_at DESC, trip_id, field');
+    
+    return results.map(row => this.mapRowToTripConflict(row as any));
+  }
+  
+  async getSyncConflictCount(): Promise<number> {
+    if (!this.db) throw new Error('Database not initialized');
+    
+    const result = await this.db.getFirstAsync<{ count: number }>('SELECT COUNT(*) AS count FROM sync_conflicts');
+    return result?.count ?? 0;
+  }
+  
+  async deleteSyncConflict(tripId: string, field: string): Promise<void> {
+    if (!this.db) throw new Error('Database not initialized');
+    
+    await this.db.runAsync('DELETE FROM sync_conflicts WHERE trip_id = ? AND field = ?', [tripId, field]);
+  }
+  
+  // Small values the sync keeps between runs, such as the pull cursor
+  async getSyncState(key: string): Promise<string | null> {
+    if (!this.db) throw new Error('Database not initialized');
+    
+    const result = await this.db.getFirstAsync<{ value: string }>('SELECT value FROM sync_state WHERE key = ?', [key]);
+    return result?.value ?? null;
+  }
+  
+  async setSyncState(key: string, value: string | null): Promise<void> {
+    if (!this.db) throw new Error('Database not initialized');
+    
+    if (value === null) {
+      await this.db.runAsync('DELETE FROM sync_state WHERE key = ?', [key]);
+    } else {
+      await this.db.runAsync('INSERT OR REPLACE INTO sync_state (key, value) VALUES (?, ?)', [key, value]);
+    }
+  }
+  
   // Data export for privacy compliance
   async exportUserData(userId: string): Promise<any> {
     if (!this.db) throw new Error('Database not initialized');
@@ -485,16 +1258,53 @@ export class DatabaseService {
   async deleteUserData(userId: string): Promise<void> {
     if (!this.db) throw new Error('Database not initialized');
     
-    await this.db.runAsync('DELETE FROM trips WHERE user_id = ?', [userId]);
-    await this.db.runAsync('DELETE FROM trip_chains WHERE user_id = ?', [userId]);
-    await this.db.runAsync('DELETE FROM user_preferences WHERE user_id = ?', [userId]);
-    await this.db.runAsync('DELETE FROM consent_records WHERE user_id = ?', [userId]);
-    await this.db.runAsync('DELETE FROM reward_points WHERE user_id = ?', [userId]);
-    await this.db.runAsync('DELETE FROM reward_transactions WHERE user_id = ?', [userId]);
-    await this.db.runAsync('DELETE FROM sync_queue WHERE data LIKE ?', [`%"user_id":"${userId}"%`]);
+    const db = this.db;
+    // All or nothing, so a failure cannot leave the user's data half gone
+    await this.writeTransaction(async () => {
+      await db.runAsync(
+        'DELETE FROM trip_points WHERE trip_id IN (SELECT trip_id FROM trips WHERE user_id = ?)',
+        [userId]
+      );
+      await db.runAsync(
+        'DELETE FROM trip_legs WHERE trip_id IN (SELECT trip_id FROM trips WHERE user_id = ?)',
+        [userId]
+      );
+      await db.runAsync('DELETE FROM mode_examples WHERE user_id = ?', [userId]);
+      await db.runAsync(
+        'DELETE FROM sync_conflicts WHERE trip_id IN (SELECT trip_id FROM trips WHERE user_id = ?)',
+        [userId]
+      );
+      await db.runAsync('DELETE FROM trips WHERE user_id = ?', [userId]);
+      await db.runAsync('DELETE FROM sync_state'); // the pull cursor would skip the deleted trips
+      await db.runAsync('DELETE FROM places WHERE user_id = ?', [userId]);
+      await db.runAsync('DELETE FROM geocode_cache'); // keys reveal visited locations
+      await db.runAsync('DELETE FROM trip_chains WHERE user_id = ?', [userId]);
+      await db.runAsync('DELETE FROM user_preferences WHERE user_id = ?', [userId]);
+      await db.runAsync('DELETE FROM user_profiles WHERE user_id = ?', [userId]);
+      await db.runAsync('DELETE FROM consent_records WHERE user_id = ?', [userId]);
+      await db.runAsync('DELETE FROM reward_points WHERE user_id = ?', [userId]);
+      await db.runAsync('DELETE FROM reward_transactions WHERE user_id = ?', [userId]);
+      await db.runAsync('DELETE FROM sync_queue WHERE user_id = ?', [userId]);
+    });
   }
   
   // Helper methods to map database rows to objects
+  private mapRowToSyncQueueItem(row: any): SyncQueueItem {
+    return {
+      id: row.id,
+      operation_type: row.operation_type,
+      table_name: row.table_name,
+      record_id: row.record_id,
+      data: JSON.parse(row.data),
+      created_at: row.created_at,
+      retry_count: row.retry_count,
+      last_retry: row.last_retry,
+      last_error: row.last_error,
+      next_attempt_at: row.next_attempt_at,
+      dead_lettered_at: row.dead_lettered_at
+    };
+  }
+  
   private mapRowToTrip(row: any): Trip {
     return {
       trip_id: row.trip_id,
@@ -504,12 +1314,14 @@ export class DatabaseService {
       origin: {
         lat: row.origin_lat,
         lon: row.origin_lon,
-        place_name: row.origin_place_name
+        place_name: row.origin_place_name,
+        place_id: row.origin_place_id ?? undefined
       },
       destination: {
         lat: row.destination_lat,
         lon: row.destination_lon,
-        place_name: row.destination_place_name
+        place_name: row.destination_place_name,
+        place_id: row.destination_place_id ?? undefined
       },
       start_time: row.start_time,
       end_time: row.end_time,
@@ -518,22 +1330,103 @@ export class DatabaseService {
       travel_mode: {
         detected: row.travel_mode_detected,
         user_confirmed: row.travel_mode_confirmed,
-        confidence: row.travel_mode_confidence
+        confidence: row.travel_mode_confidence,
+        probabilities: row.travel_mode_probabilities ? JSON.parse(row.travel_mode_probabilities) : undefined
       },
       trip_purpose: row.trip_purpose,
+      purpose_confidence: row.purpose_confidence ?? undefined,
+      purpose_confirmed: row.purpose_confirmed === 1,
       num_accompanying: row.num_accompanying,
       accompanying_basic: JSON.parse(row.accompanying_basic || '[]'),
       notes: row.notes,
       sensor_summary: JSON.parse(row.sensor_summary),
       recorded_offline: row.recorded_offline === 1,
+      import_source: row.import_source ?? undefined,
       synced: row.synced === 1,
       is_private: row.is_private === 1,
       plausibility_score: row.plausibility_score,
+      field_versions: JSON.parse(row.field_versions || '{}'),
+      synced_versions: JSON.parse(row.synced_versions || '{}'),
+      created_at: row.created_at,
+      updated_at: row.updated_at
+    };
+  }
+  
+  private mapRowToTripConflict(row: any): TripConflict {
+    return {
+      trip_id: row.trip_id,
+      field: row.field,
+      local_value: JSON.parse(row.local_value),
+      remote_value: JSON.parse(row.remote_value),
+      local_version: JSON.parse(row.local_version),
+      remote_version: JSON.parse(row.remote_version),
+      detected_at: row.detected_at
+    };
+  }
+  
+  private mapRowToTripLeg(row: any): TripLeg {
+    return {
+      leg_id: row.leg_id,
+      trip_id: row.trip_id,
+      leg_number: row.leg_number,
+      travel_mode: {
+        detected: row.travel_mode_detected,
+        user_confirmed: row.travel_mode_confirmed,
+        confidence: row.travel_mode_confidence,
+        probabilities: row.travel_mode_probabilities ? JSON.parse(row.travel_mode_probabilities) : undefined
+      },
+      start: { lat: row.start_lat, lon: row.start_lon },
+      end: { lat: row.end_lat, lon: row.end_lon },
+      start_time: row.start_time,
+      end_time: row.end_time,
+      duration_seconds: row.duration_seconds,
+      distance_meters: row.distance_meters
+    };
+  }
+  
+  private mapRowToModeExample(row: any): ModeExample {
+    return {
+      example_id: row.example_id,
+      trip_id: row.trip_id,
+      user_id: row.user_id,
+      features: JSON.parse(row.features),
+      detected_mode: row.detected_mode,
+      confirmed_mode: row.confirmed_mode,
       created_at: row.created_at,
       updated_at: row.updated_at
     };
   }
   
+  private mapRowToPlace(row: any): Place {
+    return {
+      place_id: row.place_id,
+      user_id: row.user_id,
+      name: row.name,
+      place_type: row.place_type,
+      address: row.address,
+      lat: row.lat,
+      lon: row.lon,
+      radius_meters: row.radius_meters,
+      visit_count: row.visit_count,
+      total_dwell_seconds: row.total_dwell_seconds,
+      first_visit: row.first_visit,
+      last_visit: row.last_visit,
+      created_at: row.created_at,
+      updated_at: row.updated_at
+    };
+  }
+  
+  private mapRowToLocationPoint(row: any): LocationPoint {
+    return {
+      latitude: row.filtered_latitude ?? row.latitude,
+      longitude: row.filtered_longitude ?? row.longitude,
+      timestamp: row.timestamp,
+      accuracy: row.filtered_accuracy ?? row.accuracy ?? undefined,
+      speed: row.speed ?? undefined,
+      heading: row.heading ?? undefined
+    };
+  }
+  
   private mapRowToTripChain(row: any): TripChain {
     return {
       chain_id: row.chain_id,
@@ -553,6 +1446,7 @@ export class DatabaseService {
       user_id: row.user_id,
       background_tracking_enabled: row.background_tracking_enabled === 1,
       sync_frequency_minutes: row.sync_frequency_minutes,
+      sync_network_policy: row.sync_network_policy,
       battery_optimization: row.battery_optimization === 1,
       privacy_mode: row.privacy_mode === 1,
       reward_notifications: row.reward_notifications === 1,
@@ -561,6 +1455,18 @@ export class DatabaseService {
     };
   }
   
+  private mapRowToUserProfile(row: any): UserProfile {
+    return {
+      user_id: row.user_id,
+      display_name: row.display_name ?? undefined,
+      avatar_url: row.avatar_url ?? undefined,
+      timezone: row.timezone,
+      language: row.language,
+      created_at: row.created_at,
+      updated_at: row.updated_at
+    };
+  }
+  
   private mapRowToConsentRecord(row: any): ConsentRecord {
     return {
       user_id: row.user_id,
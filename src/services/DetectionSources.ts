@@ -0,0 +1,71 @@
+import { SamplingAccuracy } from './SamplingController';
+
+// Inputs of the trip detection pipeline.
+// Trip detection only talks to these interfaces, so the device sensors can be
+// swapped for recorded traces and the whole pipeline run without a phone.
+
+export interface SourceSubscription {
+  remove(): void;
+}
+
+// Same shape as an expo-location LocationObject
+export interface LocationFix {
+  coords: {
+    latitude: number;
+    longitude: number;
+    accuracy: number | null;
+    speed: number | null;
+    heading: number | null;
+  };
+  timestamp: number;
+}
+
+export interface LocationWatchOptions {
+  accuracy: SamplingAccuracy;
+  timeInterval: number; // ms
+  distanceInterval: number; // meters
+}
+
+export interface LocationPermissions {
+  foreground: boolean;
+  background: boolean;
+}
+
+export interface LocationSource {
+  requestPermissions(): Promise<LocationPermissions>;
+  watchPosition(options: LocationWatchOptions, callback: (fix: LocationFix) => void): Promise<SourceSubscription>;
+}
+
+export type SensorKind = 'accelerometer' | 'gyroscope' | 'magnetometer';
+
+export interface SensorReading {
+  x: number;
+  y: number;
+  z: number;
+  timestamp: number;
+}
+
+export interface SensorSource {
+  setUpdateInterval(sensor: SensorKind, interval: number): Promise<void>;
+  addListener(sensor: SensorKind, listener: (reading: SensorReading) => void): SourceSubscription;
+}
+
+// Time as the pipeline sees it; replays run on the trace's own clock
+export interface DetectionClock {
+  now(): number;
+  setInterval(callback: () => void, interval: number): SourceSubscription;
+}
+
+export interface DetectionSources {
+  location: LocationSource;
+  sensors: SensorSource;
+  clock: DetectionClock;
+}
+
+export const systemClock: DetectionClock = {
+  now: () => Date.now(),
+  setInterval: (callback, interval) => {
+    const timer = setInterval(callback, interval);
+    return { remove: () => clearInterval(timer) };
+  },
+};
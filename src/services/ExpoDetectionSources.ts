@@ -0,0 +1,71 @@
+import * as Location from 'expo-location';
+import * as Sensors from 'expo-sensors';
+import { SamplingAccuracy } from './SamplingController';
+import {
+  DetectionSources,
+  LocationSource,
+  LocationFix,
+  LocationPermissions,
+  LocationWatchOptions,
+  SensorSource,
+  SensorKind,
+  SensorReading,
+  SourceSubscription,
+  systemClock
+} from './DetectionSources';
+
+// Detection sources backed by the device's location services and motion sensors
+
+const LOCATION_ACCURACY: Record<SamplingAccuracy, Location.Accuracy> = {
+  high: Location.Accuracy.High,
+  balanced: Location.Accuracy.Balanced,
+  low: Location.Accuracy.Low,
+};
+
+const SENSORS = {
+  accelerometer: Sensors.Accelerometer,
+  gyroscope: Sensors.Gyroscope,
+  magnetometer: Sensors.Magnetometer,
+};
+
+export class ExpoLocationSource implements LocationSource {
+  async requestPermissions(): Promise<LocationPermissions> {
+    const { status } = await Location.requestForegroundPermissionsAsync();
+    if (status !== 'granted') {
+      return { foreground: false, background: false };
+    }
+    
+    const backgroundStatus = await Location.requestBackgroundPermissionsAsync();
+    return { foreground: true, background: backgroundStatus.status === 'granted' };
+  }
+  
+  watchPosition(options: LocationWatchOptions, callback: (fix: LocationFix) => void): Promise<SourceSubscription> {
+    return Location.watchPositionAsync(
+      {
+        accuracy: LOCATION_ACCURACY[options.accuracy],
+        timeInterval: options.timeInterval,
+        distanceInterval: options.distanceInterval,
+      },
+      callback
+    );
+  }
+}
+
+export class ExpoSensorSource implements SensorSource {
+  async setUpdateInterval(sensor: SensorKind, interval: number): Promise<void> {
+    SENSORS[sensor].setUpdateInterval(interval);
+  }
+  
+  // expo-sensors readings carry no wall-clock time, so it is added here
+  addListener(sensor: SensorKind, listener: (reading: SensorReading) => void): SourceSubscription {
+    return SENSORS[sensor].addListener((data) => {
+      listener({ x: data.x, y: data.y, z: data.z, timestamp: Date.now() });
+    });
+  }
+}
+
+export const expoDetectionSources: DetectionSources = {
+  location: new ExpoLocationSource(),
+  sensors: new ExpoSensorSource(),
+  clock: systemClock,
+};
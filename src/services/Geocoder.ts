@@ -0,0 +1,147 @@
+import * as Location from 'expo-location';
+import { APP_CONFIG } from '../constants/Config';
+import { calculateDistance } from '../utils/geo';
+
+// Reverse geocoders turn a coordinate into a display name, or null when
+// they have nothing to say about it.
+
+export interface ReverseGeocoder {
+  name: string; // recorded as the source of cached results
+  reverseGeocode(latitude: number, longitude: number): Promise<string | null>;
+}
+
+// Gazetteer file format: a GeoJSON FeatureCollection of points
+export type GazetteerKind = 'locality' | 'poi';
+
+export interface GazetteerFeature {
+  type: 'Feature';
+  geometry: { type: 'Point'; coordinates: [number, number] }; // [lon, lat]
+  properties: {
+    name: string;
+    kind: GazetteerKind;
+    radius?: number; // meters the entry covers
+  };
+}
+
+export interface GazetteerCollection {
+  type: 'FeatureCollection';
+  name?: string;
+  version?: string;
+  features: GazetteerFeature[];
+}
+
+interface GazetteerEntry {
+  name: string;
+  kind: GazetteerKind;
+  lat: number;
+  lon: number;
+  radius: number;
+}
+
+// Uniform lat/lon grid; cheap to build and good enough for a region-sized gazetteer
+class SpatialGridIndex {
+  private cells = new Map<string, GazetteerEntry[]>();
+  
+  constructor(private cellDegrees: number) {}
+  
+  insert(entry: GazetteerEntry): void {
+    const key = this.cellKey(this.cellIndex(entry.lat), this.cellIndex(entry.lon));
+    const cell = this.cells.get(key);
+    if (cell) {
+      cell.push(entry);
+    } else {
+      this.cells.set(key, [entry]);
+    }
+  }
+  
+  // Entries in every cell that a circle of the given radius can touch
+  query(latitude: number, longitude: number, radiusMeters: number): GazetteerEntry[] {
+    const latSpan = radiusMeters / 111320;
+    const lonSpan = radiusMeters / (111320 * Math.max(Math.cos(latitude * Math.PI / 180), 0.01));
+    const results: GazetteerEntry[] = [];
+    
+    for (let row = this.cellIndex(latitude - latSpan); row <= this.cellIndex(latitude + latSpan); row++) {
+      for (let col = this.cellIndex(longitude - lonSpan); col <= this.cellIndex(longitude + lonSpan); col++) {
+        const cell = this.cells.get(this.cellKey(row, col));
+        if (cell) results.push(...cell);
+      }
+    }
+    return results;
+  }
+  
+  private cellIndex(degrees: number): number {
+    return Math.floor(degrees / this.cellDegrees);
+  }
+  
+  private cellKey(row: number, col: number): string {
+    return `${row}:${col}`;
+  }
+}
+
+export class GazetteerGeocoder implements ReverseGeocoder {
+  name = 'gazetteer';
+  private index = new SpatialGridIndex(APP_CONFIG.GEOCODING.INDEX_CELL_DEGREES);
+  private maxRadius = 0;
+  
+  constructor(collection?: GazetteerCollection) {
+    if (collection) {
+      this.load(collection);
+    }
+  }
+  
+  // Replaces the current gazetteer, e.g. with a file for another survey region
+  load(collection: GazetteerCollection): void {
+    this.index = new SpatialGridIndex(APP_CONFIG.GEOCODING.INDEX_CELL_DEGREES);
+    this.maxRadius = 0;
+    
+    for (const feature of collection.features) {
+      if (feature.geometry?.type !== 'Point' || !feature.properties?.name) continue;
+      
+      const kind = feature.properties.kind === 'poi' ? 'poi' : 'locality';
+      const radius = feature.properties.radius ??
+        (kind === 'poi' ? APP_CONFIG.GEOCODING.POI_RADIUS : APP_CONFIG.GEOCODING.LOCALITY_RADIUS);
+      const [lon, lat] = feature.geometry.coordinates;
+      
+      this.index.insert({ name: feature.properties.name, kind, lat, lon, radius });
+      this.maxRadius = Math.max(this.maxRadius, radius);
+    }
+  }
+  
+  async reverseGeocode(latitude: number, longitude: number): Promise<string | null> {
+    const poi = this.nearest(latitude, longitude, 'poi');
+    const locality = this.nearest(latitude, longitude, 'locality');
+    
+    if (poi && locality) return `${poi.name}, ${locality.name}`;
+    if (poi) return poi.name;
+    if (locality) return locality.name;
+    return null;
+  }
+  
+  private nearest(latitude: number, longitude: number, kind: GazetteerKind): GazetteerEntry | null {
+    let nearest: GazetteerEntry | null = null;
+    let nearestDistance = Infinity;
+    
+    for (const entry of this.index.query(latitude, longitude, this.maxRadius)) {
+      if (entry.kind !== kind) continue;
+      const distance = calculateDistance(latitude, longitude, entry.lat, entry.lon);
+      if (distance <= entry.radius && distance < nearestDistance) {
+        nearest = entry;
+        nearestDistance = distance;
+      }
+    }
+    return nearest;
+  }
+}
+
+// Device geocoder; needs network on most platforms
+export class PlatformGeocoder implements ReverseGeocoder {
+  name = 'platform';
+  
+  async reverseGeocode(latitude: number, longitude: number): Promise<string | null> {
+    const result = await Location.reverseGeocodeAsync({ latitude, longitude });
+    if (result.length === 0) return null;
+    
+    const place = result[0];
+    return `${place.name || place.street || 'Unknown'}, ${place.city || place.region || 'Unknown'}`;
+  }
+}
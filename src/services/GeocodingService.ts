@@ -0,0 +1,57 @@
+import { APP_CONFIG } from '../constants/Config';
+import { databaseService } from './DatabaseService';
+import { ReverseGeocoder, GazetteerGeocoder, GazetteerCollection, PlatformGeocoder } from './Geocoder';
+import bundledGazetteer from '../data/gazetteer.json';
+
+const UNKNOWN_LOCATION = 'Unknown Location';
+
+export class GeocodingService {
+  private gazetteer = new GazetteerGeocoder(bundledGazetteer as unknown as GazetteerCollection);
+  private geocoders: ReverseGeocoder[] = [this.gazetteer, new PlatformGeocoder()];
+  
+  // Geocoders are tried in order until one returns a name
+  setGeocoders(geocoders: ReverseGeocoder[]): void {
+    this.geocoders = geocoders;
+  }
+  
+  // Names from the previous gazetteer are dropped from the cache
+  async loadGazetteer(collection: GazetteerCollection): Promise<void> {
+    this.gazetteer.load(collection);
+    await databaseService.clearGeocodeCache(this.gazetteer.name);
+  }
+  
+  async getPlaceName(latitude: number, longitude: number): Promise<string> {
+    const cacheKey = this.cacheKey(latitude, longitude);
+    
+    try {
+      const cached = await databaseService.getCachedPlaceName(cacheKey);
+      if (cached) return cached;
+    } catch (error) {
+      console.error('Failed to read geocode cache:', error);
+    }
+    
+    for (const geocoder of this.geocoders) {
+      try {
+        const placeName = await geocoder.reverseGeocode(latitude, longitude);
+        if (!placeName) continue;
+        
+        databaseService.cachePlaceName(cacheKey, placeName, geocoder.name).catch(error => {
+          console.error('Failed to cache place name:', error);
+        });
+        return placeName;
+      } catch (error) {
+        console.error(`Error reverse geocoding with ${geocoder.name}:`, error);
+      }
+    }
+    
+    return UNKNOWN_LOCATION;
+  }
+  
+  // Nearby coordinates share a cache entry
+  private cacheKey(latitude: number, longitude: number): string {
+    const precision = APP_CONFIG.GEOCODING.CACHE_PRECISION;
+    return `${latitude.toFixed(precision)},${longitude.toFixed(precision)}`;
+  }
+}
+
+export const geocodingService = new GeocodingService();
@@ -0,0 +1,151 @@
+import { LocationPoint } from '../types';
+import { APP_CONFIG } from '../constants/Config';
+import { pathDistance } from '../utils/geo';
+
+// Splits a trip's trace into single-mode legs.
+// The trace is cut into fixed time windows, each window is classified, and
+// runs of the same mode become legs. Runs that are too short to be a real
+// mode change (a bus stopping, a brief slowdown) are merged into a neighbour.
+
+export interface ModeClassification {
+  mode: string;
+  confidence: number;
+  probabilities?: Record<string, number>;
+}
+
+export type WindowClassifier = (points: LocationPoint[]) => ModeClassification;
+
+export interface DetectedLeg {
+  mode: string;
+  confidence: number;
+  probabilities?: Record<string, number>; // averaged over the leg's windows
+  points: LocationPoint[];
+  start_time: number; // epoch milliseconds
+  end_time: number;
+  distance_meters: number;
+}
+
+export interface LegSegmentationConfig {
+  windowSeconds: number;
+  minLegSeconds: number;
+}
+
+export const DEFAULT_LEG_SEGMENTATION_CONFIG: LegSegmentationConfig = {
+  windowSeconds: APP_CONFIG.MODE_WINDOW_SECONDS,
+  minLegSeconds: APP_CONFIG.MIN_LEG_DURATION,
+};
+
+interface ModeRun {
+  mode: string;
+  confidenceSum: number;
+  probabilitySums: Record<string, number>;
+  windowCount: number;
+  points: LocationPoint[];
+}
+
+const addProbabilities = (target: Record<string, number>, source: Record<string, number> = {}): void => {
+  for (const [mode, probability] of Object.entries(source)) {
+    target[mode] = (target[mode] || 0) + probability;
+  }
+};
+
+const averageProbabilities = (run: ModeRun): Record<string, number> | undefined => {
+  const modes = Object.keys(run.probabilitySums);
+  if (modes.length === 0) return undefined;
+  const averaged: Record<string, number> = {};
+  for (const mode of modes) {
+    averaged[mode] = run.probabilitySums[mode] / run.windowCount;
+  }
+  return averaged;
+};
+
+const runDuration = (run: ModeRun): number =>
+  (run.points[run.points.length - 1].timestamp - run.points[0].timestamp) / 1000;
+
+export const splitIntoLegs = (
+  points: LocationPoint[],
+  classify: WindowClassifier,
+  config: Partial<LegSegmentationConfig> = {}
+): DetectedLeg[] => {
+  const { windowSeconds, minLegSeconds } = { ...DEFAULT_LEG_SEGMENTATION_CONFIG, ...config };
+  if (points.length < 2) return [];
+  
+  // Cut the trace into windows
+  const windows: LocationPoint[][] = [];
+  let current: LocationPoint[] = [points[0]];
+  for (let i = 1; i < points.length; i++) {
+    current.push(points[i]);
+    if ((points[i].timestamp - current[0].timestamp) / 1000 >= windowSeconds) {
+      windows.push(current);
+      current = [points[i]]; // windows share their boundary fix
+    }
+  }
+  if (current.length > 1) {
+    windows.push(current);
+  }
+  
+  // Classify windows and merge consecutive windows with the same mode
+  const runs: ModeRun[] = [];
+  for (const window of windows) {
+    const { mode, confidence, probabilities } = classify(window);
+    const last = runs[runs.length - 1];
+    if (last && last.mode === mode) {
+      last.points.push(...window.slice(1));
+      last.confidenceSum += confidence;
+      addProbabilities(last.probabilitySums, probabilities);
+      last.windowCount++;
+    } else {
+      runs.push({
+        mode,
+        confidenceSum: confidence,
+        probabilitySums: { ...probabilities },
+        windowCount: 1,
+        points: last ? [last.points[last.points.length - 1], ...window.slice(1)] : [...window],
+      });
+    }
+  }
+  
+  // Absorb short runs into the longer neighbour until every run is long enough
+  while (runs.length > 1) {
+    let shortest = -1;
+    for (let i = 0; i < runs.length; i++) {
+      if (runDuration(runs[i]) < minLegSeconds && (shortest < 0 || runDuration(runs[i]) < runDuration(runs[shortest]))) {
+        shortest = i;
+      }
+    }
+    if (shortest < 0) break;
+    
+    const previous = runs[shortest - 1];
+    const next = runs[shortest + 1];
+    const target = !next || (previous && runDuration(previous) >= runDuration(next)) ? shortest - 1 : shortest + 1;
+    const absorbed = runs[shortest];
+    
+    if (target < shortest) {
+      runs[target].points.push(...absorbed.points.slice(1));
+    } else {
+      runs[target].points = [...absorbed.points, ...runs[target].points.slice(1)];
+    }
+    runs.splice(shortest, 1);
+    
+    // Merging can leave two neighbours with the same mode side by side
+    for (let i = runs.length - 1; i > 0; i--) {
+      if (runs[i].mode === runs[i-1].mode) {
+        runs[i-1].points.push(...runs[i].points.slice(1));
+        runs[i-1].confidenceSum += runs[i].confidenceSum;
+        addProbabilities(runs[i-1].probabilitySums, runs[i].probabilitySums);
+        runs[i-1].windowCount += runs[i].windowCount;
+        runs.splice(i, 1);
+      }
+    }
+  }
+  
+  return runs.map(run => ({
+    mode: run.mode,
+    confidence: run.confidenceSum / run.windowCount,
+    probabilities: averageProbabilities(run),
+    points: run.points,
+    start_time: run.points[0].timestamp,
+    end_time: run.points[run.points.length - 1].timestamp,
+    distance_meters: pathDistance(run.points),
+  }));
+};
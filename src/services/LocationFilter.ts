@@ -0,0 +1,106 @@
+import { LocationPoint } from '../types';
+import { APP_CONFIG } from '../constants/Config';
+import { calculateDistance } from '../utils/geo';
+
+// GPS noise filter applied to raw fixes before they reach trip detection.
+// Drops inaccurate fixes, rejects physically impossible jumps and smooths the
+// remaining positions with a simple Kalman filter.
+
+export type FilterRejection = 'poor_accuracy' | 'impossible_jump';
+
+export interface FilterResult {
+  point: LocationPoint | null; // smoothed fix, or null if rejected
+  rejection?: FilterRejection;
+}
+
+export interface LocationFilterConfig {
+  maxAccuracy: number; // meters
+  maxSpeed: number; // m/s
+  processNoise: number; // m/s
+  minAccuracy: number; // meters
+  maxConsecutiveRejections: number;
+}
+
+export const DEFAULT_LOCATION_FILTER_CONFIG: LocationFilterConfig = {
+  maxAccuracy: APP_CONFIG.GPS_FILTER.MAX_ACCURACY,
+  maxSpeed: APP_CONFIG.GPS_FILTER.MAX_SPEED,
+  processNoise: APP_CONFIG.GPS_FILTER.KALMAN_PROCESS_NOISE,
+  minAccuracy: APP_CONFIG.LOCATION_ACCURACY,
+  maxConsecutiveRejections: APP_CONFIG.GPS_FILTER.MAX_CONSECUTIVE_REJECTIONS,
+};
+
+export class LocationFilter {
+  private config: LocationFilterConfig;
+  private lastAccepted: LocationPoint | null = null;
+  private variance = -1; // m², negative until the first fix initialises the filter
+  private consecutiveRejections = 0;
+  
+  constructor(config: Partial<LocationFilterConfig> = {}) {
+    this.config = { ...DEFAULT_LOCATION_FILTER_CONFIG, ...config };
+  }
+  
+  reset(): void {
+    this.lastAccepted = null;
+    this.variance = -1;
+    this.consecutiveRejections = 0;
+  }
+  
+  process(raw: LocationPoint): FilterResult {
+    if (raw.accuracy !== undefined && raw.accuracy !== null && raw.accuracy > this.config.maxAccuracy) {
+      return { point: null, rejection: 'poor_accuracy' };
+    }
+    
+    if (this.lastAccepted && this.isImpossibleJump(this.lastAccepted, raw)) {
+      this.consecutiveRejections++;
+      
+      // Several consistent "jumps" in a row mean our last position was the
+      // outlier (or we lost the signal for a while) - start over from here
+      if (this.consecutiveRejections < this.config.maxConsecutiveRejections) {
+        return { point: null, rejection: 'impossible_jump' };
+      }
+      this.reset();
+    }
+    
+    this.consecutiveRejections = 0;
+    const smoothed = this.smooth(raw);
+    this.lastAccepted = smoothed;
+    return { point: smoothed };
+  }
+  
+  private isImpossibleJump(from: LocationPoint, to: LocationPoint): boolean {
+    const timeDiff = (to.timestamp - from.timestamp) / 1000;
+    if (timeDiff <= 0) return false;
+    
+    const distance = calculateDistance(from.latitude, from.longitude, to.latitude, to.longitude);
+    return distance / timeDiff > this.config.maxSpeed;
+  }
+  
+  private smooth(raw: LocationPoint): LocationPoint {
+    const accuracy = Math.max(raw.accuracy ?? this.config.minAccuracy, this.config.minAccuracy);
+    const measurementVariance = accuracy * accuracy;
+    
+    if (this.variance < 0 || !this.lastAccepted) {
+      this.variance = measurementVariance;
+      return { ...raw };
+    }
+    
+    const timeDiff = raw.timestamp - this.lastAccepted.timestamp;
+    if (timeDiff > 0) {
+      // Uncertainty grows with time; faster movement means more process noise
+      const processNoise = Math.max(this.config.processNoise, raw.speed ?? 0);
+      this.variance += timeDiff * processNoise * processNoise / 1000;
+    }
+    
+    const gain = this.variance / (this.variance + measurementVariance);
+    const latitude = this.lastAccepted.latitude + gain * (raw.latitude - this.lastAccepted.latitude);
+    const longitude = this.lastAccepted.longitude + gain * (raw.longitude - this.lastAccepted.longitude);
+    this.variance = (1 - gain) * this.variance;
+    
+    return {
+      ...raw,
+      latitude,
+      longitude,
+      accuracy: Math.sqrt(this.variance)
+    };
+  }
+}
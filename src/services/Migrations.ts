@@ -0,0 +1,525 @@
+import * as SQLite from 'expo-sqlite';
+
+// Versioned schema for the local SQLite store.
+// PRAGMA user_version holds the number of the last migration applied. Each
+// migration runs in its own transaction together with the version bump, so
+// an interrupted upgrade resumes from the last completed step.
+//
+// Append new migrations to the end of MIGRATIONS; never edit one that has
+// shipped. Databases created before versioning report version 0 but already
+// have some of the schema, so the first two migrations are idempotent.
+
+export interface Migration {
+  version: number;
+  description: string;
+  up: (db: SQLite.SQLiteDatabase) => Promise<void>;
+  down: (db: SQLite.SQLiteDatabase) => Promise<void>;
+}
+
+const columnExists = async (db: SQLite.SQLiteDatabase, table: string, column: string): Promise<boolean> => {
+  const columns = await db.getAllAsync<{ name: string }>(`PRAGMA table_info(${table})`);
+  return columns.some(existing => existing.name === column);
+};
+
+// Returns true if the column was missing
+const addColumn = async (db: SQLite.SQLiteDatabase, table: string, column: string, definition: string): Promise<boolean> => {
+  if (await columnExists(db, table, column)) return false;
+  await db.execAsync(`ALTER TABLE ${table} ADD COLUMN ${column} ${definition}`);
+  return true;
+};
+
+const dropColumn = async (db: SQLite.SQLiteDatabase, table: string, column: string): Promise<void> => {
+  if (!(await columnExists(db, table, column))) return;
+  await db.execAsync(`ALTER TABLE ${table} DROP COLUMN ${column}`);
+};
+
+// Mode a trip counts as; queries must use this exact expression to hit its index
+export const EFFECTIVE_MODE = 'COALESCE(travel_mode_confirmed, travel_mode_detected)';
+
+export const MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    description: 'Initial schema',
+    up: async db => {
+      await db.execAsync(`
+        CREATE TABLE IF NOT EXISTS trips (
+          trip_id TEXT PRIMARY KEY,
+          user_id TEXT NOT NULL,
+          trip_number INTEGER NOT NULL,
+          chain_id TEXT NOT NULL,
+          origin_lat REAL NOT NULL,
+          origin_lon REAL NOT NULL,
+          origin_place_name TEXT NOT NULL,
+          destination_lat REAL NOT NULL,
+          destination_lon REAL NOT NULL,
+          destination_place_name TEXT NOT NULL,
+          start_time TEXT NOT NULL,
+          end_time TEXT NOT NULL,
+          duration_seconds INTEGER NOT NULL,
+          distance_meters REAL NOT NULL,
+          travel_mode_detected TEXT NOT NULL,
+          travel_mode_confirmed TEXT,
+          travel_mode_confidence REAL NOT NULL,
+          trip_purpose TEXT NOT NULL,
+          num_accompanying INTEGER NOT NULL,
+          accompanying_basic TEXT,
+          notes TEXT,
+          sensor_summary TEXT NOT NULL,
+          recorded_offline INTEGER NOT NULL DEFAULT 1,
+          synced INTEGER NOT NULL DEFAULT 0,
+          is_private INTEGER NOT NULL DEFAULT 0,
+          plausibility_score REAL,
+          created_at TEXT NOT NULL,
+          updated_at TEXT NOT NULL
+        );
+        
+        CREATE TABLE IF NOT EXISTS trip_chains (
+          chain_id TEXT PRIMARY KEY,
+          user_id TEXT NOT NULL,
+          start_time TEXT NOT NULL,
+          end_time TEXT NOT NULL,
+          total_distance REAL NOT NULL,
+          total_duration INTEGER NOT NULL,
+          created_at TEXT NOT NULL,
+          updated_at TEXT NOT NULL
+        );
+        
+        CREATE TABLE IF NOT EXISTS user_preferences (
+          user_id TEXT PRIMARY KEY,
+          background_tracking_enabled INTEGER NOT NULL DEFAULT 1,
+          sync_frequency_minutes INTEGER NOT NULL DEFAULT 30,
+          battery_optimization INTEGER NOT NULL DEFAULT 1,
+          privacy_mode INTEGER NOT NULL DEFAULT 0,
+          reward_notifications INTEGER NOT NULL DEFAULT 1,
+          created_at TEXT NOT NULL,
+          updated_at TEXT NOT NULL
+        );
+        
+        CREATE TABLE IF NOT EXISTS consent_records (
+          user_id TEXT NOT NULL,
+          consent_version TEXT NOT NULL,
+          background_tracking_consent INTEGER NOT NULL,
+          data_sharing_consent INTEGER NOT NULL,
+          analytics_consent INTEGER NOT NULL,
+          consent_timestamp TEXT NOT NULL,
+          ip_address TEXT,
+          user_agent TEXT,
+          PRIMARY KEY (user_id, consent_version)
+        );
+        
+        CREATE TABLE IF NOT EXISTS reward_points (
+          user_id TEXT PRIMARY KEY,
+          total_points INTEGER NOT NULL DEFAULT 0,
+          available_points INTEGER NOT NULL DEFAULT 0,
+          redeemed_points INTEGER NOT NULL DEFAULT 0,
+          last_earned TEXT,
+          created_at TEXT NOT NULL,
+          updated_at TEXT NOT NULL
+        );
+        
+        CREATE TABLE IF NOT EXISTS reward_transactions (
+          transaction_id TEXT PRIMARY KEY,
+          user_id TEXT NOT NULL,
+          trip_id TEXT,
+          points_earned INTEGER NOT NULL DEFAULT 0,
+          points_redeemed INTEGER NOT NULL DEFAULT 0,
+          transaction_type TEXT NOT NULL,
+          description TEXT NOT NULL,
+          created_at TEXT NOT NULL
+        );
+        
+        CREATE TABLE IF NOT EXISTS sync_queue (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          operation_type TEXT NOT NULL,
+          table_name TEXT NOT NULL,
+          record_id TEXT NOT NULL,
+          data TEXT NOT NULL,
+          created_at TEXT NOT NULL,
+          retry_count INTEGER NOT NULL DEFAULT 0,
+          last_retry TEXT
+        );
+        
+        CREATE INDEX IF NOT EXISTS idx_trips_user_id ON trips(user_id);
+        CREATE INDEX IF NOT EXISTS idx_trips_chain_id ON trips(chain_id);
+        CREATE INDEX IF NOT EXISTS idx_trips_start_time ON trips(start_time);
+        CREATE INDEX IF NOT EXISTS idx_trips_synced ON trips(synced);
+        CREATE INDEX IF NOT EXISTS idx_sync_queue_operation ON sync_queue(operation_type);
+      `);
+    },
+    down: async db => {
+      await db.execAsync(`
+        DROP TABLE IF EXISTS sync_queue;
+        DROP TABLE IF EXISTS reward_transactions;
+        DROP TABLE IF EXISTS reward_points;
+        DROP TABLE IF EXISTS consent_records;
+        DROP TABLE IF EXISTS user_preferences;
+        DROP TABLE IF EXISTS trip_chains;
+        DROP TABLE IF EXISTS trips;
+      `);
+    }
+  },
+  {
+    version: 2,
+    description: 'Trip points, legs, mode examples, places, geocode cache and user profiles',
+    up: async db => {
+      await db.execAsync(`
+        CREATE TABLE IF NOT EXISTS trip_points (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          trip_id TEXT NOT NULL,
+          latitude REAL NOT NULL,
+          longitude REAL NOT NULL,
+          timestamp INTEGER NOT NULL,
+          accuracy REAL,
+          speed REAL,
+          heading REAL
+        );
+        
+        CREATE TABLE IF NOT EXISTS trip_legs (
+          leg_id TEXT PRIMARY KEY,
+          trip_id TEXT NOT NULL,
+          leg_number INTEGER NOT NULL,
+          travel_mode_detected TEXT NOT NULL,
+          travel_mode_confirmed TEXT,
+          travel_mode_confidence REAL NOT NULL,
+          start_lat REAL NOT NULL,
+          start_lon REAL NOT NULL,
+          end_lat REAL NOT NULL,
+          end_lon REAL NOT NULL,
+          start_time TEXT NOT NULL,
+          end_time TEXT NOT NULL,
+          duration_seconds INTEGER NOT NULL,
+          distance_meters REAL NOT NULL
+        );
+        
+        CREATE TABLE IF NOT EXISTS mode_examples (
+          example_id TEXT PRIMARY KEY,
+          trip_id TEXT NOT NULL,
+          features TEXT NOT NULL,
+          detected_mode TEXT NOT NULL,
+          confirmed_mode TEXT,
+          created_at TEXT NOT NULL,
+          updated_at TEXT NOT NULL
+        );
+        
+        CREATE TABLE IF NOT EXISTS places (
+          place_id TEXT PRIMARY KEY,
+          name TEXT,
+          place_type TEXT,
+          address TEXT NOT NULL,
+          lat REAL NOT NULL,
+          lon REAL NOT NULL,
+          radius_meters REAL NOT NULL,
+          visit_count INTEGER NOT NULL DEFAULT 0,
+          total_dwell_seconds INTEGER NOT NULL DEFAULT 0,
+          first_visit TEXT NOT NULL,
+          last_visit TEXT NOT NULL,
+          created_at TEXT NOT NULL,
+          updated_at TEXT NOT NULL
+        );
+        
+        CREATE TABLE IF NOT EXISTS geocode_cache (
+          cache_key TEXT PRIMARY KEY,
+          place_name TEXT NOT NULL,
+          source TEXT NOT NULL,
+          created_at TEXT NOT NULL
+        );
+        
+        CREATE TABLE IF NOT EXISTS user_profiles (
+          user_id TEXT PRIMARY KEY,
+          display_name TEXT,
+          avatar_url TEXT,
+          timezone TEXT NOT NULL,
+          language TEXT NOT NULL,
+          created_at TEXT NOT NULL,
+          updated_at TEXT NOT NULL
+        );
+        
+        CREATE INDEX IF NOT EXISTS idx_trip_points_trip_id ON trip_points(trip_id, timestamp);
+        CREATE INDEX IF NOT EXISTS idx_trip_legs_trip_id ON trip_legs(trip_id, leg_number);
+        CREATE INDEX IF NOT EXISTS idx_mode_examples_trip_id ON mode_examples(trip_id);
+      `);
+      
+      await addColumn(db, 'trips', 'travel_mode_probabilities', 'TEXT');
+      await addColumn(db, 'trip_legs', 'travel_mode_probabilities', 'TEXT');
+      await addColumn(db, 'trips', 'origin_place_id', 'TEXT');
+      await addColumn(db, 'trips', 'destination_place_id', 'TEXT');
+      await addColumn(db, 'trips', 'purpose_confidence', 'REAL');
+      if (await addColumn(db, 'trips', 'purpose_confirmed', 'INTEGER NOT NULL DEFAULT 0')) {
+        // Before inference existed, any purpose other than the default was chosen by the user
+        await db.runAsync(`UPDATE trips SET purpose_confirmed = 1 WHERE trip_purpose != 'other'`);
+      }
+      await addColumn(db, 'trips', 'import_source', 'TEXT');
+    },
+    down: async db => {
+      await dropColumn(db, 'trips', 'import_source');
+      await dropColumn(db, 'trips', 'purpose_confirmed');
+      await dropColumn(db, 'trips', 'purpose_confidence');
+      await dropColumn(db, 'trips', 'destination_place_id');
+      await dropColumn(db, 'trips', 'origin_place_id');
+      await dropColumn(db, 'trips', 'travel_mode_probabilities');
+      await db.execAsync(`
+        DROP TABLE IF EXISTS user_profiles;
+        DROP TABLE IF EXISTS geocode_cache;
+        DROP TABLE IF EXISTS places;
+        DROP TABLE IF EXISTS mode_examples;
+        DROP TABLE IF EXISTS trip_legs;
+        DROP TABLE IF EXISTS trip_points;
+      `);
+    }
+  },
+  {
+    version: 3,
+    description: 'Indices for filtered, keyset-paginated trip queries',
+    up: async db => {
+      // Leading user_id indices make the single-column ones they cover redundant
+      await db.execAsync(`
+        DROP INDEX IF EXISTS idx_trips_user_id;
+        DROP INDEX IF EXISTS idx_trips_chain_id;
+        CREATE INDEX idx_trips_user_start ON trips(user_id, start_time, trip_id);
+        CREATE INDEX idx_trips_user_mode ON trips(user_id, ${EFFECTIVE_MODE}, start_time);
+        CREATE INDEX idx_trips_user_purpose ON trips(user_id, trip_purpose, start_time);
+        CREATE INDEX idx_trips_user_synced ON trips(user_id, synced, start_time);
+        CREATE INDEX idx_trips_chain_start ON trips(chain_id, start_time);
+        CREATE INDEX idx_trips_origin ON trips(origin_lat, origin_lon);
+        CREATE INDEX idx_trips_destination ON trips(destination_lat, destination_lon);
+      `);
+    },
+    down: async db => {
+      await db.execAsync(`
+        DROP INDEX IF EXISTS idx_trips_destination;
+        DROP INDEX IF EXISTS idx_trips_origin;
+        DROP INDEX IF EXISTS idx_trips_chain_start;
+        DROP INDEX IF EXISTS idx_trips_user_synced;
+        DROP INDEX IF EXISTS idx_trips_user_purpose;
+        DROP INDEX IF EXISTS idx_trips_user_mode;
+        DROP INDEX IF EXISTS idx_trips_user_start;
+        CREATE INDEX IF NOT EXISTS idx_trips_user_id ON trips(user_id);
+        CREATE INDEX IF NOT EXISTS idx_trips_chain_id ON trips(chain_id);
+      `);
+    }
+  },
+  {
+    version: 4,
+    description: 'Full-text index over trip notes and place names',
+    up: async db => {
+      // Rows share the trip's rowid. INSERT OR REPLACE on trips only fires the
+      // delete trigger with recursive_triggers on, which DatabaseService sets;
+      // searches also match trip_id so a stale row can never surface.
+      await db.execAsync(`
+        CREATE VIRTUAL TABLE trips_fts USING fts5(
+          trip_id UNINDEXED,
+          notes,
+          origin_place_name,
+          destination_place_name,
+          tokenize = 'unicode61 remove_diacritics 2',
+          prefix = '2 3'
+        );
+        
+        INSERT INTO trips_fts (rowid, trip_id, notes, origin_place_name, destination_place_name)
+          SELECT rowid, trip_id, COALESCE(notes, ''), origin_place_name, destination_place_name FROM trips;
+        
+        CREATE TRIGGER trips_fts_insert AFTER INSERT ON trips BEGIN
+          INSERT INTO trips_fts (rowid, trip_id, notes, origin_place_name, destination_place_name)
+            VALUES (new.rowid, new.trip_id, COALESCE(new.notes, ''), new.origin_place_name, new.destination_place_name);
+        END;
+        
+        CREATE TRIGGER trips_fts_delete AFTER DELETE ON trips BEGIN
+          DELETE FROM trips_fts WHERE rowid = old.rowid;
+        END;
+        
+        CREATE TRIGGER trips_fts_update AFTER UPDATE OF notes, origin_place_name, destination_place_name ON trips BEGIN
+          DELETE FROM trips_fts WHERE rowid = old.rowid;
+          INSERT INTO trips_fts (rowid, trip_id, notes, origin_place_name, destination_place_name)
+            VALUES (new.rowid, new.trip_id, COALESCE(new.notes, ''), new.origin_place_name, new.destination_place_name);
+        END;
+      `);
+    },
+    down: async db => {
+      await db.execAsync(`
+        DROP TRIGGER IF EXISTS trips_fts_update;
+        DROP TRIGGER IF EXISTS trips_fts_delete;
+        DROP TRIGGER IF EXISTS trips_fts_insert;
+        DROP TABLE IF EXISTS trips_fts;
+      `);
+    }
+  },
+  {
+    version: 5,
+    description: 'Retry scheduling and dead letters for the sync queue',
+    up: async db => {
+      await addColumn(db, 'sync_queue', 'last_error', 'TEXT');
+      await addColumn(db, 'sync_queue', 'next_attempt_at', 'TEXT');
+      await addColumn(db, 'sync_queue', 'dead_lettered_at', 'TEXT');
+      // Only the latest change to a record needs sending
+      await db.execAsync(`
+        DELETE FROM sync_queue
+        WHERE id NOT IN (SELECT MAX(id) FROM sync_queue GROUP BY table_name, record_id);
+        
+        CREATE INDEX idx_sync_queue_due ON sync_queue(dead_lettered_at, next_attempt_at);
+        CREATE INDEX idx_sync_queue_record ON sync_queue(table_name, record_id);
+      `);
+    },
+    down: async db => {
+      await db.execAsync(`
+        DROP INDEX IF EXISTS idx_sync_queue_record;
+        DROP INDEX IF EXISTS idx_sync_queue_due;
+      `);
+      await dropColumn(db, 'sync_queue', 'dead_lettered_at');
+      await dropColumn(db, 'sync_queue', 'next_attempt_at');
+      await dropColumn(db, 'sync_queue', 'last_error');
+    }
+  },
+  {
+    version: 6,
+    description: 'Per-field trip versions, pull cursor and sync conflicts',
+    up: async db => {
+      await addColumn(db, 'trips', 'field_versions', 'TEXT');
+      await addColumn(db, 'trips', 'synced_versions', 'TEXT');
+      await db.execAsync(`
+        CREATE TABLE sync_state (
+          key TEXT PRIMARY KEY,
+          value TEXT NOT NULL
+        );
+        
+        CREATE TABLE sync_conflicts (
+          trip_id TEXT NOT NULL,
+          field TEXT NOT NULL,
+          local_value TEXT,
+          remote_value TEXT,
+          local_version TEXT NOT NULL,
+          remote_version TEXT NOT NULL,
+          detected_at TEXT NOT NULL,
+          PRIMARY KEY (trip_id, field)
+        );
+      `);
+    },
+    down: async db => {
+      await db.execAsync(`
+        DROP TABLE IF EXISTS sync_conflicts;
+        DROP TABLE IF EXISTS sync_state;
+      `);
+      await dropColumn(db, 'trips', 'synced_versions');
+      await dropColumn(db, 'trips', 'field_versions');
+    }
+  },
+  {
+    version: 7,
+    description: 'Network policy for sync in user preferences',
+    up: async db => {
+      await addColumn(db, 'user_preferences', 'sync_network_policy', "TEXT NOT NULL DEFAULT 'any'");
+    },
+    down: async db => {
+      await dropColumn(db, 'user_preferences', 'sync_network_policy');
+    }
+  },
+  {
+    version: 8,
+    description: 'Raw fixes in trip points, with the noise filter verdict alongside',
+    up: async db => {
+      // Points stored before this kept only the smoothed position, in the
+      // raw columns, and leave these empty
+      await addColumn(db, 'trip_points', 'rejection', 'TEXT');
+      await addColumn(db, 'trip_points', 'filtered_latitude', 'REAL');
+      await addColumn(db, 'trip_points', 'filtered_longitude', 'REAL');
+      await addColumn(db, 'trip_points', 'filtered_accuracy', 'REAL');
+    },
+    down: async db => {
+      await db.execAsync('DELETE FROM trip_points WHERE rejection IS NOT NULL');
+      await db.execAsync(`
+        UPDATE trip_points SET
+          latitude = COALESCE(filtered_latitude, latitude),
+          longitude = COALESCE(filtered_longitude, longitude),
+          accuracy = COALESCE(filtered_accuracy, accuracy)
+      `);
+      await dropColumn(db, 'trip_points', 'filtered_accuracy');
+      await dropColumn(db, 'trip_points', 'filtered_longitude');
+      await dropColumn(db, 'trip_points', 'filtered_latitude');
+      await dropColumn(db, 'trip_points', 'rejection');
+    }
+  },
+  {
+    version: 9,
+    description: 'Owner of each place and queued change',
+    up: async db => {
+      await addColumn(db, 'places', 'user_id', 'TEXT');
+      await addColumn(db, 'sync_queue', 'user_id', 'TEXT');
+      // Places belong to whoever made the trips that start or end there.
+      // Ones no trip leads to any more may still carry a name the user gave,
+      // so they go to the device's latest user rather than away.
+      await db.execAsync(`
+        UPDATE places SET user_id = (
+          SELECT user_id FROM trips
+          WHERE origin_place_id = places.place_id OR destination_place_id = places.place_id
+          LIMIT 1
+        );
+        UPDATE places SET user_id = COALESCE(
+          (SELECT user_id FROM trips ORDER BY start_time DESC LIMIT 1),
+          (SELECT user_id FROM user_profiles ORDER BY updated_at DESC LIMIT 1)
+        )
+        WHERE user_id IS NULL;
+        UPDATE sync_queue SET user_id = json_extract(data, '$.user_id');
+      `);
+    },
+    down: async db => {
+      await dropColumn(db, 'sync_queue', 'user_id');
+      await dropColumn(db, 'places', 'user_id');
+    }
+  },
+  {
+    version: 10,
+    description: 'Owner of each mode example',
+    up: async db => {
+      await addColumn(db, 'mode_examples', 'user_id', 'TEXT');
+      // Leg examples carry their trip's id too
+      await db.execAsync(`
+        UPDATE mode_examples SET user_id = (
+          SELECT user_id FROM trips WHERE trips.trip_id = mode_examples.trip_id
+        );
+      `);
+    },
+    down: async db => {
+      await dropColumn(db, 'mode_examples', 'user_id');
+    }
+  },
+];
+
+export const SCHEMA_VERSION = MIGRATIONS.length;
+
+export const getSchemaVersion = async (db: SQLite.SQLiteDatabase): Promise<number> => {
+  const result = await db.getFirstAsync<{ user_version: number }>('PRAGMA user_version');
+  return result?.user_version ?? 0;
+};
+
+// Upgrades or downgrades to the target version one migration at a time
+export const runMigrations = async (
+  db: SQLite.SQLiteDatabase,
+  targetVersion: number = SCHEMA_VERSION,
+  migrations: Migration[] = MIGRATIONS
+): Promise<void> => {
+  migrations.forEach((migration, index) => {
+    if (migration.version !== index + 1) {
+      throw new Error(`Migration ${migration.version} is out of order; expected ${index + 1}`);
+    }
+  });
+  if (targetVersion < 0 || targetVersion > migrations.length) {
+    throw new Error(`Unknown schema version ${targetVersion}`);
+  }
+  
+  let version = await getSchemaVersion(db);
+  if (version > migrations.length) {
+    throw new Error(`Database schema version ${version} is newer than this app supports (${migrations.length})`);
+  }
+  
+  while (version !== targetVersion) {
+    const upgrading = version < targetVersion;
+    const migration = upgrading ? migrations[version] : migrations[version - 1];
+    const nextVersion = upgrading ? version + 1 : version - 1;
+    
+    await db.withTransactionAsync(async () => {
+      await (upgrading ? migration.up(db) : migration.down(db));
+      // PRAGMA does not take bound parameters; the version is always an integer
+      await db.execAsync(`PRAGMA user_version = ${nextVersion}`);
+    });
+    version = nextVersion;
+  }
+};
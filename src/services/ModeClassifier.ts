@@ -0,0 +1,244 @@
+import { LocationPoint, SensorData, ModeFeatures, TRAVEL_MODES } from '../types';
+import { APP_CONFIG } from '../constants/Config';
+import { calculateDistance } from '../utils/geo';
+import defaultTreeModel from '../models/travel-mode-tree.json';
+
+// Feature-based travel mode classification.
+// A window of fixes and sensor samples is reduced to a feature vector, which a
+// pluggable classifier turns into per-mode probabilities.
+
+export interface ModePrediction {
+  mode: string;
+  confidence: number;
+  probabilities: Record<string, number>;
+}
+
+export interface TravelModeClassifier {
+  classify(features: ModeFeatures): ModePrediction;
+}
+
+const MIN_FEATURE_POINTS = 3;
+const UNKNOWN_MODE_CONFIDENCE = 0.3;
+const MAX_SPECTRUM_SAMPLES = 256;
+
+const percentile = (sorted: number[], p: number): number => {
+  if (sorted.length === 0) return 0;
+  const index = Math.min(sorted.length - 1, Math.max(0, Math.ceil(p * sorted.length) - 1));
+  return sorted[index];
+};
+
+const bearing = (from: LocationPoint, to: LocationPoint): number => {
+  const lat1 = from.latitude * Math.PI / 180;
+  const lat2 = to.latitude * Math.PI / 180;
+  const dLon = (to.longitude - from.longitude) * Math.PI / 180;
+  const y = Math.sin(dLon) * Math.cos(lat2);
+  const x = Math.cos(lat1) * Math.sin(lat2) - Math.sin(lat1) * Math.cos(lat2) * Math.cos(dLon);
+  return (Math.atan2(y, x) * 180 / Math.PI + 360) % 360;
+};
+
+const magnitude = (v: { x: number; y: number; z: number }): number =>
+  Math.sqrt(v.x * v.x + v.y * v.y + v.z * v.z);
+
+const variance = (values: number[]): number => {
+  if (values.length === 0) return 0;
+  const mean = values.reduce((sum, value) => sum + value, 0) / values.length;
+  return values.reduce((sum, value) => sum + Math.pow(value - mean, 2), 0) / values.length;
+};
+
+// Share of spectral energy per frequency band, using a plain DFT over the
+// detrended acceleration magnitude
+const accelerationBands = (samples: SensorData[]): { low: number; mid: number; gait: number } => {
+  const recent = samples.slice(-MAX_SPECTRUM_SAMPLES);
+  if (recent.length < 8) return { low: 0, mid: 0, gait: 0 };
+  
+  const durationSeconds = (recent[recent.length - 1].timestamp - recent[0].timestamp) / 1000;
+  if (durationSeconds <= 0) return { low: 0, mid: 0, gait: 0 };
+  const sampleRate = (recent.length - 1) / durationSeconds;
+  
+  const values = recent.map(sample => magnitude(sample.acceleration));
+  const mean = values.reduce((sum, value) => sum + value, 0) / values.length;
+  const signal = values.map(value => value - mean);
+  const n = signal.length;
+  
+  let low = 0;
+  let mid = 0;
+  let gait = 0;
+  let total = 0;
+  
+  for (let k = 1; k <= Math.floor(n / 2); k++) {
+    let re = 0;
+    let im = 0;
+    for (let t = 0; t < n; t++) {
+      const angle = 2 * Math.PI * k * t / n;
+      re += signal[t] * Math.cos(angle);
+      im -= signal[t] * Math.sin(angle);
+    }
+    const power = re * re + im * im;
+    const frequency = k * sampleRate / n;
+    
+    total += power;
+    if (frequency < 0.5) low += power;
+    else if (frequency < 1.5) mid += power;
+    else if (frequency < 2.5) gait += power;
+  }
+  
+  if (total === 0) return { low: 0, mid: 0, gait: 0 };
+  return { low: low / total, mid: mid / total, gait: gait / total };
+};
+
+export const extractModeFeatures = (points: LocationPoint[], sensorData: SensorData[]): ModeFeatures => {
+  const speeds: number[] = [];
+  const headingChanges: number[] = [];
+  let distance = 0;
+  let stationarySeconds = 0;
+  let stops = 0;
+  let wasStopped = false;
+  
+  for (let i = 1; i < points.length; i++) {
+    const segment = calculateDistance(
+      points[i-1].latitude,
+      points[i-1].longitude,
+      points[i].latitude,
+      points[i].longitude
+    );
+    const timeDiff = (points[i].timestamp - points[i-1].timestamp) / 1000;
+    if (timeDiff <= 0) continue;
+    
+    const speed = segment / timeDiff;
+    speeds.push(speed);
+    distance += segment;
+    
+    const stopped = speed < APP_CONFIG.SEGMENTATION_THRESHOLDS.STOP_SPEED;
+    if (stopped) {
+      stationarySeconds += timeDiff;
+      if (!wasStopped) stops++;
+    }
+    wasStopped = stopped;
+    
+    if (i >= 2 && segment > 0) {
+      const previous = bearing(points[i-2], points[i-1]);
+      const current = bearing(points[i-1], points[i]);
+      let change = Math.abs(current - previous);
+      if (change > 180) change = 360 - change;
+      headingChanges.push(change / timeDiff);
+    }
+  }
+  
+  const sorted = [...speeds].sort((a, b) => a - b);
+  const durationSeconds = points.length > 1 ? (points[points.length - 1].timestamp - points[0].timestamp) / 1000 : 0;
+  
+  const start = points.length > 0 ? points[0].timestamp : 0;
+  const end = points.length > 0 ? points[points.length - 1].timestamp : 0;
+  const windowSamples = sensorData.filter(sample => sample.timestamp >= start && sample.timestamp <= end);
+  const bands = accelerationBands(windowSamples);
+  const gyroMagnitudes = windowSamples.map(sample => magnitude(sample.gyroscope));
+  const magneticMagnitudes = windowSamples.map(sample => magnitude(sample.magnetometer));
+  
+  return {
+    speed_p10: percentile(sorted, 0.1),
+    speed_p50: percentile(sorted, 0.5),
+    speed_p85: percentile(sorted, 0.85),
+    speed_max: sorted.length > 0 ? sorted[sorted.length - 1] : 0,
+    stop_rate: distance > 0 ? stops / (distance / 1000) : 0,
+    stop_fraction: durationSeconds > 0 ? stationarySeconds / durationSeconds : 0,
+    heading_change_rate: headingChanges.length > 0
+      ? headingChanges.reduce((sum, value) => sum + value, 0) / headingChanges.length
+      : 0,
+    accel_std: Math.sqrt(variance(windowSamples.map(sample => magnitude(sample.acceleration)))),
+    low_band_energy: bands.low,
+    mid_band_energy: bands.mid,
+    gait_band_energy: bands.gait,
+    gyro_mean: gyroMagnitudes.length > 0
+      ? gyroMagnitudes.reduce((sum, value) => sum + value, 0) / gyroMagnitudes.length
+      : 0,
+    magnetic_variance: variance(magneticMagnitudes),
+    duration_seconds: durationSeconds,
+    distance_meters: distance
+  };
+};
+
+// Decision tree model as shipped in JSON
+interface TreeLeaf {
+  probabilities: Record<string, number>;
+}
+
+interface TreeSplit {
+  feature: keyof ModeFeatures;
+  threshold: number;
+  left: TreeNode;
+  right: TreeNode;
+}
+
+type TreeNode = TreeLeaf | TreeSplit;
+
+export interface DecisionTreeModel {
+  version: string;
+  tree: TreeNode;
+}
+
+export class DecisionTreeClassifier implements TravelModeClassifier {
+  constructor(private model: DecisionTreeModel) {}
+  
+  classify(features: ModeFeatures): ModePrediction {
+    let node = this.model.tree;
+    while (!('probabilities' in node)) {
+      const value = features[node.feature] ?? 0;
+      node = value <= node.threshold ? node.left : node.right;
+    }
+    
+    // Normalise over the full mode taxonomy so every mode has an entry
+    const probabilities: Record<string, number> = {};
+    let total = 0;
+    for (const mode of TRAVEL_MODES) {
+      probabilities[mode] = node.probabilities[mode] || 0;
+      total += probabilities[mode];
+    }
+    if (total > 0) {
+      for (const mode of TRAVEL_MODES) {
+        probabilities[mode] /= total;
+      }
+    } else {
+      probabilities.other = 1;
+    }
+    
+    return predictionFromProbabilities(probabilities);
+  }
+}
+
+export const predictionFromProbabilities = (probabilities: Record<string, number>): ModePrediction => {
+  let mode = 'other';
+  let confidence = 0;
+  for (const [candidate, probability] of Object.entries(probabilities)) {
+    if (probability > confidence) {
+      mode = candidate;
+      confidence = probability;
+    }
+  }
+  return { mode, confidence, probabilities };
+};
+
+// Prediction used when a window has too few fixes to say anything: a weak
+// "other", with the rest spread evenly over the remaining modes
+export const unknownModePrediction = (): ModePrediction => {
+  const probabilities: Record<string, number> = {};
+  const remainder = (1 - UNKNOWN_MODE_CONFIDENCE) / (TRAVEL_MODES.length - 1);
+  for (const mode of TRAVEL_MODES) {
+    probabilities[mode] = mode === 'other' ? UNKNOWN_MODE_CONFIDENCE : remainder;
+  }
+  return predictionFromProbabilities(probabilities);
+};
+
+export const classifyWindow = (
+  classifier: TravelModeClassifier,
+  points: LocationPoint[],
+  sensorData: SensorData[]
+): ModePrediction => {
+  if (points.length < MIN_FEATURE_POINTS) {
+    return unknownModePrediction();
+  }
+  return classifier.classify(extractModeFeatures(points, sensorData));
+};
+
+export const defaultModeClassifier: TravelModeClassifier = new DecisionTreeClassifier(
+  defaultTreeModel as unknown as DecisionTreeModel
+);
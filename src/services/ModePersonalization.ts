@@ -0,0 +1,116 @@
+import { ModeFeatures, ModeExample, TRAVEL_MODES } from '../types';
+import { APP_CONFIG } from '../constants/Config';
+import { TravelModeClassifier, ModePrediction, predictionFromProbabilities } from './ModeClassifier';
+
+// Adapts a base classifier to one user using trips they have corrected.
+// The user's own mode mix acts as a prior, and labelled examples close to the
+// current features vote for their confirmed mode - so someone who cycles fast
+// stops being labelled as public transport after a few corrections.
+
+export interface PersonalizationConfig {
+  neighbours: number;
+  neighbourRadius: number;
+  maxExampleWeight: number;
+  priorStrength: number;
+}
+
+export const DEFAULT_PERSONALIZATION_CONFIG: PersonalizationConfig = {
+  neighbours: APP_CONFIG.MODE_PERSONALIZATION.NEIGHBOURS,
+  neighbourRadius: APP_CONFIG.MODE_PERSONALIZATION.NEIGHBOUR_RADIUS,
+  maxExampleWeight: APP_CONFIG.MODE_PERSONALIZATION.MAX_EXAMPLE_WEIGHT,
+  priorStrength: APP_CONFIG.MODE_PERSONALIZATION.PRIOR_STRENGTH,
+};
+
+// Features compared between trips, with the scale that counts as "one unit" apart
+const FEATURE_SCALES: Partial<Record<keyof ModeFeatures, number>> = {
+  speed_p50: 2, // m/s
+  speed_p85: 3,
+  stop_rate: 2, // stops per km
+  stop_fraction: 0.25,
+  gait_band_energy: 0.3,
+  gyro_mean: 0.3, // rad/s
+  heading_change_rate: 5, // degrees per second
+};
+
+const featureDistance = (a: ModeFeatures, b: ModeFeatures): number => {
+  let sum = 0;
+  for (const [feature, scale] of Object.entries(FEATURE_SCALES)) {
+    const key = feature as keyof ModeFeatures;
+    const diff = ((a[key] ?? 0) - (b[key] ?? 0)) / scale!;
+    sum += diff * diff;
+  }
+  return Math.sqrt(sum);
+};
+
+const normalize = (probabilities: Record<string, number>): Record<string, number> => {
+  const total = Object.values(probabilities).reduce((sum, value) => sum + value, 0);
+  if (total <= 0) return probabilities;
+  const normalized: Record<string, number> = {};
+  for (const [mode, probability] of Object.entries(probabilities)) {
+    normalized[mode] = probability / total;
+  }
+  return normalized;
+};
+
+export class PersonalizedModeClassifier implements TravelModeClassifier {
+  private config: PersonalizationConfig;
+  private labelled: ModeExample[];
+  private priorWeights: Record<string, number> = {};
+  
+  constructor(
+    private base: TravelModeClassifier,
+    examples: ModeExample[],
+    config: Partial<PersonalizationConfig> = {}
+  ) {
+    this.config = { ...DEFAULT_PERSONALIZATION_CONFIG, ...config };
+    this.labelled = examples.filter(example => example.confirmed_mode !== null);
+    
+    // Laplace-smoothed share of each mode in the user's confirmations,
+    // relative to a uniform mix
+    const counts: Record<string, number> = {};
+    for (const example of this.labelled) {
+      counts[example.confirmed_mode!] = (counts[example.confirmed_mode!] || 0) + 1;
+    }
+    for (const mode of TRAVEL_MODES) {
+      const share = ((counts[mode] || 0) + 1) / (this.labelled.length + TRAVEL_MODES.length);
+      this.priorWeights[mode] = Math.pow(share * TRAVEL_MODES.length, this.config.priorStrength);
+    }
+  }
+  
+  classify(features: ModeFeatures): ModePrediction {
+    const base = this.base.classify(features);
+    if (this.labelled.length === 0) return base;
+    
+    const withPrior: Record<string, number> = {};
+    for (const mode of TRAVEL_MODES) {
+      withPrior[mode] = (base.probabilities[mode] || 0) * this.priorWeights[mode];
+    }
+    const adjusted = normalize(withPrior);
+    
+    // Nearest labelled examples vote, weighted by closeness
+    const nearest = this.labelled
+      .map(example => ({ example, distance: featureDistance(features, example.features) }))
+      .filter(candidate => candidate.distance <= this.config.neighbourRadius)
+      .sort((a, b) => a.distance - b.distance)
+      .slice(0, this.config.neighbours);
+    
+    if (nearest.length === 0) {
+      return predictionFromProbabilities(adjusted);
+    }
+    
+    const votes: Record<string, number> = {};
+    for (const { example, distance } of nearest) {
+      votes[example.confirmed_mode!] = (votes[example.confirmed_mode!] || 0) + 1 / (1 + distance);
+    }
+    const voteShares = normalize(votes);
+    
+    // More agreeing neighbours earn the examples a bigger say
+    const exampleWeight = this.config.maxExampleWeight * nearest.length / this.config.neighbours;
+    const combined: Record<string, number> = {};
+    for (const mode of TRAVEL_MODES) {
+      combined[mode] = (1 - exampleWeight) * adjusted[mode] + exampleWeight * (voteShares[mode] || 0);
+    }
+    
+    return predictionFromProbabilities(combined);
+  }
+}
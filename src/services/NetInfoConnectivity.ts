@@ -0,0 +1,75 @@
+import { Platform } from 'react-native';
+import NetInfo, { NetInfoState, NetInfoStateType } from '@react-native-community/netinfo';
+import * as Cellular from 'expo-cellular';
+import * as Location from 'expo-location';
+import { SourceSubscription } from './DetectionSources';
+import { ConnectivitySource, NetworkState, NetworkType, OFFLINE } from './Connectivity';
+
+// Connectivity source backed by the platform's network state
+
+const NETWORK_TYPES: Partial<Record<NetInfoStateType, NetworkType>> = {
+  [NetInfoStateType.wifi]: 'wifi',
+  [NetInfoStateType.cellular]: 'cellular',
+  [NetInfoStateType.ethernet]: 'ethernet',
+};
+
+export const toNetworkState = (state: NetInfoState, roaming: boolean | null = null): NetworkState => {
+  // Unknown until the platform first reports
+  if (!state.isConnected) return OFFLINE;
+  
+  const type = NETWORK_TYPES[state.type] ?? 'other';
+  return {
+    // Reachability is null while it is being checked
+    connected: state.isInternetReachable !== false,
+    type,
+    // Cellular data is assumed to cost money unless the platform says otherwise
+    metered: state.details?.isConnectionExpensive ?? type === 'cellular',
+    roaming,
+  };
+};
+
+// NetInfo does not report roaming, so compare the country the phone is in
+// with its SIM's home country. iOS no longer reports the SIM's country;
+// there, and whenever either country is unknown, roaming stays unknown.
+export const detectRoaming = async (): Promise<boolean | null> => {
+  if (Platform.OS !== 'android') return null;
+  
+  try {
+    const homeCountry = await Cellular.getIsoCountryCodeAsync();
+    const position = await Location.getLastKnownPositionAsync();
+    if (!homeCountry || !position) return null;
+    
+    const [address] = await Location.reverseGeocodeAsync(position.coords);
+    if (!address?.isoCountryCode) return null;
+    return address.isoCountryCode.toLowerCase() !== homeCountry.toLowerCase();
+  } catch (error) {
+    console.error('Failed to detect roaming:', error);
+    return null;
+  }
+};
+
+export class NetInfoConnectivitySource implements ConnectivitySource {
+  async current(): Promise<NetworkState> {
+    return this.read(await NetInfo.fetch());
+  }
+  
+  addListener(listener: (state: NetworkState) => void): SourceSubscription {
+    let latest = 0;
+    const unsubscribe = NetInfo.addEventListener(state => {
+      const change = ++latest;
+      this.read(state).then(network => {
+        // A slow roaming check must not report over a newer change
+        if (change === latest) listener(network);
+      });
+    });
+    return { remove: unsubscribe };
+  }
+  
+  // Only cellular networks roam, so only they are checked
+  private async read(state: NetInfoState): Promise<NetworkState> {
+    const network = toNetworkState(state);
+    return network.type === 'cellular' ? toNetworkState(state, await detectRoaming()) : network;
+  }
+}
+
+export const netInfoConnectivity = new NetInfoConnectivitySource();
@@ -0,0 +1,239 @@
+import { TripEndpoints, PlaceType } from '../types';
+import { APP_CONFIG } from '../constants/Config';
+import { calculateDistance } from '../utils/geo';
+
+// Stay-point clustering over trip endpoints.
+// Every trip destination is a stay that lasts until the next trip leaves.
+// Stays close to each other are clustered into places, and each place's
+// dwell pattern (nights, weekday office hours) suggests home/work/education.
+
+export interface StayPoint {
+  trip_id: string;
+  endpoint: 'origin' | 'destination';
+  lat: number;
+  lon: number;
+  arrival: number; // epoch milliseconds
+  departure: number | null; // null when unknown (still there, or data missing)
+  place_name: string;
+  purpose: string | null; // purpose of the trip that arrived here
+}
+
+export interface PlaceCluster {
+  lat: number;
+  lon: number;
+  stays: StayPoint[];
+}
+
+export interface PlaceSummary {
+  visit_count: number;
+  total_dwell_seconds: number;
+  night_dwell_seconds: number; // 22:00 - 06:00
+  daytime_dwell_seconds: number; // weekdays 08:00 - 18:00
+  daytime_days: number; // distinct weekdays with daytime dwell
+  purposes: Record<string, number>;
+  address: string;
+  first_visit: number;
+  last_visit: number;
+}
+
+export interface PlaceClusteringConfig {
+  radius: number;
+  maxStayHours: number;
+  homeMinNightHours: number;
+  workMinDaytimeHours: number;
+  minRegularDays: number;
+}
+
+export const DEFAULT_PLACE_CLUSTERING_CONFIG: PlaceClusteringConfig = {
+  radius: APP_CONFIG.PLACES.CLUSTER_RADIUS,
+  maxStayHours: APP_CONFIG.PLACES.MAX_STAY_HOURS,
+  homeMinNightHours: APP_CONFIG.PLACES.HOME_MIN_NIGHT_HOURS,
+  workMinDaytimeHours: APP_CONFIG.PLACES.WORK_MIN_DAYTIME_HOURS,
+  minRegularDays: APP_CONFIG.PLACES.MIN_REGULAR_DAYS,
+};
+
+const DWELL_SLICE_MS = 15 * 60 * 1000;
+const UNKNOWN_PLACE_NAME = 'Unknown Location';
+
+export const extractStayPoints = (
+  trips: TripEndpoints[],
+  config: Partial<PlaceClusteringConfig> = {}
+): StayPoint[] => {
+  const { radius } = { ...DEFAULT_PLACE_CLUSTERING_CONFIG, ...config };
+  const sorted = [...trips].sort((a, b) => a.start_time.localeCompare(b.start_time));
+  const stays: StayPoint[] = [];
+  
+  sorted.forEach((trip, index) => {
+    const start = new Date(trip.start_time).getTime();
+    const previous = sorted[index - 1];
+    
+    // The origin is only a stay of its own when the previous trip did not end here
+    const continuesFromPrevious = previous && calculateDistance(
+      previous.destination.lat,
+      previous.destination.lon,
+      trip.origin.lat,
+      trip.origin.lon
+    ) <= radius;
+    if (!continuesFromPrevious) {
+      stays.push({
+        trip_id: trip.trip_id,
+        endpoint: 'origin',
+        lat: trip.origin.lat,
+        lon: trip.origin.lon,
+        arrival: start,
+        departure: start,
+        place_name: trip.origin.place_name,
+        purpose: null
+      });
+    }
+    
+    const next = sorted[index + 1];
+    const leavesFromHere = next && calculateDistance(
+      trip.destination.lat,
+      trip.destination.lon,
+      next.origin.lat,
+      next.origin.lon
+    ) <= radius;
+    stays.push({
+      trip_id: trip.trip_id,
+      endpoint: 'destination',
+      lat: trip.destination.lat,
+      lon: trip.destination.lon,
+      arrival: new Date(trip.end_time).getTime(),
+      departure: leavesFromHere ? new Date(next.start_time).getTime() : null,
+      place_name: trip.destination.place_name,
+      purpose: trip.trip_purpose
+    });
+  });
+  
+  return stays;
+};
+
+export const clusterStayPoints = (
+  stays: StayPoint[],
+  config: Partial<PlaceClusteringConfig> = {}
+): PlaceCluster[] => {
+  const { radius } = { ...DEFAULT_PLACE_CLUSTERING_CONFIG, ...config };
+  const clusters: PlaceCluster[] = [];
+  
+  for (const stay of stays) {
+    let nearest: PlaceCluster | null = null;
+    let nearestDistance = Infinity;
+    for (const cluster of clusters) {
+      const distance = calculateDistance(cluster.lat, cluster.lon, stay.lat, stay.lon);
+      if (distance <= radius && distance < nearestDistance) {
+        nearest = cluster;
+        nearestDistance = distance;
+      }
+    }
+    
+    if (nearest) {
+      // Running mean keeps the centroid at the middle of all stays
+      const count = nearest.stays.length;
+      nearest.lat = (nearest.lat * count + stay.lat) / (count + 1);
+      nearest.lon = (nearest.lon * count + stay.lon) / (count + 1);
+      nearest.stays.push(stay);
+    } else {
+      clusters.push({ lat: stay.lat, lon: stay.lon, stays: [stay] });
+    }
+  }
+  
+  return clusters;
+};
+
+export const summarizePlace = (
+  cluster: PlaceCluster,
+  config: Partial<PlaceClusteringConfig> = {}
+): PlaceSummary => {
+  const { maxStayHours } = { ...DEFAULT_PLACE_CLUSTERING_CONFIG, ...config };
+  let total = 0;
+  let night = 0;
+  let daytime = 0;
+  const daytimeDays = new Set<string>();
+  const purposes: Record<string, number> = {};
+  let address = UNKNOWN_PLACE_NAME;
+  let latestNamedVisit = -Infinity;
+  
+  for (const stay of cluster.stays) {
+    if (stay.purpose) {
+      purposes[stay.purpose] = (purposes[stay.purpose] || 0) + 1;
+    }
+    if (stay.place_name && stay.place_name !== UNKNOWN_PLACE_NAME && stay.arrival > latestNamedVisit) {
+      address = stay.place_name;
+      latestNamedVisit = stay.arrival;
+    }
+    if (stay.departure === null) continue;
+    
+    // Walk the stay in slices so nights and office hours are counted in local time
+    const end = Math.min(stay.departure, stay.arrival + maxStayHours * 3600 * 1000);
+    for (let t = stay.arrival; t < end; t += DWELL_SLICE_MS) {
+      const slice = Math.min(DWELL_SLICE_MS, end - t) / 1000;
+      const moment = new Date(t);
+      const hour = moment.getHours();
+      const day = moment.getDay();
+      
+      total += slice;
+      if (hour >= 22 || hour < 6) {
+        night += slice;
+      }
+      if (day >= 1 && day <= 5 && hour >= 8 && hour < 18) {
+        daytime += slice;
+        daytimeDays.add(moment.toDateString());
+      }
+    }
+  }
+  
+  const arrivals = cluster.stays.map(stay => stay.arrival);
+  return {
+    visit_count: cluster.stays.length,
+    total_dwell_seconds: Math.round(total),
+    night_dwell_seconds: Math.round(night),
+    daytime_dwell_seconds: Math.round(daytime),
+    daytime_days: daytimeDays.size,
+    purposes,
+    address,
+    first_visit: Math.min(...arrivals),
+    last_visit: Math.max(...arrivals)
+  };
+};
+
+// Home is where most nights are spent; work and education are the regular
+// weekday daytime places, told apart by the purposes the user gave trips there
+export const inferPlaceTypes = (
+  summaries: PlaceSummary[],
+  config: Partial<PlaceClusteringConfig> = {}
+): Array<PlaceType | null> => {
+  const { homeMinNightHours, workMinDaytimeHours, minRegularDays } = { ...DEFAULT_PLACE_CLUSTERING_CONFIG, ...config };
+  const types: Array<PlaceType | null> = summaries.map(() => null);
+  
+  let home = -1;
+  summaries.forEach((summary, index) => {
+    if (
+      summary.night_dwell_seconds >= homeMinNightHours * 3600 &&
+      (home < 0 || summary.night_dwell_seconds > summaries[home].night_dwell_seconds)
+    ) {
+      home = index;
+    }
+  });
+  if (home >= 0) {
+    types[home] = 'home';
+  }
+  
+  const candidates = summaries
+    .map((summary, index) => ({ summary, index }))
+    .filter(({ summary, index }) =>
+      index !== home &&
+      summary.daytime_dwell_seconds >= workMinDaytimeHours * 3600 &&
+      summary.daytime_days >= minRegularDays
+    )
+    .sort((a, b) => b.summary.daytime_dwell_seconds - a.summary.daytime_dwell_seconds);
+  
+  for (const { summary, index } of candidates) {
+    const type: PlaceType = (summary.purposes.education || 0) > (summary.purposes.work || 0) ? 'education' : 'work';
+    if (!types.includes(type)) {
+      types[index] = type;
+    }
+  }
+  
+  return types;
+};
@@ -0,0 +1,143 @@
+import { v4 as uuidv4 } from 'uuid';
+import { Place, Location as TripLocation } from '../types';
+import { APP_CONFIG } from '../constants/Config';
+import { databaseService } from './DatabaseService';
+import { extractStayPoints, clusterStayPoints, summarizePlace, inferPlaceTypes } from './PlaceClustering';
+import { calculateDistance } from '../utils/geo';
+import { formatPlaceType } from '../utils/formatters';
+
+export class PlaceService {
+  private places: { userId: string; places: Place[] } | null = null; // last user's, cached
+  
+  // Re-cluster the user's trip endpoints into places, keeping ids and names
+  // of places that are still there, and point trips at their places
+  async rebuildPlaces(userId: string): Promise<Place[]> {
+    const trips = await databaseService.getTripEndpoints(userId);
+    const existing = await databaseService.getPlaces(userId);
+    const stays = extractStayPoints(trips);
+    const clusters = clusterStayPoints(stays);
+    const summaries = clusters.map(cluster => summarizePlace(cluster));
+    const types = inferPlaceTypes(summaries);
+    const now = new Date().toISOString();
+    const radius = APP_CONFIG.PLACES.CLUSTER_RADIUS;
+    
+    const matched = new Set<string>();
+    const places: Place[] = clusters.map((cluster, index) => {
+      const previous = this.nearestPlace(existing.filter(place => !matched.has(place.place_id)), cluster.lat, cluster.lon, radius);
+      if (previous) {
+        matched.add(previous.place_id);
+      }
+      const summary = summaries[index];
+      return {
+        place_id: previous?.place_id ?? uuidv4(),
+        user_id: userId,
+        name: previous?.name ?? null,
+        place_type: types[index],
+        address: summary.address,
+        lat: cluster.lat,
+        lon: cluster.lon,
+        radius_meters: radius,
+        visit_count: summary.visit_count,
+        total_dwell_seconds: summary.total_dwell_seconds,
+        first_visit: new Date(summary.first_visit).toISOString(),
+        last_visit: new Date(summary.last_visit).toISOString(),
+        created_at: previous?.created_at ?? now,
+        updated_at: now
+      };
+    });
+    
+    // Places the user named stay even if no trip ends there any more
+    for (const place of existing) {
+      if (!matched.has(place.place_id) && place.name) {
+        places.push(place);
+      }
+    }
+    
+    await databaseService.replacePlaces(userId, places);
+    
+    const assignments = new Map<string, { trip_id: string; origin_place_id: string | null; destination_place_id: string | null }>();
+    for (const trip of trips) {
+      assignments.set(trip.trip_id, { trip_id: trip.trip_id, origin_place_id: null, destination_place_id: null });
+    }
+    clusters.forEach((cluster, index) => {
+      for (const stay of cluster.stays) {
+        const assignment = assignments.get(stay.trip_id)!;
+        if (stay.endpoint === 'origin') {
+          assignment.origin_place_id = places[index].place_id;
+        } else {
+          assignment.destination_place_id = places[index].place_id;
+        }
+      }
+    });
+    
+    // A trip that continues from the previous one starts where that one ended
+    const sorted = [...trips].sort((a, b) => a.start_time.localeCompare(b.start_time));
+    for (let i = 1; i < sorted.length; i++) {
+      const assignment = assignments.get(sorted[i].trip_id)!;
+      if (!assignment.origin_place_id) {
+        assignment.origin_place_id = assignments.get(sorted[i-1].trip_id)!.destination_place_id;
+      }
+    }
+    await databaseService.setTripPlaces(Array.from(assignments.values()));
+    
+    this.places = { userId, places };
+    return places;
+  }
+  
+  async getPlaces(userId: string): Promise<Place[]> {
+    if (this.places?.userId !== userId) {
+      this.places = { userId, places: await databaseService.getPlaces(userId) };
+    }
+    return this.places.places;
+  }
+  
+  async findPlace(userId: string, latitude: number, longitude: number): Promise<Place | null> {
+    const places = await this.getPlaces(userId);
+    return this.nearestPlace(places, latitude, longitude);
+  }
+  
+  // Snap a trip endpoint to one of the user's places, if there is one nearby
+  async snapToPlace(userId: string, latitude: number, longitude: number): Promise<TripLocation | null> {
+    const place = await this.findPlace(userId, latitude, longitude);
+    if (!place) return null;
+    
+    return {
+      lat: place.lat,
+      lon: place.lon,
+      place_name: this.getDisplayName(place),
+      place_id: place.place_id
+    };
+  }
+  
+  async namePlace(userId: string, placeId: string, name: string): Promise<void> {
+    const trimmed = name.trim();
+    await databaseService.updatePlaceName(placeId, trimmed || null);
+    this.places = null;
+    
+    const place = (await this.getPlaces(userId)).find(candidate => candidate.place_id === placeId);
+    if (place) {
+      await databaseService.renamePlaceInTrips(placeId, this.getDisplayName(place));
+    }
+  }
+  
+  getDisplayName(place: Place): string {
+    if (place.name) return place.name;
+    if (place.place_type) return formatPlaceType(place.place_type);
+    return place.address;
+  }
+  
+  private nearestPlace(places: Place[], latitude: number, longitude: number, maxDistance?: number): Place | null {
+    let nearest: Place | null = null;
+    let nearestDistance = Infinity;
+    for (const place of places) {
+      const distance = calculateDistance(place.lat, place.lon, latitude, longitude);
+      if (distance <= (maxDistance ?? place.radius_meters) && distance < nearestDistance) {
+        nearest = place;
+        nearestDistance = distance;
+      }
+    }
+    return nearest;
+  }
+}
+
+export const placeService = new PlaceService();
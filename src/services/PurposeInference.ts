@@ -0,0 +1,113 @@
+import { Place, PlaceType, PurposeSuggestion, PurposeHistoryEntry, TripPurpose, TRIP_PURPOSES } from '../types';
+import { APP_CONFIG } from '../constants/Config';
+
+// Trip purpose suggestions.
+// Each purpose starts from how often the user has confirmed it, and is then
+// scaled by evidence: the destination's place type, what the user said about
+// the same place before, the arrival time and how long they stayed.
+
+export interface PurposeContext {
+  destinationPlace: Place | null;
+  arrival: number; // epoch milliseconds
+  dwellSeconds: number | null; // unknown until the next trip starts
+  history: PurposeHistoryEntry[];
+}
+
+type PurposeFactors = Partial<Record<TripPurpose, number>>;
+
+const PLACE_TYPE_PURPOSE: Record<PlaceType, TripPurpose> = {
+  home: 'home',
+  work: 'work',
+  education: 'education',
+};
+
+// Arrival time profiles, by local hour
+const timeOfDayFactors = (arrival: number): PurposeFactors => {
+  const moment = new Date(arrival);
+  const hour = moment.getHours();
+  const weekend = moment.getDay() === 0 || moment.getDay() === 6;
+  
+  let factors: PurposeFactors;
+  if (hour >= 6 && hour < 11) {
+    factors = { work: 2.5, education: 2.5, healthcare: 1.2, home: 0.5 };
+  } else if (hour >= 11 && hour < 17) {
+    factors = { shopping: 1.5, personal_business: 1.5, healthcare: 1.5, social: 1.2 };
+  } else if (hour >= 17 && hour < 21) {
+    factors = { home: 1.8, shopping: 1.5, recreation: 1.5, social: 1.5, work: 0.6, education: 0.5 };
+  } else {
+    factors = { home: 3, recreation: 1.2, work: 0.5, education: 0.3, shopping: 0.5 };
+  }
+  
+  if (weekend) {
+    factors = {
+      ...factors,
+      work: (factors.work ?? 1) * 0.5,
+      education: (factors.education ?? 1) * 0.3,
+      recreation: (factors.recreation ?? 1) * 1.5,
+      social: (factors.social ?? 1) * 1.5,
+    };
+  }
+  return factors;
+};
+
+// How long the user stayed at the destination
+const dwellFactors = (dwellSeconds: number): PurposeFactors => {
+  const hours = dwellSeconds / 3600;
+  if (hours < 1 / 3) return { personal_business: 2, shopping: 1.5, work: 0.3, education: 0.3, home: 0.5 };
+  if (hours < 2) return { shopping: 1.5, healthcare: 1.5, social: 1.3, recreation: 1.3, personal_business: 1.2 };
+  if (hours < 6) return { recreation: 1.3, social: 1.3, work: 1.5, education: 1.5 };
+  if (hours < 14) return { work: 2.5, education: 2, home: 1.5 };
+  return { home: 3 };
+};
+
+// Laplace-smoothed share of each purpose, relative to a uniform mix
+const historyFactors = (entries: PurposeHistoryEntry[]): PurposeFactors => {
+  const counts: Record<string, number> = {};
+  for (const entry of entries) {
+    counts[entry.purpose] = (counts[entry.purpose] || 0) + 1;
+  }
+  const factors: PurposeFactors = {};
+  for (const purpose of TRIP_PURPOSES) {
+    factors[purpose] = ((counts[purpose] || 0) + 1) / (entries.length + TRIP_PURPOSES.length) * TRIP_PURPOSES.length;
+  }
+  return factors;
+};
+
+const applyFactors = (scores: Record<string, number>, factors: PurposeFactors): void => {
+  for (const [purpose, factor] of Object.entries(factors)) {
+    scores[purpose] *= factor!;
+  }
+};
+
+export const suggestPurposes = (context: PurposeContext, limit: number = 3): PurposeSuggestion[] => {
+  const scores: Record<string, number> = {};
+  for (const purpose of TRIP_PURPOSES) {
+    scores[purpose] = 1;
+  }
+  
+  applyFactors(scores, historyFactors(context.history));
+  
+  const place = context.destinationPlace;
+  if (place) {
+    if (place.place_type) {
+      applyFactors(scores, { [PLACE_TYPE_PURPOSE[place.place_type]]: APP_CONFIG.PURPOSE_INFERENCE.PLACE_TYPE_WEIGHT });
+    }
+    
+    const placeHistory = context.history.filter(entry => entry.destination_place_id === place.place_id);
+    if (placeHistory.length > 0) {
+      applyFactors(scores, historyFactors(placeHistory));
+    }
+  }
+  
+  applyFactors(scores, timeOfDayFactors(context.arrival));
+  
+  if (context.dwellSeconds !== null) {
+    applyFactors(scores, dwellFactors(context.dwellSeconds));
+  }
+  
+  const total = Object.values(scores).reduce((sum, score) => sum + score, 0);
+  return TRIP_PURPOSES
+    .map(purpose => ({ purpose, confidence: total > 0 ? scores[purpose] / total : 0 }))
+    .sort((a, b) => b.confidence - a.confidence)
+    .slice(0, limit);
+};
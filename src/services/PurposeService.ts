@@ -0,0 +1,64 @@
+import { Trip, PurposeSuggestion } from '../types';
+import { APP_CONFIG } from '../constants/Config';
+import { databaseService } from './DatabaseService';
+import { placeService } from './PlaceService';
+import { suggestPurposes } from './PurposeInference';
+
+export class PurposeService {
+  async suggestForTrip(trip: Trip, limit: number = 3): Promise<PurposeSuggestion[]> {
+    const history = await databaseService.getConfirmedPurposes(trip.user_id, APP_CONFIG.PURPOSE_INFERENCE.HISTORY_LIMIT);
+    
+    const places = await placeService.getPlaces(trip.user_id);
+    const destinationPlace = trip.destination.place_id
+      ? places.find(place => place.place_id === trip.destination.place_id) ?? null
+      : await placeService.findPlace(trip.user_id, trip.destination.lat, trip.destination.lon);
+    
+    return suggestPurposes({
+      destinationPlace,
+      arrival: new Date(trip.end_time).getTime(),
+      dwellSeconds: await this.getDwellSeconds(trip),
+      history
+    }, limit);
+  }
+  
+  // Best guess to prefill; weak guesses stay 'other'
+  async inferPurpose(trip: Trip): Promise<Pick<Trip, 'trip_purpose' | 'purpose_confidence'>> {
+    const [best] = await this.suggestForTrip(trip, 1);
+    if (!best || best.confidence < APP_CONFIG.PURPOSE_INFERENCE.MIN_CONFIDENCE) {
+      return { trip_purpose: 'other', purpose_confidence: best?.confidence };
+    }
+    return { trip_purpose: best.purpose, purpose_confidence: best.confidence };
+  }
+  
+  // A new trip tells us how long the user stayed at the previous destination,
+  // which sharpens that trip's guess unless the user already picked a purpose
+  async refinePreviousTrip(trip: Trip): Promise<void> {
+    const previous = await databaseService.getPreviousTrip(trip.user_id, trip.start_time);
+    if (!previous || previous.purpose_confirmed) return;
+    
+    const inferred = await this.inferPurpose(previous);
+    if (
+      inferred.trip_purpose === previous.trip_purpose &&
+      inferred.purpose_confidence === previous.purpose_confidence
+    ) {
+      return;
+    }
+    
+    await databaseService.saveTrip({
+      ...previous,
+      ...inferred,
+      updated_at: new Date().toISOString()
+    });
+  }
+  
+  private async getDwellSeconds(trip: Trip): Promise<number | null> {
+    if (!trip.end_time) return null;
+    
+    const nextStart = await databaseService.getNextTripStartTime(trip.user_id, trip.end_time);
+    if (!nextStart) return null;
+    
+    return (new Date(nextStart).getTime() - new Date(trip.end_time).getTime()) / 1000;
+  }
+}
+
+export const purposeService = new PurposeService();
@@ -0,0 +1,197 @@
+import { APP_CONFIG } from '../constants/Config';
+import {
+  DetectionSources,
+  DetectionClock,
+  LocationSource,
+  LocationFix,
+  LocationPermissions,
+  LocationWatchOptions,
+  SensorSource,
+  SensorKind,
+  SensorReading,
+  SourceSubscription
+} from './DetectionSources';
+import { RecordedTrace } from './TraceFormats';
+
+// Detection sources that play back a recorded trace.
+// Time is the trace's own: the clock jumps from one recorded event to the
+// next, firing interval timers on the way, so a replay gives the same trips
+// whether it runs in real time, accelerated or as fast as possible.
+
+interface ClockTimer {
+  callback: () => void;
+  interval: number;
+  due: number;
+}
+
+export class ReplayClock implements DetectionClock {
+  private timers = new Set<ClockTimer>();
+  
+  constructor(private time: number) {}
+  
+  now(): number {
+    return this.time;
+  }
+  
+  setInterval(callback: () => void, interval: number): SourceSubscription {
+    const timer: ClockTimer = { callback, interval, due: this.time + interval };
+    this.timers.add(timer);
+    return { remove: () => this.timers.delete(timer) };
+  }
+  
+  // Move time forward, running every timer that falls due on the way in order
+  advanceTo(time: number): void {
+    for (;;) {
+      let next: ClockTimer | null = null;
+      for (const timer of this.timers) {
+        if (timer.due <= time && (!next || timer.due < next.due)) {
+          next = timer;
+        }
+      }
+      if (!next) break;
+      
+      this.time = Math.max(this.time, next.due);
+      next.due += next.interval;
+      next.callback();
+    }
+    this.time = Math.max(this.time, time);
+  }
+}
+
+export class ReplayLocationSource implements LocationSource {
+  private listeners = new Set<(fix: LocationFix) => void>();
+  
+  constructor(private permissions: LocationPermissions = { foreground: true, background: true }) {}
+  
+  async requestPermissions(): Promise<LocationPermissions> {
+    return this.permissions;
+  }
+  
+  // Recorded fixes are delivered as they are; the trace already reflects
+  // whatever sampling it was recorded with
+  async watchPosition(_options: LocationWatchOptions, callback: (fix: LocationFix) => void): Promise<SourceSubscription> {
+    this.listeners.add(callback);
+    return { remove: () => this.listeners.delete(callback) };
+  }
+  
+  emit(fix: LocationFix): void {
+    this.listeners.forEach(listener => listener(fix));
+  }
+}
+
+export class ReplaySensorSource implements SensorSource {
+  private listeners: Record<SensorKind, Set<(reading: SensorReading) => void>> = {
+    accelerometer: new Set(),
+    gyroscope: new Set(),
+    magnetometer: new Set(),
+  };
+  
+  async setUpdateInterval(): Promise<void> {
+    // Recorded samples keep their recorded rate
+  }
+  
+  addListener(sensor: SensorKind, listener: (reading: SensorReading) => void): SourceSubscription {
+    this.listeners[sensor].add(listener);
+    return { remove: () => this.listeners[sensor].delete(listener) };
+  }
+  
+  emit(sensor: SensorKind, reading: SensorReading): void {
+    this.listeners[sensor].forEach(listener => listener(reading));
+  }
+}
+
+export interface ReplayOptions {
+  speed: number; // 1 = real time, 60 = a minute per second, Infinity = no waiting
+  settleSeconds: number; // trace time added after the last event so pending stops confirm
+}
+
+export const DEFAULT_REPLAY_OPTIONS: ReplayOptions = {
+  speed: Infinity,
+  settleSeconds: APP_CONFIG.DWELL_TIME_THRESHOLD + APP_CONFIG.BACKGROUND_LOCATION_INTERVAL / 1000,
+};
+
+interface ReplayEvent {
+  timestamp: number;
+  emit: () => void;
+}
+
+export class TraceReplay {
+  readonly clock: ReplayClock;
+  readonly location = new ReplayLocationSource();
+  readonly sensors = new ReplaySensorSource();
+  readonly sources: DetectionSources;
+  private options: ReplayOptions;
+  private stopped = false;
+  
+  constructor(private trace: RecordedTrace, options: Partial<ReplayOptions> = {}) {
+    this.options = { ...DEFAULT_REPLAY_OPTIONS, ...options };
+    const first = Math.min(
+      trace.points[0]?.timestamp ?? Infinity,
+      trace.sensorData?.[0]?.timestamp ?? Infinity
+    );
+    this.clock = new ReplayClock(Number.isFinite(first) ? first : Date.now());
+    this.sources = { location: this.location, sensors: this.sensors, clock: this.clock };
+  }
+  
+  // Plays the whole trace; resolves once the settle time has passed
+  async play(): Promise<void> {
+    const events = this.buildEvents();
+    let previous = this.clock.now();
+    
+    for (const event of events) {
+      if (this.stopped) return;
+      await this.wait(event.timestamp - previous);
+      this.clock.advanceTo(event.timestamp);
+      event.emit();
+      previous = event.timestamp;
+    }
+    
+    if (this.stopped) return;
+    const settleUntil = previous + this.options.settleSeconds * 1000;
+    await this.wait(settleUntil - previous);
+    this.clock.advanceTo(settleUntil);
+    await this.wait(0);
+  }
+  
+  stop(): void {
+    this.stopped = true;
+  }
+  
+  private buildEvents(): ReplayEvent[] {
+    const events: ReplayEvent[] = this.trace.points.map(point => ({
+      timestamp: point.timestamp,
+      emit: () => this.location.emit({
+        coords: {
+          latitude: point.latitude,
+          longitude: point.longitude,
+          accuracy: point.accuracy ?? null,
+          speed: point.speed ?? null,
+          heading: point.heading ?? null,
+        },
+        timestamp: point.timestamp,
+      }),
+    }));
+    
+    // Gyroscope and magnetometer go first so each accelerometer sample carries them
+    for (const sample of this.trace.sensorData ?? []) {
+      events.push({
+        timestamp: sample.timestamp,
+        emit: () => {
+          this.sensors.emit('gyroscope', { ...sample.gyroscope, timestamp: sample.timestamp });
+          this.sensors.emit('magnetometer', { ...sample.magnetometer, timestamp: sample.timestamp });
+          this.sensors.emit('accelerometer', { ...sample.acceleration, timestamp: sample.timestamp });
+        },
+      });
+    }
+    
+    // Stable sort keeps recorded order for events at the same time
+    return events.sort((a, b) => a.timestamp - b.timestamp);
+  }
+  
+  // Real time to wait for a stretch of trace time; always yields so async
+  // work started by the previous event can finish first
+  private wait(traceMs: number): Promise<void> {
+    const delay = Number.isFinite(this.options.speed) ? Math.max(0, traceMs / this.options.speed) : 0;
+    return new Promise(resolve => setTimeout(resolve, delay));
+  }
+}
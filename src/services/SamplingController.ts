@@ -0,0 +1,123 @@
+import { APP_CONFIG } from '../constants/Config';
+
+// Adaptive sampling.
+// Picks how hard the location and motion sensors work from the battery level,
+// whether the user is travelling and the battery optimisation preference.
+// Tracking pauses below the minimum battery level and resumes once the battery
+// has recovered a little, so a level hovering at the threshold does not flap.
+
+export type SamplingAccuracy = 'high' | 'balanced' | 'low';
+
+export type MotionState = 'stationary' | 'moving';
+
+export type SamplingProfileName =
+  | 'moving'
+  | 'stationary'
+  | 'saver_moving'
+  | 'saver_stationary'
+  | 'reduced_moving'
+  | 'reduced_stationary'
+  | 'paused';
+
+export interface SamplingProfile {
+  name: SamplingProfileName;
+  accuracy: SamplingAccuracy;
+  timeInterval: number; // ms between location updates
+  distanceInterval: number; // meters moved before an update
+  sensorInterval: number; // ms between motion sensor samples, 0 = sensors off
+  paused: boolean;
+}
+
+export interface SamplingInputs {
+  batteryLevel: number | null; // 0-1, null when the platform cannot tell
+  isCharging: boolean;
+  motion: MotionState;
+  batteryOptimization: boolean;
+}
+
+type ProfileKey = keyof typeof APP_CONFIG.SAMPLING_PROFILES;
+
+const toProfile = (name: SamplingProfileName, key: ProfileKey): SamplingProfile => {
+  const config = APP_CONFIG.SAMPLING_PROFILES[key];
+  return {
+    name,
+    accuracy: config.ACCURACY,
+    timeInterval: config.TIME_INTERVAL,
+    distanceInterval: config.DISTANCE_INTERVAL,
+    sensorInterval: config.SENSOR_INTERVAL,
+    paused: false
+  };
+};
+
+export const PAUSED_PROFILE: SamplingProfile = {
+  name: 'paused',
+  accuracy: 'low',
+  timeInterval: 0,
+  distanceInterval: 0,
+  sensorInterval: 0,
+  paused: true
+};
+
+// wasPaused applies the resume margin when tracking is already paused
+export const chooseSamplingProfile = (inputs: SamplingInputs, wasPaused: boolean = false): SamplingProfile => {
+  const { batteryLevel, isCharging, motion, batteryOptimization } = inputs;
+  const moving = motion === 'moving';
+  
+  if (batteryLevel !== null && !isCharging) {
+    const pauseBelow = wasPaused
+      ? APP_CONFIG.MIN_BATTERY_FOR_TRACKING + APP_CONFIG.RESUME_BATTERY_MARGIN
+      : APP_CONFIG.MIN_BATTERY_FOR_TRACKING;
+    if (batteryLevel < pauseBelow) {
+      return PAUSED_PROFILE;
+    }
+  }
+  
+  // Full sampling when power is not a concern or the user opted out of saving it
+  if (!batteryOptimization || isCharging || batteryLevel === null) {
+    return moving ? toProfile('moving', 'MOVING') : toProfile('stationary', 'STATIONARY');
+  }
+  
+  if (batteryLevel <= APP_CONFIG.REDUCED_SAMPLING_BATTERY) {
+    return moving
+      ? toProfile('reduced_moving', 'REDUCED_MOVING')
+      : toProfile('reduced_stationary', 'REDUCED_STATIONARY');
+  }
+  if (batteryLevel <= APP_CONFIG.BATTERY_SAVER_MODE) {
+    return moving
+      ? toProfile('saver_moving', 'SAVER_MOVING')
+      : toProfile('saver_stationary', 'SAVER_STATIONARY');
+  }
+  return moving ? toProfile('moving', 'MOVING') : toProfile('stationary', 'STATIONARY');
+};
+
+// Holds the current inputs and reports whenever they change the profile
+export class SamplingController {
+  private inputs: SamplingInputs = {
+    batteryLevel: null,
+    isCharging: false,
+    motion: 'stationary',
+    batteryOptimization: true
+  };
+  private profile: SamplingProfile = chooseSamplingProfile(this.inputs);
+  
+  constructor(private onProfileChange: (profile: SamplingProfile, previous: SamplingProfile) => void) {}
+  
+  update(changes: Partial<SamplingInputs>): void {
+    this.inputs = { ...this.inputs, ...changes };
+    
+    const next = chooseSamplingProfile(this.inputs, this.profile.paused);
+    if (next.name === this.profile.name) return;
+    
+    const previous = this.profile;
+    this.profile = next;
+    this.onProfileChange(next, previous);
+  }
+  
+  getProfile(): SamplingProfile {
+    return this.profile;
+  }
+  
+  getInputs(): SamplingInputs {
+    return { ...this.inputs };
+  }
+}
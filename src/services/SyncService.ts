@@ -1,18 +1,66 @@
 import { databaseService } from './DatabaseService';
-import { apiService } from './ApiService';
+import { apiService, ApiError } from './ApiService';
 import { tripDetectionService } from './TripDetectionService';
-import { Trip, UserPreferences, ConsentRecord } from '../types';
+import { tripExportService } from './TripExportService';
+import { Trip, UserPreferences, ConsentRecord, SyncQueueItem, TripConflict, ConflictResolution, SyncNetworkPolicy } from '../types';
+import { API_ERROR_CODES, TripChangeCursor, TripSyncFailure } from '../types/Api';
 import { APP_CONFIG } from '../constants/Config';
 import { EncryptionService } from '../utils/encryption';
+import { mergeRemoteTrip, applyConflictResolution, versionNumbers } from './TripVersioning';
+import { ConnectivitySource, NetworkState, SyncBlockReason, OFFLINE, syncBlockReason } from './Connectivity';
+import { netInfoConnectivity } from './NetInfoConnectivity';
+import { SourceSubscription } from './DetectionSources';
 
 interface SyncStatus {
   isOnline: boolean;
+  network: NetworkState;
+  blockedBy: SyncBlockReason | null; // why sync is not using the network; null when it may
   isSyncing: boolean;
   lastSyncTime: string | null;
   pendingTrips: number;
+  pendingChanges: number; // queued changes of every kind, trips included
+  stuckChanges: number; // dead-lettered, waiting for the user
+  conflicts: number; // trip fields corrected on both sides, waiting for the user
+  tamperedTrips: number; // downloads skipped this session because their signature did not match
   failedSyncs: number;
 }
 
+export interface OutboxResult {
+  sent: number;
+  failed: number; // will be retried
+  deadLettered: number;
+  conflicted: number; // refused until the server's newer changes are pulled
+  interrupted: boolean; // stopped early by a network or server problem
+}
+
+// sync_state key for the position in the server's trip change feed
+const PULL_CURSOR_KEY = 'trip_changes_cursor';
+
+// Thrown for queued operations the server has no endpoint for
+class UnsupportedSyncOperationError extends Error {
+  constructor(item: SyncQueueItem) {
+    super(`${item.operation_type} on ${item.table_name} cannot be synced`);
+    this.name = 'UnsupportedSyncOperationError';
+  }
+}
+
+// Retrying cannot help; the item is dead-lettered straight away
+const PERMANENT_ERROR_CODES: string[] = [
+  API_ERROR_CODES.VALIDATION_ERROR,
+  API_ERROR_CODES.FORBIDDEN,
+  API_ERROR_CODES.NOT_FOUND,
+  API_ERROR_CODES.ENCRYPTION_ERROR,
+  'INSUFFICIENT_POINTS',
+];
+
+// The server or session is the problem rather than the item, so the run stops
+const TRANSIENT_ERROR_CODES: string[] = [
+  API_ERROR_CODES.NETWORK_ERROR,
+  API_ERROR_CODES.SERVER_ERROR,
+  API_ERROR_CODES.RATE_LIMITED,
+  API_ERROR_CODES.UNAUTHORIZED,
+];
+
 interface SyncProgress {
   total: number;
   completed: number;
@@ -23,9 +71,15 @@ interface SyncProgress {
 export class SyncService {
   private syncStatus: SyncStatus = {
     isOnline: false,
+    network: OFFLINE,
+    blockedBy: 'offline',
     isSyncing: false,
     lastSyncTime: null,
     pendingTrips: 0,
+    pendingChanges: 0,
+    stuckChanges: 0,
+    conflicts: 0,
+    tamperedTrips: 0,
     failedSyncs: 0
   };
   
@@ -33,8 +87,12 @@ export class SyncService {
   private progressListeners: Array<(progress: SyncProgress) => void> = [];
   private syncInterval: ReturnType<typeof setInterval> | null = null;
   private retryTimeout: ReturnType<typeof setTimeout> | null = null;
+  private outboxRun: Promise<OutboxResult> | null = null;
+  private pullRun: Promise<number> | null = null;
+  private networkPolicy: SyncNetworkPolicy = 'any';
+  private networkSubscription: SourceSubscription | null = null;
   
-  constructor() {
+  constructor(private connectivity: ConnectivitySource = netInfoConnectivity) {
     this.initializeSync();
   }
   
@@ -46,61 +104,67 @@ export class SyncService {
       return;
     }
     
-    // Set up network monitoring
-    this.setupNetworkMonitoring();
+    // The policy decides which networks count, so it is needed first
+    await this.loadNetworkPolicy();
+    
+    // Set up network monitoring; this also starts the initial sync
+    await this.setupNetworkMonitoring();
     
     // Set up periodic sync
     this.setupPeriodicSync();
-    
-    // Initial sync attempt
-    this.attemptSync();
-  }
-  
-  private setupNetworkMonitoring(): void {
-    // Monitor network connectivity
-    // In a real app, you'd use @react-native-community/netinfo
-    // For now, we'll use a simple approach
-    this.checkConnectivity();
-    
-    // Check connectivity every 30 seconds
-    setInterval(() => {
-      this.checkConnectivity();
-    }, 30000);
   }
   
-  private async checkConnectivity(): Promise<void> {
+  private async loadNetworkPolicy(): Promise<void> {
     try {
-      const response = await fetch(`${APP_CONFIG.API_BASE_URL}/health`, {
-        method: 'GET',
-        signal: AbortSignal.timeout(5000)
-      });
-      
-      const wasOnline = this.syncStatus.isOnline;
-      this.syncStatus.isOnline = response.ok;
-      
-      // If we just came online, attempt sync
-      if (!wasOnline && this.syncStatus.isOnline) {
-        this.attemptSync();
-      }
-      
-      this.notifyStatusListeners();
+      const userId = await this.getCurrentUserId();
+      const preferences = userId ? await databaseService.getUserPreferences(userId) : null;
+      this.networkPolicy = preferences?.sync_network_policy ?? 'any';
     } catch (error) {
-      this.syncStatus.isOnline = false;
-      this.notifyStatusListeners();
+      console.error('Failed to load sync network policy:', error);
+    }
+  }
+  
+  private async setupNetworkMonitoring(): Promise<void> {
+    this.networkSubscription?.remove();
+    this.networkSubscription = this.connectivity.addListener(network => this.handleNetworkChange(network));
+    this.handleNetworkChange(await this.connectivity.current());
+  }
+  
+  private handleNetworkChange(network: NetworkState): void {
+    const couldSync = this.canSync();
+    this.syncStatus.network = network;
+    this.syncStatus.isOnline = network.connected;
+    this.syncStatus.blockedBy = syncBlockReason(this.networkPolicy, network);
+    this.notifyStatusListeners();
+    
+    // Catch up as soon as the network allows it
+    if (!couldSync && this.canSync()) {
+      this.attemptSync();
     }
   }
   
+  // Applies a changed policy to the current network right away
+  setNetworkPolicy(policy: SyncNetworkPolicy): void {
+    this.networkPolicy = policy;
+    this.handleNetworkChange(this.syncStatus.network);
+  }
+  
+  // Whether the current network may be used for sync
+  private canSync(): boolean {
+    return this.syncStatus.blockedBy === null;
+  }
+  
   private setupPeriodicSync(): void {
-    // Sync every 5 minutes when online
+    // Sync every 5 minutes when the network allows it
     this.syncInterval = setInterval(() => {
-      if (this.syncStatus.isOnline && !this.syncStatus.isSyncing) {
+      if (this.canSync() && !this.syncStatus.isSyncing) {
         this.attemptSync();
       }
     }, 5 * 60 * 1000); // 5 minutes
   }
   
   async attemptSync(): Promise<void> {
-    if (this.syncStatus.isSyncing || !this.syncStatus.isOnline) {
+    if (this.syncStatus.isSyncing || !this.canSync()) {
       return;
     }
     
@@ -130,18 +194,23 @@ export class SyncService {
         }
       }
       
-      // Sync trips
-      await this.syncTrips();
-      
-      // Sync user preferences
-      await this.syncUserPreferences();
+      // Merge server changes first, so uploads build on the latest versions
+      await this.pullTripChanges();
       
-      // Sync consent records
-      await this.syncConsentRecords();
+      // Send queued local changes
+      let result = await this.processOutbox();
+      if (result.conflicted > 0 && !result.interrupted) {
+        // The server changed those trips during the run; merge and resend
+        await this.pullTripChanges();
+        result = await this.processOutbox();
+      }
+      if (result.interrupted) {
+        throw new Error('Sync interrupted by a network or server error');
+      }
       
       this.syncStatus.lastSyncTime = new Date().toISOString();
       this.syncStatus.failedSyncs = 0;
-      
+    
     } catch (error) {
       console.error('Sync failed:', error);
       this.syncStatus.failedSyncs++;
@@ -154,89 +223,306 @@ export class SyncService {
     }
   }
   
-  private async syncTrips(): Promise<void> {
+  // Pulls trips changed on the server since the stored cursor and merges
+  // them into the local copies; see TripVersioning for the conflict policy.
+  // Returns the number of trips merged.
+  async pullTripChanges(): Promise<number> {
+    if (!this.pullRun) {
+      this.pullRun = this.drainTripChanges().finally(() => {
+        this.pullRun = null;
+      });
+    }
+    return this.pullRun;
+  }
+  
+  private async drainTripChanges(): Promise<number> {
+    const stored = await databaseService.getSyncState(PULL_CURSOR_KEY);
+    let cursor: TripChangeCursor | null = stored ? JSON.parse(stored) : null;
+    let merged = 0;
+    let hasMore = true;
+    
+    while (hasMore) {
+      const page = await apiService.getTripChanges(cursor);
+      for (const remote of page.trips) {
+        await this.mergePulledTrip(remote);
+        merged++;
+      }
+      
+      // Never merged; a later change to the trip on the server brings it back
+      const tampered = page.rejected.filter(rejected => rejected.reason === 'signature_mismatch');
+      if (tampered.length > 0) {
+        this.syncStatus.tamperedTrips += tampered.length;
+        this.notifyStatusListeners();
+      }
+      
+      // Saved per page, so an interrupted pull resumes where it stopped
+      cursor = page.cursor;
+      if (cursor) {
+        await databaseService.setSyncState(PULL_CURSOR_KEY, JSON.stringify(cursor));
+      }
+      hasMore = page.has_more && page.trips.length > 0;
+    }
+    
+    await this.refreshQueueCounts();
+    return merged;
+  }
+  
+  private async mergePulledTrip(remote: Trip): Promise<void> {
+    const local = await databaseService.getTrip(remote.trip_id);
+    const { trip, conflicts } = mergeRemoteTrip(local, remote, new Date().toISOString());
+    
+    // Unsynced results, such as kept corrections, are queued for upload
+    await databaseService.saveTrip(trip, { fromSync: true });
+    
+    // Each merge sees both sides in full, so its conflicts replace older ones
+    for (const existing of await databaseService.getSyncConflicts(trip.trip_id)) {
+      await databaseService.deleteSyncConflict(existing.trip_id, existing.field);
+    }
+    for (const conflict of conflicts) {
+      await databaseService.saveSyncConflict(conflict);
+    }
+  }
+  
+  // Settles a conflict with the user's pick and queues the result, which
+  // then overrides the server's copy
+  async resolveConflict(conflict: TripConflict, resolution: ConflictResolution): Promise<void> {
+    const trip = await databaseService.getTrip(conflict.trip_id);
+    if (trip) {
+      const resolved = applyConflictResolution(trip, conflict, resolution, new Date().toISOString());
+      await databaseService.saveTrip(resolved, { fromSync: true });
+    }
+    await databaseService.deleteSyncConflict(conflict.trip_id, conflict.field);
+    
+    await this.refreshQueueCounts();
+    if (this.canSync()) {
+      await this.processOutbox();
+    }
+  }
+  
+  // Sends queued local changes, oldest first, with consent and preferences
+  // ahead of trips. Each item has its own retry budget; a network or server
+  // error ends the run so one outage does not use up every item's budget.
+  async processOutbox(): Promise<OutboxResult> {
+    if (!this.outboxRun) {
+      this.outboxRun = this.drainOutbox().finally(() => {
+        this.outboxRun = null;
+      });
+    }
+    return this.outboxRun;
+  }
+  
+  private async drainOutbox(): Promise<OutboxResult> {
+    const result: OutboxResult = { sent: 0, failed: 0, deadLettered: 0, conflicted: 0, interrupted: false };
+    // Changes are sent with the signed-in user's token, so only theirs go
     const userId = await this.getCurrentUserId();
-    if (!userId) return;
+    if (!userId) return result;
+    const items = await databaseService.getDueSyncItems(userId, new Date().toISOString(), APP_CONFIG.OFFLINE_QUEUE_SIZE);
     
-    // Get unsynced trips
-    const unsyncedTrips = await databaseService.getUnsyncedTrips(userId);
-    this.syncStatus.pendingTrips = unsyncedTrips.length;
+    const tripItems = items.filter(item => item.table_name === 'trips' && item.operation_type !== 'DELETE');
+    const otherItems = items.filter(item => !tripItems.includes(item));
     
-    if (unsyncedTrips.length === 0) {
-      return;
+    for (const item of otherItems) {
+      if (result.interrupted) break;
+      try {
+        await this.dispatch(item);
+        await databaseService.removeSyncItem(item.id);
+        result.sent++;
+      } catch (error) {
+        await this.recordFailure(item, error, result);
+      }
     }
     
-    // Sync in batches
     const batchSize = APP_CONFIG.SYNC_BATCH_SIZE;
-    const batches = [];
-    
-    for (let i = 0; i < unsyncedTrips.length; i += batchSize) {
-      batches.push(unsyncedTrips.slice(i, i + batchSize));
+    for (let i = 0; i < tripItems.length && !result.interrupted; i += batchSize) {
+      await this.sendTripBatch(tripItems.slice(i, i + batchSize), result, tripItems.length);
     }
     
-    let completed = 0;
-    let failed = 0;
+    await this.refreshQueueCounts();
+    return result;
+  }
+  
+  // One queued change other than a trip
+  private async dispatch(item: SyncQueueItem): Promise<void> {
+    if (item.operation_type === 'DELETE') {
+      throw new UnsupportedSyncOperationError(item);
+    }
     
-    for (const batch of batches) {
-      try {
-        this.notifyProgressListeners({
-          total: unsyncedTrips.length,
-          completed,
-          failed,
-          current: `Syncing batch of ${batch.length} trips...`
-        });
-        
-        const response = await apiService.syncTrips(batch);
-        
-        // Mark successfully synced trips
-        for (const tripId of response.synced_trips) {
-          await databaseService.markTripAsSynced(tripId);
-          completed++;
+    switch (item.table_name) {
+      case 'user_preferences': {
+        // The latest preferences, which may be newer than the queued copy
+        const preferences = await databaseService.getUserPreferences(item.record_id);
+        if (preferences) {
+          await apiService.updateUserPreferences(preferences);
         }
-        
-        // Handle failed trips
-        for (const failedTrip of response.failed_trips) {
-          console.error(`Failed to sync trip ${failedTrip.trip_id}:`, failedTrip.error);
-          failed++;
+        return;
+      }
+      case 'consent_records':
+        // Every consent change is kept on record, so the queued copy is sent
+        await apiService.updateConsent(item.data as ConsentRecord);
+        return;
+      case 'reward_transactions':
+        // The server awards points itself; only redemptions start on the device
+        if (item.data.transaction_type === 'redemption') {
+          await apiService.redeemPoints(item.data.points_redeemed, item.data.description);
         }
-        
-        this.notifyProgressListeners({
-          total: unsyncedTrips.length,
-          completed,
-          failed,
-          current: `Synced ${completed} of ${unsyncedTrips.length} trips`
-        });
-        
-      } catch (error) {
-        console.error('Batch sync failed:', error);
-        failed += batch.length;
+        return;
+      default:
+        throw new UnsupportedSyncOperationError(item);
+    }
+  }
+  
+  private async sendTripBatch(items: SyncQueueItem[], result: OutboxResult, total: number): Promise<void> {
+    const trips: Trip[] = [];
+    const itemsByTrip = new Map<string, SyncQueueItem>();
+    
+    for (const item of items) {
+      // Sends the stored trip, which may have been edited since it was queued
+      const trip = await databaseService.getTrip(item.record_id);
+      // Private trips never leave the device
+      if (!trip || trip.synced || trip.is_private) {
+        await databaseService.removeSyncItem(item.id);
+        continue;
       }
+      // Held back until the user settles its conflicts
+      if ((await databaseService.getSyncConflicts(trip.trip_id)).length > 0) {
+        continue;
+      }
+      trips.push(trip);
+      itemsByTrip.set(trip.trip_id, item);
+    }
+    if (trips.length === 0) return;
+    
+    this.notifyProgressListeners({
+      total,
+      completed: result.sent,
+      failed: result.failed + result.deadLettered,
+      current: `Syncing batch of ${trips.length} trips...`
+    });
+    
+    let response;
+    try {
+      response = await apiService.syncTrips(trips);
+    } catch (error) {
+      // The whole request failed, so every trip in it counts an attempt.
+      // Uploads are idempotent, so resending trips the server did store is safe.
+      for (const item of itemsByTrip.values()) {
+        await this.recordFailure(item, error, result);
+      }
+      return;
     }
     
-    this.syncStatus.pendingTrips = failed;
+    // Each trip is settled by its own acknowledgement
+    const unacknowledged = new Set(itemsByTrip.keys());
+    
+    for (const tripId of response.synced_trips) {
+      const sent = trips.find(trip => trip.trip_id === tripId);
+      if (!sent || !unacknowledged.delete(tripId)) continue;
+      await databaseService.markTripAsSynced(tripId, versionNumbers(sent.field_versions));
+      result.sent++;
+    }
+    
+    for (const failedTrip of response.failed_trips) {
+      const item = itemsByTrip.get(failedTrip.trip_id);
+      if (!item || !unacknowledged.delete(failedTrip.trip_id)) continue;
+      // Not the item's fault: it stays due and goes again after a pull
+      if (failedTrip.code === API_ERROR_CODES.SYNC_CONFLICT) {
+        result.conflicted++;
+        continue;
+      }
+      await this.recordTripRejection(item, failedTrip, result);
+    }
+    
+    // Left out of the response, so retried like any other failure
+    for (const tripId of unacknowledged) {
+      await this.recordTripRejection(itemsByTrip.get(tripId)!, { trip_id: tripId, error: 'Not acknowledged by the server' }, result);
+    }
   }
   
-  private async syncUserPreferences(): Promise<void> {
-    const userId = await this.getCurrentUserId();
-    if (!userId) return;
+  // The server answered for this trip alone, so the run carries on whatever
+  // the reason; only the code decides whether another attempt can help
+  private async recordTripRejection(item: SyncQueueItem, failure: TripSyncFailure, result: OutboxResult): Promise<void> {
+    console.error(`Server rejected trip ${item.record_id}:`, failure.error);
+    const permanent = failure.code !== undefined && PERMANENT_ERROR_CODES.includes(failure.code);
+    await this.deferItem(item, failure.error, permanent, result);
+  }
+  
+  private async recordFailure(item: SyncQueueItem, error: unknown, result: OutboxResult): Promise<void> {
+    const code = error instanceof ApiError ? error.code : null;
+    const message = error instanceof Error ? error.message : String(error);
+    console.error(`Failed to sync ${item.table_name} ${item.record_id}:`, message);
     
-    const preferences = await databaseService.getUserPreferences(userId);
-    if (preferences) {
-      await apiService.updateUserPreferences(preferences);
+    if (code && TRANSIENT_ERROR_CODES.includes(code)) {
+      result.interrupted = true;
+      // Being offline says nothing about the item
+      if (code === API_ERROR_CODES.NETWORK_ERROR) return;
     }
+    
+    const permanent = error instanceof UnsupportedSyncOperationError || (code !== null && PERMANENT_ERROR_CODES.includes(code));
+    await this.deferItem(item, message, permanent, result);
   }
   
-  async syncConsentRecords(): Promise<void> {
-    const userId = await this.getCurrentUserId();
-    if (!userId) return;
+  // Counts the attempt and schedules the next one, or dead-letters the item
+  private async deferItem(item: SyncQueueItem, message: string, permanent: boolean, result: OutboxResult): Promise<void> {
+    const attempts = item.retry_count + 1;
+    const nextAttemptAt = permanent || attempts >= APP_CONFIG.SYNC_RETRY_ATTEMPTS
+      ? null
+      : new Date(Date.now() + this.outboxRetryDelay(attempts)).toISOString();
     
-    // Get latest consent record
-    const consent = await databaseService.getConsentRecord(userId, APP_CONFIG.CONSENT_VERSION);
-    if (consent) {
-      await apiService.updateConsent(consent);
+    await databaseService.recordSyncFailure(item.id, message, nextAttemptAt);
+    if (nextAttemptAt) {
+      result.failed++;
+    } else {
+      result.deadLettered++;
+    }
+  }
+  
+  private outboxRetryDelay(attempts: number): number {
+    return Math.min(APP_CONFIG.SYNC_RETRY_MAX_DELAY, APP_CONFIG.SYNC_RETRY_DELAY * Math.pow(2, attempts - 1));
+  }
+  
+  async refreshQueueCounts(): Promise<void> {
+    try {
+      const counts = await databaseService.getSyncQueueCounts();
+      this.syncStatus.pendingTrips = counts.pendingTrips;
+      this.syncStatus.pendingChanges = counts.pending;
+      this.syncStatus.stuckChanges = counts.deadLettered;
+      this.syncStatus.conflicts = await databaseService.getSyncConflictCount();
+      this.notifyStatusListeners();
+    } catch (error) {
+      console.error('Failed to count queued changes:', error);
+    }
+  }
+  
+  // Sends consent changes right away instead of waiting for the next sync
+  async syncConsentRecords(): Promise<void> {
+    if (!this.canSync()) return;
+    await this.processOutbox();
+  }
+  
+  // Dead-lettered changes: try again with a fresh retry budget, or drop
+  async retryStuckChange(id: number): Promise<void> {
+    await databaseService.requeueSyncItem(id);
+    await this.refreshQueueCounts();
+    if (this.canSync()) {
+      await this.processOutbox();
     }
   }
   
+  async retryAllStuckChanges(): Promise<void> {
+    for (const item of await databaseService.getDeadLetters()) {
+      await databaseService.requeueSyncItem(item.id);
+    }
+    await this.refreshQueueCounts();
+    if (this.canSync()) {
+      await this.processOutbox();
+    }
+  }
+  
+  async discardStuckChange(id: number): Promise<void> {
+    await databaseService.removeSyncItem(id);
+    await this.refreshQueueCounts();
+  }
+  
   private scheduleRetry(): void {
     if (this.retryTimeout) {
       clearTimeout(this.retryTimeout);
@@ -276,10 +562,14 @@ export class SyncService {
   }
   
   async syncTrip(trip: Trip): Promise<boolean> {
+    if (trip.is_private) return false;
+    // The trip stays queued for the outbox when the network policy says no
+    if (!this.canSync()) return false;
+    
     try {
       const response = await apiService.syncTrips([trip]);
       if (response.synced_trips.includes(trip.trip_id)) {
-        await databaseService.markTripAsSynced(trip.trip_id);
+        await databaseService.markTripAsSynced(trip.trip_id, versionNumbers(trip.field_versions));
         return true;
       }
       return false;
@@ -289,19 +579,10 @@ export class SyncService {
     }
   }
   
+  // Catches up with the server now instead of at the next sync
   async downloadUserData(): Promise<void> {
-    const userId = await this.getCurrentUserId();
-    if (!userId) return;
-    
     try {
-      // Get trips from server
-      const serverTrips = await apiService.getUserTrips(1000, 0);
-      
-      // Save to local database
-      for (const trip of serverTrips) {
-        await databaseService.saveTrip(trip);
-      }
-      
+      await this.pullTripChanges();
     } catch (error) {
       console.error('Failed to download user data:', error);
     }
@@ -320,6 +601,15 @@ export class SyncService {
       }
     };
     
+    // The CSV diary can be written from local data; returns the file URI
+    if (format === 'csv' && !this.syncStatus.isOnline) {
+      const result = await tripExportService.exportDiaryCsv({
+        from: exportRequest.date_range.start_date,
+        to: exportRequest.date_range.end_date
+      });
+      return result.uri;
+    }
+    
     const response = await apiService.requestDataExport(exportRequest);
     
     // In a real app, you'd download the file from the URL
@@ -394,6 +684,11 @@ export class SyncService {
   
   // Cleanup
   destroy(): void {
+    if (this.networkSubscription) {
+      this.networkSubscription.remove();
+      this.networkSubscription = null;
+    }
+    
     if (this.syncInterval) {
       clearInterval(this.syncInterval);
       this.syncInterval = null;
@@ -0,0 +1,229 @@
+import { LocationPoint, SensorData } from '../types';
+import { calculateDistance } from '../utils/geo';
+
+// Recorded location traces.
+// A trace is the raw input trip detection would have seen: fixes in time
+// order, optionally with motion sensor samples.
+
+export interface RecordedTrace {
+  name?: string;
+  points: LocationPoint[];
+  sensorData?: SensorData[];
+}
+
+const GPX_DEFAULT_ACCURACY = 10; // meters, when a point carries no hdop
+const GPX_HDOP_METERS = 5; // rough meters of error per unit of hdop
+
+const attribute = (tag: string, name: string): string | null => {
+  const match = tag.match(new RegExp(`\\b${name}\\s*=\\s*["']([^"']*)["']`));
+  return match ? match[1] : null;
+};
+
+const childText = (body: string, name: string): string | null => {
+  const match = body.match(new RegExp(`<(?:\\w+:)?${name}>([^<]*)</(?:\\w+:)?${name}>`));
+  return match ? match[1].trim() : null;
+};
+
+// Track and route points of a GPX 1.1 file; points without a time are skipped
+export const parseGpxTrace = (xml: string): RecordedTrace => {
+  const points: LocationPoint[] = [];
+  const pointPattern = /<(trkpt|rtept)\b([^>]*?)(?:\/>|>([\s\S]*?)<\/\1>)/g;
+  
+  let match: RegExpExecArray | null;
+  while ((match = pointPattern.exec(xml)) !== null) {
+    const lat = parseFloat(attribute(match[2], 'lat') ?? '');
+    const lon = parseFloat(attribute(match[2], 'lon') ?? '');
+    const body = match[3] ?? '';
+    const time = childText(body, 'time');
+    if (!Number.isFinite(lat) || !Number.isFinite(lon) || !time) continue;
+    
+    const timestamp = new Date(time).getTime();
+    if (Number.isNaN(timestamp)) continue;
+    
+    const hdop = parseFloat(childText(body, 'hdop') ?? '');
+    const speed = parseFloat(childText(body, 'speed') ?? '');
+    const course = parseFloat(childText(body, 'course') ?? '');
+    points.push({
+      latitude: lat,
+      longitude: lon,
+      timestamp,
+      accuracy: Number.isFinite(hdop) ? hdop * GPX_HDOP_METERS : GPX_DEFAULT_ACCURACY,
+      speed: Number.isFinite(speed) ? speed : undefined,
+      heading: Number.isFinite(course) ? course : undefined
+    });
+  }
+  
+  const nameMatch = xml.match(/<(?:trk|rte|metadata)>\s*<name>([^<]*)<\/name>/);
+  return {
+    name: nameMatch ? nameMatch[1].trim() : undefined,
+    points: points.sort((a, b) => a.timestamp - b.timestamp)
+  };
+};
+
+// GeoJSON has no standard for time; accept the common conventions
+// (properties.coordTimes / properties.times, or a 4th coordinate holding epoch time)
+const geoJsonTime = (value: unknown): number | null => {
+  if (typeof value === 'number' && Number.isFinite(value)) {
+    return value > 1e11 ? value : value * 1000; // epoch milliseconds or seconds
+  }
+  if (typeof value === 'string') {
+    const timestamp = new Date(value).getTime();
+    return Number.isNaN(timestamp) ? null : timestamp;
+  }
+  return null;
+};
+
+const geoJsonLines = (geometry: any): number[][][] => {
+  if (!geometry) return [];
+  if (geometry.type === 'LineString') return [geometry.coordinates ?? []];
+  if (geometry.type === 'MultiLineString') return geometry.coordinates ?? [];
+  if (geometry.type === 'GeometryCollection') return (geometry.geometries ?? []).flatMap(geoJsonLines);
+  return [];
+};
+
+const geoJsonFeatures = (json: any): { geometry: any; properties: any }[] => {
+  if (json?.type === 'FeatureCollection') return json.features ?? [];
+  if (json?.type === 'Feature') return [json];
+  return [{ geometry: json, properties: {} }];
+};
+
+// LineStrings of a GeoJSON document; coordinates without a time are skipped
+export const parseGeoJsonTrace = (text: string): RecordedTrace => {
+  let json: any;
+  try {
+    json = JSON.parse(text);
+  } catch (error) {
+    throw new Error('Not a valid GeoJSON file');
+  }
+  
+  const points: LocationPoint[] = [];
+  let name: string | undefined;
+  
+  for (const feature of geoJsonFeatures(json)) {
+    const properties = feature.properties ?? {};
+    const times: unknown[] | unknown[][] | undefined = properties.coordTimes ?? properties.times;
+    name = name ?? (typeof properties.name === 'string' ? properties.name : undefined);
+    
+    geoJsonLines(feature.geometry).forEach((line, lineIndex) => {
+      // MultiLineString times are nested per line
+      const lineTimes = Array.isArray(times?.[0]) ? (times as unknown[][])[lineIndex] : times as unknown[] | undefined;
+      line.forEach((coordinate, index) => {
+        const [lon, lat, , epoch] = coordinate;
+        const timestamp = geoJsonTime(lineTimes?.[index] ?? epoch);
+        if (!Number.isFinite(lat) || !Number.isFinite(lon) || timestamp === null) return;
+        points.push({ latitude: lat, longitude: lon, timestamp, accuracy: GPX_DEFAULT_ACCURACY });
+      });
+    });
+  }
+  
+  return { name, points: points.sort((a, b) => a.timestamp - b.timestamp) };
+};
+
+export type TraceFileFormat = 'gpx' | 'geojson';
+
+// From the file name, falling back to sniffing the content
+export const traceFileFormat = (content: string, fileName: string = ''): TraceFileFormat => {
+  const extension = fileName.toLowerCase().split('.').pop();
+  if (extension === 'gpx') return 'gpx';
+  if (extension === 'geojson' || extension === 'json') return 'geojson';
+  return content.trimStart().startsWith('<') ? 'gpx' : 'geojson';
+};
+
+export const parseTraceFile = (content: string, fileName: string = ''): RecordedTrace => {
+  const trace = traceFileFormat(content, fileName) === 'gpx'
+    ? parseGpxTrace(content)
+    : parseGeoJsonTrace(content);
+  if (trace.points.length === 0) {
+    throw new Error('The file contains no timestamped track points');
+  }
+  return trace;
+};
+
+// Output of scripts/simulate-trips.js (only the fields used here)
+export interface SimulatedTrip {
+  origin: { lat: number; lon: number };
+  destination: { lat: number; lon: number };
+  start_time: string;
+  end_time: string;
+}
+
+export interface SimulatedTripData {
+  trips: SimulatedTrip[];
+}
+
+export interface SimulatedTraceOptions {
+  fixInterval: number; // seconds between fixes while travelling
+  dwellFixInterval: number; // seconds between fixes while stationary
+  leadSeconds: number; // stationary time recorded before the first trip
+  tailSeconds: number; // stationary time recorded after the last trip
+}
+
+export const DEFAULT_SIMULATED_TRACE_OPTIONS: SimulatedTraceOptions = {
+  fixInterval: 10,
+  dwellFixInterval: 60,
+  leadSeconds: 600,
+  tailSeconds: 900,
+};
+
+const fixAt = (lat: number, lon: number, timestamp: number, speed: number): LocationPoint => ({
+  latitude: lat,
+  longitude: lon,
+  timestamp,
+  accuracy: GPX_DEFAULT_ACCURACY,
+  speed
+});
+
+// Simulated trips have only endpoints, so each one becomes a straight line at
+// constant speed, with stationary fixes wherever the user waits between trips
+export const traceFromSimulatedTrips = (
+  data: SimulatedTripData,
+  options: Partial<SimulatedTraceOptions> = {}
+): RecordedTrace => {
+  const { fixInterval, dwellFixInterval, leadSeconds, tailSeconds } = { ...DEFAULT_SIMULATED_TRACE_OPTIONS, ...options };
+  const trips = [...data.trips].sort((a, b) => a.start_time.localeCompare(b.start_time));
+  const points: LocationPoint[] = [];
+  
+  const addDwell = (lat: number, lon: number, from: number, to: number) => {
+    for (let t = from; t < to; t += dwellFixInterval * 1000) {
+      points.push(fixAt(lat, lon, t, 0));
+    }
+  };
+  
+  let previousEnd: number | null = null;
+  let last: SimulatedTrip | null = null;
+  for (const trip of trips) {
+    const start = new Date(trip.start_time).getTime();
+    const end = new Date(trip.end_time).getTime();
+    if (end <= start || (previousEnd !== null && start < previousEnd)) continue; // overlapping trips are dropped
+    
+    // Waiting at the origin since the previous trip arrived
+    addDwell(
+      trip.origin.lat,
+      trip.origin.lon,
+      previousEnd !== null ? previousEnd + dwellFixInterval * 1000 : start - leadSeconds * 1000,
+      start
+    );
+    
+    const distance = calculateDistance(trip.origin.lat, trip.origin.lon, trip.destination.lat, trip.destination.lon);
+    const speed = distance / ((end - start) / 1000);
+    for (let t = start; t < end; t += fixInterval * 1000) {
+      const progress = (t - start) / (end - start);
+      points.push(fixAt(
+        trip.origin.lat + (trip.destination.lat - trip.origin.lat) * progress,
+        trip.origin.lon + (trip.destination.lon - trip.origin.lon) * progress,
+        t,
+        speed
+      ));
+    }
+    points.push(fixAt(trip.destination.lat, trip.destination.lon, end, 0));
+    
+    previousEnd = end;
+    last = trip;
+  }
+  
+  if (last && previousEnd !== null) {
+    addDwell(last.destination.lat, last.destination.lon, previousEnd + dwellFixInterval * 1000, previousEnd + tailSeconds * 1000);
+  }
+  
+  return { name: 'simulated trips', points };
+};
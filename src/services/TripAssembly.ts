@@ -0,0 +1,133 @@
+import { v4 as uuidv4 } from 'uuid';
+import { Trip, TripLeg, TravelMode, SensorSummary, LocationPoint, SensorData, Location as TripLocation } from '../types';
+import { APP_CONFIG } from '../constants/Config';
+import { splitIntoLegs, ModeClassification, WindowClassifier } from './LegSegmentation';
+import { placeService } from './PlaceService';
+import { geocodingService } from './GeocodingService';
+import { calculateDistance } from '../utils/geo';
+
+// Turning a segmented stretch of fixes into trip fields.
+// Shared by live detection and trace import so both produce the same trips.
+
+export const toTravelMode = (prediction: ModeClassification): TravelMode => ({
+  detected: prediction.mode,
+  user_confirmed: null,
+  confidence: prediction.confidence,
+  probabilities: prediction.probabilities
+});
+
+export const buildTripLegs = (tripId: string, points: LocationPoint[], classify: WindowClassifier): TripLeg[] => {
+  const detectedLegs = splitIntoLegs(points, classify);
+  
+  return detectedLegs.map((leg, index) => {
+    const first = leg.points[0];
+    const last = leg.points[leg.points.length - 1];
+    return {
+      leg_id: uuidv4(),
+      trip_id: tripId,
+      leg_number: index + 1,
+      travel_mode: toTravelMode(leg),
+      start: { lat: first.latitude, lon: first.longitude },
+      end: { lat: last.latitude, lon: last.longitude },
+      start_time: new Date(leg.start_time).toISOString(),
+      end_time: new Date(leg.end_time).toISOString(),
+      duration_seconds: Math.floor((leg.end_time - leg.start_time) / 1000),
+      distance_meters: leg.distance_meters
+    };
+  });
+};
+
+// The longest leg sets the mode of a multimodal trip
+export const primaryLegMode = (legs: TripLeg[]): TravelMode | null => {
+  if (legs.length === 0) return null;
+  const primaryLeg = legs.reduce((longest, leg) =>
+    leg.distance_meters > longest.distance_meters ? leg : longest
+  );
+  return { ...primaryLeg.travel_mode };
+};
+
+export const summarizeTripSensors = (
+  points: LocationPoint[],
+  sensorData: SensorData[],
+  rejectedCount: number
+): SensorSummary => {
+  if (points.length === 0) {
+    return {
+      average_speed: 0,
+      variance_accel: 0,
+      gps_points_count: 0,
+      max_speed: 0,
+      min_speed: 0,
+      total_acceleration: 0,
+      raw_points_count: rejectedCount,
+      filtered_points_count: rejectedCount
+    };
+  }
+  
+  const speeds = [];
+  let totalAcceleration = 0;
+  
+  // Calculate speeds from location points
+  for (let i = 1; i < points.length; i++) {
+    const distance = calculateDistance(
+      points[i-1].latitude,
+      points[i-1].longitude,
+      points[i].latitude,
+      points[i].longitude
+    );
+    const timeDiff = (points[i].timestamp - points[i-1].timestamp) / 1000;
+    if (timeDiff <= 0) continue;
+    speeds.push(distance / timeDiff);
+  }
+  
+  // Calculate acceleration from sensor data
+  for (let i = 1; i < sensorData.length; i++) {
+    const accel1 = sensorData[i-1].acceleration;
+    const accel2 = sensorData[i].acceleration;
+    const acceleration = Math.sqrt(
+      Math.pow(accel2.x - accel1.x, 2) +
+      Math.pow(accel2.y - accel1.y, 2) +
+      Math.pow(accel2.z - accel1.z, 2)
+    );
+    totalAcceleration += acceleration;
+  }
+  
+  const averageSpeed = speeds.length > 0 ? speeds.reduce((sum, speed) => sum + speed, 0) / speeds.length : 0;
+  const maxSpeed = speeds.length > 0 ? Math.max(...speeds) : 0;
+  const minSpeed = speeds.length > 0 ? Math.min(...speeds) : 0;
+  
+  // Calculate acceleration variance
+  const accelerationVariance = sensorData.length > 1 ?
+    totalAcceleration / (sensorData.length - 1) : 0;
+  
+  return {
+    average_speed: averageSpeed,
+    variance_accel: accelerationVariance,
+    gps_points_count: points.length,
+    max_speed: maxSpeed,
+    min_speed: minSpeed,
+    total_acceleration: totalAcceleration,
+    raw_points_count: points.length + rejectedCount,
+    filtered_points_count: rejectedCount
+  };
+};
+
+export const isValidTrip = (trip: Pick<Trip, 'duration_seconds' | 'distance_meters'>): boolean =>
+  trip.duration_seconds >= APP_CONFIG.MIN_TRIP_DURATION &&
+  trip.distance_meters >= APP_CONFIG.MIN_TRIP_DISTANCE;
+
+// One of the user's places when the point is inside it, else a geocoded name
+export const resolveTripLocation = async (userId: string, latitude: number, longitude: number): Promise<TripLocation> => {
+  try {
+    const place = await placeService.snapToPlace(userId, latitude, longitude);
+    if (place) return place;
+  } catch (error) {
+    console.error('Error snapping to place:', error);
+  }
+  
+  return {
+    lat: latitude,
+    lon: longitude,
+    place_name: await geocodingService.getPlaceName(latitude, longitude)
+  };
+};
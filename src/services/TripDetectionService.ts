@@ -1,28 +1,25 @@
 import * as Location from 'expo-location';
 import * as TaskManager from 'expo-task-manager';
-import * as Sensors from 'expo-sensors';
+import * as Battery from 'expo-battery';
 import { v4 as uuidv4 } from 'uuid';
-import { Trip, Location as TripLocation, TravelMode, SensorSummary, TRIP_PURPOSES, TRAVEL_MODES } from '../types';
+import { Trip, TripLeg, SensorSummary, LocationPoint, RecordedFix, SensorData, ModeExample, TRIP_PURPOSES, TRAVEL_MODES } from '../types';
 import { APP_CONFIG } from '../constants/Config';
+import { databaseService } from './DatabaseService';
+import { TripSegmenter, SegmentationEvent, SegmentationState } from './TripSegmentation';
+import { LocationFilter } from './LocationFilter';
+import { TravelModeClassifier, ModePrediction, classifyWindow, extractModeFeatures, defaultModeClassifier } from './ModeClassifier';
+import { PersonalizedModeClassifier } from './ModePersonalization';
+import { purposeService } from './PurposeService';
+import { tripNumberingService } from './TripNumberingService';
+import { SamplingController, SamplingProfile, SamplingProfileName } from './SamplingController';
+import { DetectionSources, LocationFix, SourceSubscription } from './DetectionSources';
+import { expoDetectionSources } from './ExpoDetectionSources';
+import { buildTripLegs, primaryLegMode, toTravelMode, isValidTrip, summarizeTripSensors, resolveTripLocation } from './TripAssembly';
+import { pathDistance } from '../utils/geo';
 
 const BACKGROUND_LOCATION_TASK = 'background-location-task';
 const BACKGROUND_SENSOR_TASK = 'background-sensor-task';
-
-interface LocationPoint {
-  latitude: number;
-  longitude: number;
-  timestamp: number;
-  accuracy?: number;
-  speed?: number;
-  heading?: number;
-}
-
-interface SensorData {
-  acceleration: { x: number; y: number; z: number };
-  gyroscope: { x: number; y: number; z: number };
-  magnetometer: { x: number; y: number; z: number };
-  timestamp: number;
-}
+const DETECTION_CHECKPOINT_KEY = 'trip_detection_checkpoint';
 
 export interface TripDetectionState {
   isTracking: boolean;
@@ -32,9 +29,26 @@ export interface TripDetectionState {
   lastLocation: LocationPoint | null;
   tripStartTime: number | null;
   isMoving: boolean;
+  segmentationState: SegmentationState;
   dwellStartTime: number | null;
   currentChainId: string | null;
   dailyTripNumber: number;
+  samplingProfile: SamplingProfileName;
+}
+
+// A finished trip's fixes, for measuring and classifying it
+interface TripTrace {
+  points: LocationPoint[]; // accepted fixes, smoothed
+  rejectedCount: number;
+}
+
+// Detection state persisted across app restarts
+interface DetectionCheckpoint {
+  currentTrip: Partial<Trip> | null;
+  tripStartTime: number | null;
+  dwellStartTime: number | null;
+  currentChainId: string | null;
+  savedAt: number;
 }
 
 export class TripDetectionService {
@@ -46,17 +60,42 @@ export class TripDetectionService {
     lastLocation: null,
     tripStartTime: null,
     isMoving: false,
+    segmentationState: 'IDLE',
     dwellStartTime: null,
     currentChainId: null,
-    dailyTripNumber: 0
+    dailyTripNumber: 0,
+    samplingProfile: 'stationary'
   };
   
   private listeners: Array<(trip: Trip) => void> = [];
-  private locationSubscription: Location.LocationSubscription | null = null;
-  private sensorSubscription: any = null;
+  private unsavedTripPoints = new Map<string, RecordedFix[]>(); // by trip id
+  private recordingTripId: string | null = null; // trip new fixes belong to, set before its record exists
+  private segmenter = new TripSegmenter();
+  private locationFilter = new LocationFilter();
+  private recentFixes: RecordedFix[] = []; // as received, rejected ones included
+  private classifier: TravelModeClassifier = defaultModeClassifier;
+  private latestGyroscope = { x: 0, y: 0, z: 0 };
+  private latestMagnetometer = { x: 0, y: 0, z: 0 };
+  private segmentationTimer: SourceSubscription | null = null;
+  private locationSubscription: SourceSubscription | null = null;
+  private sensorSubscription: SourceSubscription | null = null;
+  private gyroscopeSubscription: SourceSubscription | null = null;
+  private magnetometerSubscription: SourceSubscription | null = null;
+  private batteryLevelSubscription: Battery.Subscription | null = null;
+  private batteryStateSubscription: Battery.Subscription | null = null;
+  private samplingController = new SamplingController(
+    (profile, previous) => this.handleSamplingProfileChange(profile, previous)
+  );
+  private samplingUpdate: Promise<void> = Promise.resolve();
+  private checkpointWrite: Promise<void> = Promise.resolve();
+  private pointsWrite: Promise<void> = Promise.resolve();
+  private tripTransition: Promise<void> = Promise.resolve(); // starts and ends not yet handled
+  private restoration: Promise<void>;
+  private undeliveredTrips: Trip[] = [];
   
-  constructor() {
+  constructor(private sources: DetectionSources = expoDetectionSources) {
     this.initializeTasks();
+    this.restoration = this.restoreCheckpoint();
   }
   
   private initializeTasks(): void {
@@ -68,6 +107,9 @@ export class TripDetectionService {
       }
       
       if (data) {
+        // The OS may have relaunched the app just to deliver these
+        await this.restoration;
+        
         const { locations } = data as any;
         locations.forEach((location: any) => {
           this.processLocationUpdate(location);
@@ -89,66 +131,253 @@ export class TripDetectionService {
   }
   
   async startTracking(): Promise<void> {
+    await this.restoration;
     if (this.state.isTracking) return;
     
     // Request permissions
-    const { status } = await Location.requestForegroundPermissionsAsync();
-    if (status !== 'granted') {
+    const permissions = await this.sources.location.requestPermissions();
+    if (!permissions.foreground) {
       throw new Error('Location permission not granted');
     }
-    
-    const backgroundStatus = await Location.requestBackgroundPermissionsAsync();
-    if (backgroundStatus.status !== 'granted') {
+    if (!permissions.background) {
       console.warn('Background location permission not granted');
     }
     
-    // Start location tracking
-    this.locationSubscription = await Location.watchPositionAsync(
+    this.state.isTracking = true;
+    
+    // Battery level, charging state and the user's preference pick the sampling profile
+    await this.loadBatteryOptimizationPreference();
+    await this.startBatteryMonitoring();
+    
+    // Start location tracking and sensor monitoring at the chosen rate
+    try {
+      await this.startSampling(this.samplingController.getProfile());
+    } catch (error) {
+      this.state.isTracking = false;
+      this.stopBatteryMonitoring();
+      await this.stopSampling();
+      throw error;
+    }
+    
+    // Pick up what the user has taught us through corrections
+    await this.refreshModeClassifier();
+    
+    // Advance the segmenter even when no fixes arrive while stationary
+    this.startSegmentationTimer();
+  }
+  
+  async stopTracking(): Promise<void> {
+    if (!this.state.isTracking) return;
+    
+    this.state.isTracking = false;
+    
+    // Stop location tracking and sensor monitoring
+    this.stopBatteryMonitoring();
+    await this.samplingUpdate;
+    await this.stopSampling();
+    
+    this.stopSegmentationTimer();
+    
+    // End current trip if active, once a pending start or end is through
+    await this.tripTransition;
+    if (this.state.currentTrip) {
+      await this.endCurrentTrip();
+    }
+    
+    this.segmenter.reset();
+    this.recordingTripId = null;
+    this.locationFilter.reset();
+    this.state.segmentationState = this.segmenter.getState();
+    this.state.isMoving = false;
+    this.samplingController.update({ motion: 'stationary' });
+  }
+  
+  private startSegmentationTimer(): void {
+    this.stopSegmentationTimer();
+    this.segmentationTimer = this.sources.clock.setInterval(() => {
+      this.handleSegmentationEvents(this.segmenter.tick(this.sources.clock.now()));
+      
+      // Without tracking the timer only runs to close a resumed trip
+      if (!this.state.isTracking && !this.segmenter.isInTrip()) {
+        this.stopSegmentationTimer();
+      }
+    }, APP_CONFIG.BACKGROUND_LOCATION_INTERVAL);
+  }
+  
+  private stopSegmentationTimer(): void {
+    if (this.segmentationTimer) {
+      this.segmentationTimer.remove();
+      this.segmentationTimer = null;
+    }
+  }
+  
+  private async startSampling(profile: SamplingProfile): Promise<void> {
+    this.state.samplingProfile = profile.name;
+    if (profile.paused) return;
+    
+    await this.watchLocation(profile);
+    if (profile.sensorInterval > 0) {
+      await this.startSensorMonitoring(profile.sensorInterval);
+    }
+  }
+  
+  private async watchLocation(profile: SamplingProfile): Promise<void> {
+    if (this.locationSubscription) {
+      this.locationSubscription.remove();
+      this.locationSubscription = null;
+    }
+    this.locationSubscription = await this.sources.location.watchPosition(
       {
-        accuracy: Location.Accuracy.Balanced,
-        timeInterval: APP_CONFIG.BACKGROUND_LOCATION_INTERVAL,
-        distanceInterval: 10, // meters
+        accuracy: profile.accuracy,
+        timeInterval: profile.timeInterval,
+        distanceInterval: profile.distanceInterval,
       },
       (location) => {
         this.processLocationUpdate(location);
       }
     );
-    
-    // Start sensor monitoring
-    await this.startSensorMonitoring();
-    
-    this.state.isTracking = true;
-    this.resetDailyTripNumber();
   }
   
-  async stopTracking(): Promise<void> {
-    if (!this.state.isTracking) return;
-    
-    // Stop location tracking
+  private async stopSampling(): Promise<void> {
     if (this.locationSubscription) {
       this.locationSubscription.remove();
       this.locationSubscription = null;
     }
-    
-    // Stop sensor monitoring
     await this.stopSensorMonitoring();
+  }
+  
+  private handleSamplingProfileChange(profile: SamplingProfile, previous: SamplingProfile): void {
+    this.state.samplingProfile = profile.name;
+    if (!this.state.isTracking) return;
     
-    // End current trip if active
-    if (this.state.currentTrip) {
-      await this.endCurrentTrip();
+    // Changes are applied one at a time so subscriptions never overlap
+    this.samplingUpdate = this.samplingUpdate
+      .then(() => this.applySamplingProfile(profile, previous))
+      .catch(error => {
+        console.error('Failed to apply sampling profile:', error);
+      });
+  }
+  
+  private async applySamplingProfile(profile: SamplingProfile, previous: SamplingProfile): Promise<void> {
+    if (!this.state.isTracking) return;
+    
+    if (profile.paused) {
+      // Save what we have before the battery runs out
+      await this.stopSampling();
+      await this.tripTransition;
+      if (this.state.currentTrip) {
+        await this.endCurrentTrip();
+      }
+      this.segmenter.reset();
+      this.recordingTripId = null;
+      this.locationFilter.reset();
+      this.state.segmentationState = this.segmenter.getState();
+      this.state.isMoving = false;
+      return;
     }
     
-    this.state.isTracking = false;
+    const locationChanged = previous.paused ||
+      profile.accuracy !== previous.accuracy ||
+      profile.timeInterval !== previous.timeInterval ||
+      profile.distanceInterval !== previous.distanceInterval;
+    
+    if (locationChanged) {
+      await this.watchLocation(profile);
+    }
+    
+    if (profile.sensorInterval === 0) {
+      await this.stopSensorMonitoring();
+    } else if (!this.sensorSubscription) {
+      await this.startSensorMonitoring(profile.sensorInterval);
+    } else if (profile.sensorInterval !== previous.sensorInterval) {
+      await this.setSensorInterval(profile.sensorInterval);
+    }
+  }
+  
+  private async startBatteryMonitoring(): Promise<void> {
+    try {
+      const [batteryLevel, batteryState] = await Promise.all([
+        Battery.getBatteryLevelAsync(),
+        Battery.getBatteryStateAsync()
+      ]);
+      this.samplingController.update({
+        batteryLevel: batteryLevel >= 0 ? batteryLevel : null, // -1 when unknown
+        isCharging: this.isCharging(batteryState)
+      });
+      
+      this.batteryLevelSubscription = Battery.addBatteryLevelListener(({ batteryLevel }) => {
+        this.samplingController.update({ batteryLevel: batteryLevel >= 0 ? batteryLevel : null });
+      });
+      this.batteryStateSubscription = Battery.addBatteryStateListener(({ batteryState }) => {
+        this.samplingController.update({ isCharging: this.isCharging(batteryState) });
+      });
+    } catch (error) {
+      console.error('Failed to start battery monitoring:', error);
+    }
+  }
+  
+  private stopBatteryMonitoring(): void {
+    if (this.batteryLevelSubscription) {
+      this.batteryLevelSubscription.remove();
+      this.batteryLevelSubscription = null;
+    }
+    if (this.batteryStateSubscription) {
+      this.batteryStateSubscription.remove();
+      this.batteryStateSubscription = null;
+    }
+  }
+  
+  private isCharging(batteryState: Battery.BatteryState): boolean {
+    return batteryState === Battery.BatteryState.CHARGING || batteryState === Battery.BatteryState.FULL;
+  }
+  
+  private async loadBatteryOptimizationPreference(): Promise<void> {
+    try {
+      const userId = await this.getCurrentUserId();
+      const preferences = userId ? await databaseService.getUserPreferences(userId) : null;
+      if (preferences) {
+        this.samplingController.update({ batteryOptimization: preferences.battery_optimization });
+      }
+    } catch (error) {
+      console.error('Failed to load battery preference:', error);
+    }
+  }
+  
+  private async getCurrentUserId(): Promise<string | null> {
+    try {
+      const { default: AsyncStorage } = await import('@react-native-async-storage/async-storage');
+      const userData = await AsyncStorage.getItem('current_user');
+      if (userData) {
+        const user = JSON.parse(userData);
+        return user.user_id;
+      }
+    } catch (error) {
+      console.error('Failed to get current user ID:', error);
+    }
+    return null;
   }
   
-  private async startSensorMonitoring(): Promise<void> {
+  private async startSensorMonitoring(interval: number): Promise<void> {
     try {
+      // Gyroscope and magnetometer readings are merged into accelerometer samples
+      await this.sources.sensors.setUpdateInterval('gyroscope', interval);
+      this.gyroscopeSubscription = this.sources.sensors.addListener('gyroscope', (data) => {
+        this.latestGyroscope = { x: data.x, y: data.y, z: data.z };
+      });
+      
+      await this.sources.sensors.setUpdateInterval('magnetometer', interval);
+      this.magnetometerSubscription = this.sources.sensors.addListener('magnetometer', (data) => {
+        this.latestMagnetometer = { x: data.x, y: data.y, z: data.z };
+      });
+      
       // Start accelerometer
-      await Sensors.Accelerometer.setUpdateInterval(1000); // 1 second
-      this.sensorSubscription = Sensors.Accelerometer.addListener((data) => {
+      await this.sources.sensors.setUpdateInterval('accelerometer', interval);
+      this.sensorSubscription = this.sources.sensors.addListener('accelerometer', (data) => {
         this.processSensorUpdate({
-          acceleration: data,
-          timestamp: Date.now()
+          acceleration: { x: data.x, y: data.y, z: data.z },
+          gyroscope: this.latestGyroscope,
+          magnetometer: this.latestMagnetometer,
+          timestamp: data.timestamp
         });
       });
     } catch (error) {
@@ -161,29 +390,71 @@ export class TripDetectionService {
       this.sensorSubscription.remove();
       this.sensorSubscription = null;
     }
+    if (this.gyroscopeSubscription) {
+      this.gyroscopeSubscription.remove();
+      this.gyroscopeSubscription = null;
+    }
+    if (this.magnetometerSubscription) {
+      this.magnetometerSubscription.remove();
+      this.magnetometerSubscription = null;
+    }
   }
   
-  private processLocationUpdate(location: any): void {
-    const locationPoint: LocationPoint = {
+  private async setSensorInterval(interval: number): Promise<void> {
+    await this.sources.sensors.setUpdateInterval('gyroscope', interval);
+    await this.sources.sensors.setUpdateInterval('magnetometer', interval);
+    await this.sources.sensors.setUpdateInterval('accelerometer', interval);
+  }
+  
+  private processLocationUpdate(location: LocationFix): void {
+    const rawPoint: LocationPoint = {
       latitude: location.coords.latitude,
       longitude: location.coords.longitude,
       timestamp: location.timestamp,
-      accuracy: location.coords.accuracy,
-      speed: location.coords.speed,
-      heading: location.coords.heading
+      accuracy: location.coords.accuracy ?? undefined,
+      speed: location.coords.speed ?? undefined,
+      heading: location.coords.heading ?? undefined
     };
     
-    this.state.locationPoints.push(locationPoint);
+    // Keep only recent data (last 1 hour)
+    const oneHourAgo = this.sources.clock.now() - (60 * 60 * 1000);
+    
+    // Drop noisy fixes before they can affect detection or distance
+    const { point: locationPoint, rejection } = this.locationFilter.process(rawPoint);
     
-    // Keep only recent location points (last 1 hour)
-    const oneHourAgo = Date.now() - (60 * 60 * 1000);
+    // The fix itself is what gets stored; the smoothed position goes alongside
+    const fix: RecordedFix = locationPoint
+      ? { ...rawPoint, filtered: { latitude: locationPoint.latitude, longitude: locationPoint.longitude, accuracy: locationPoint.accuracy } }
+      : { ...rawPoint, rejection };
+    this.recentFixes.push(fix);
+    this.recentFixes = this.recentFixes.filter(
+      recent => recent.timestamp > oneHourAgo
+    );
+    
+    if (!locationPoint) {
+      // Still part of the trip's record, flagged so analysis skips it
+      if (this.recordingTripId) {
+        this.recordTripPoints(this.recordingTripId, [fix]);
+      }
+      return;
+    }
+    
+    this.state.locationPoints.push(locationPoint);
     this.state.locationPoints = this.state.locationPoints.filter(
       point => point.timestamp > oneHourAgo
     );
     
+    const recordingTripId = this.recordingTripId;
+    
     // Analyze movement
     this.analyzeMovement(locationPoint);
     
+    // Persist the raw fix if it belongs to a trip in progress (a trip that
+    // starts on this fix has already recorded it)
+    if (recordingTripId && this.recordingTripId === recordingTripId) {
+      this.recordTripPoints(recordingTripId, [fix]);
+    }
+    
     this.state.lastLocation = locationPoint;
   }
   
@@ -192,82 +463,110 @@ export class TripDetectionService {
       acceleration: data.acceleration || { x: 0, y: 0, z: 0 },
       gyroscope: data.gyroscope || { x: 0, y: 0, z: 0 },
       magnetometer: data.magnetometer || { x: 0, y: 0, z: 0 },
-      timestamp: data.timestamp || Date.now()
+      timestamp: data.timestamp || this.sources.clock.now()
     };
     
     this.state.sensorData.push(sensorData);
     
     // Keep only recent sensor data (last 1 hour)
-    const oneHourAgo = Date.now() - (60 * 60 * 1000);
+    const oneHourAgo = this.sources.clock.now() - (60 * 60 * 1000);
     this.state.sensorData = this.state.sensorData.filter(
       data => data.timestamp > oneHourAgo
     );
   }
   
   private analyzeMovement(currentLocation: LocationPoint): void {
-    if (!this.state.lastLocation) {
-      this.state.lastLocation = currentLocation;
-      return;
-    }
-    
-    const distance = this.calculateDistance(
-      this.state.lastLocation.latitude,
-      this.state.lastLocation.longitude,
-      currentLocation.latitude,
-      currentLocation.longitude
-    );
-    
-    const timeDiff = (currentLocation.timestamp - this.state.lastLocation.timestamp) / 1000; // seconds
-    const speed = distance / timeDiff; // m/s
+    const wasInTrip = this.segmenter.isInTrip();
     
-    // Determine if moving based on speed and distance
-    const isMoving = speed > 0.5 || distance > 10; // 0.5 m/s or 10m threshold
+    this.handleSegmentationEvents(this.segmenter.process(currentLocation));
     
-    if (isMoving && !this.state.isMoving) {
-      // Started moving - potential trip start
-      this.handleTripStart(currentLocation);
-    } else if (!isMoving && this.state.isMoving) {
-      // Stopped moving - potential trip end
-      this.handleTripEnd(currentLocation);
-    } else if (isMoving && this.state.isMoving) {
+    if (wasInTrip && this.segmenter.isInTrip()) {
       // Continue moving - update current trip
       this.updateCurrentTrip(currentLocation);
-    } else if (!isMoving && !this.state.isMoving) {
-      // Still stationary - update dwell time
-      this.updateDwellTime();
+    }
+  }
+  
+  private handleSegmentationEvents(events: SegmentationEvent[]): void {
+    for (const event of events) {
+      this.queueTripTransition(event);
+    }
+    
+    const previousState = this.state.segmentationState;
+    this.state.segmentationState = this.segmenter.getState();
+    this.state.isMoving = this.segmenter.isInTrip();
+    
+    // A restart picks up from the latest transition
+    if (this.state.segmentationState !== previousState) {
+      this.saveCheckpoint();
+    }
+    
+    // Sample hard while a trip may be starting or is under way
+    const stationary = this.state.segmentationState === 'IDLE' || this.state.segmentationState === 'STOPPED';
+    this.samplingController.update({ motion: stationary ? 'stationary' : 'moving' });
+  }
+  
+  // Starts and ends are handled one at a time, in the order they happened, so
+  // an end never arrives before its trip exists and a start never finds the
+  // previous trip still open while its destination is geocoded
+  private queueTripTransition(event: SegmentationEvent): void {
+    let transition: () => Promise<void>;
+    
+    if (event.type === 'trip_start') {
+      // Fixes are recorded from the start on, however long the trip record
+      // takes; those seen while the start was being confirmed come first
+      const tripId = uuidv4();
+      this.recordingTripId = tripId;
+      this.recordTripPoints(tripId, this.recentFixes.filter(
+        fix => fix.timestamp >= event.point.timestamp
+      ));
+      transition = () => this.handleTripStart(event.point, tripId);
+    } else {
+      this.recordingTripId = null;
+      transition = () => this.handleTripEnd(event.point);
     }
     
-    this.state.isMoving = isMoving;
+    this.tripTransition = this.tripTransition
+      .then(transition)
+      .catch(error => {
+        console.error(`Failed to handle ${event.type}:`, error);
+      });
   }
   
-  private handleTripStart(location: LocationPoint): void {
+  private async handleTripStart(location: LocationPoint, tripId: string): Promise<void> {
     if (this.state.currentTrip) {
       // Already have a trip in progress, don't start a new one
+      await this.discardTripPoints(tripId);
       return;
     }
     
+    // A long dwell since the previous trip ends the trip chain
+    if (
+      this.state.dwellStartTime !== null &&
+      (location.timestamp - this.state.dwellStartTime) / 1000 > APP_CONFIG.CHAIN_BREAK_DWELL_TIME
+    ) {
+      this.state.currentChainId = null;
+    }
+    
     this.state.tripStartTime = location.timestamp;
     this.state.dwellStartTime = null;
     
-    // Get place name for origin
-    this.getPlaceName(location.latitude, location.longitude).then(placeName => {
+    try {
+      // Resolve the origin to a known place or a geocoded name
+      const userId = (await this.getCurrentUserId()) ?? '';
+      const [origin, tripNumber] = await Promise.all([
+        resolveTripLocation(userId, location.latitude, location.longitude),
+        this.getNextTripNumber(userId, location.timestamp)
+      ]);
+      
       this.state.currentTrip = {
-        trip_id: uuidv4(),
-        user_id: '', // Will be set when saving
-        trip_number: this.getNextTripNumber(),
+        trip_id: tripId,
+        user_id: userId,
+        trip_number: tripNumber,
         chain_id: this.state.currentChainId || uuidv4(),
-        origin: {
-          lat: location.latitude,
-          lon: location.longitude,
-          place_name: placeName
-        },
+        origin,
         start_time: new Date(location.timestamp).toISOString(),
-        travel_mode: {
-          detected: this.detectTravelMode(),
-          user_confirmed: null,
-          confidence: 0.5
-        },
-        trip_purpose: 'other', // Default, user can correct
+        travel_mode: toTravelMode(this.classifyTravelMode()),
+        trip_purpose: 'other', // Inferred when the trip ends, user can correct
         num_accompanying: 0,
         accompanying_basic: [],
         sensor_summary: this.calculateSensorSummary(),
@@ -276,49 +575,65 @@ export class TripDetectionService {
         created_at: new Date().toISOString(),
         updated_at: new Date().toISOString()
       };
-      
-      if (!this.state.currentChainId) {
-        this.state.currentChainId = this.state.currentTrip.chain_id!;
-      }
-    });
+    } catch (error) {
+      // Without a trip the fixes have nowhere to go
+      this.state.tripStartTime = null;
+      await this.discardTripPoints(tripId);
+      throw error;
+    }
+    
+    if (!this.state.currentChainId) {
+      this.state.currentChainId = this.state.currentTrip.chain_id!;
+    }
+    this.saveCheckpoint();
   }
   
-  private handleTripEnd(location: LocationPoint): void {
-    if (!this.state.currentTrip || !this.state.tripStartTime) {
+  private async handleTripEnd(location: LocationPoint): Promise<void> {
+    const trip = this.state.currentTrip;
+    if (!trip || this.state.tripStartTime === null) {
       return;
     }
     
     this.state.dwellStartTime = location.timestamp;
+    let tracePoints: LocationPoint[] | undefined;
     
-    // Get place name for destination
-    this.getPlaceName(location.latitude, location.longitude).then(placeName => {
-      this.state.currentTrip!.destination = {
-        lat: location.latitude,
-        lon: location.longitude,
-        place_name: placeName
-      };
+    try {
+      // Resolve the destination to a known place or a geocoded name
+      trip.destination = await resolveTripLocation(trip.user_id!, location.latitude, location.longitude);
       
-      this.state.currentTrip!.end_time = new Date(location.timestamp).toISOString();
-      this.state.currentTrip!.duration_seconds = Math.floor(
-        (location.timestamp - this.state.tripStartTime!) / 1000
+      trip.end_time = new Date(location.timestamp).toISOString();
+      trip.duration_seconds = Math.floor(
+        (location.timestamp - this.state.tripStartTime) / 1000
       );
       
+      const trace = await this.loadTripTrace(trip.trip_id!, location.timestamp);
+      tracePoints = trace.points;
+      
       // Calculate distance
-      this.state.currentTrip!.distance_meters = this.calculateTripDistance();
+      trip.distance_meters = pathDistance(trace.points);
       
       // Update sensor summary
-      this.state.currentTrip!.sensor_summary = this.calculateSensorSummary();
+      trip.sensor_summary = summarizeTripSensors(trace.points, this.state.sensorData, trace.rejectedCount);
       
-      // Detect travel mode with higher confidence
-      this.state.currentTrip!.travel_mode = {
-        detected: this.detectTravelMode(),
-        user_confirmed: null,
-        confidence: this.calculateModeConfidence()
-      };
+      // Classify the whole trip now that all of it is known
+      trip.travel_mode = toTravelMode(this.classifyTravelMode(trace.points));
       
-      // End the trip
-      this.endCurrentTrip();
-    });
+      // Split multimodal trips into legs; the longest leg sets the trip mode
+      const legs = this.buildTripLegs(trip.trip_id!, trace.points);
+      trip.legs = legs;
+      trip.travel_mode = primaryLegMode(legs) ?? trip.travel_mode;
+      
+      // Prefill the purpose so the user only has to correct wrong guesses
+      try {
+        Object.assign(trip, await purposeService.inferPurpose(trip as Trip));
+      } catch (error) {
+        console.error('Failed to infer trip purpose:', error);
+      }
+    } finally {
+      // End the trip even when finishing it failed; an incomplete trip is
+      // discarded rather than left open
+      await this.endCurrentTrip(tracePoints);
+    }
   }
   
   private updateCurrentTrip(location: LocationPoint): void {
@@ -328,247 +643,279 @@ export class TripDetectionService {
     }
   }
   
-  private updateDwellTime(): void {
-    if (!this.state.dwellStartTime) {
-      this.state.dwellStartTime = Date.now();
-    }
-    
-    const dwellTime = (Date.now() - this.state.dwellStartTime) / 1000; // seconds
-    
-    // If dwelling for too long, end the current chain
-    if (dwellTime > APP_CONFIG.DWELL_TIME_THRESHOLD) {
-      this.state.currentChainId = null;
-    }
-  }
-  
-  private async endCurrentTrip(): Promise<void> {
+  private async endCurrentTrip(tracePoints?: LocationPoint[]): Promise<void> {
     if (!this.state.currentTrip) return;
     
     const trip = this.state.currentTrip as Trip;
     
+    await this.flushTripPoints();
+    
     // Validate trip
-    if (this.isValidTrip(trip)) {
-      // Notify listeners
-      this.listeners.forEach(listener => listener(trip));
+    if (isValidTrip(trip)) {
+      // Keep the features so a later correction becomes a training example
+      const points = tracePoints ?? this.getTripLocationPoints(new Date(trip.end_time).getTime());
+      try {
+        await databaseService.saveModeExamples(this.buildModeExamples(trip, points));
+      } catch (error) {
+        console.error('Failed to save mode examples:', error);
+      }
+      
+      // Notify listeners; trips closed before anyone listens wait for the first one
+      if (this.listeners.length > 0) {
+        this.listeners.forEach(listener => listener(trip));
+      } else {
+        this.undeliveredTrips.push(trip);
+      }
+    } else {
+      // Discarded trips should not leave orphaned points behind
+      await this.discardTripPoints(trip.trip_id);
     }
     
     // Reset state
     this.state.currentTrip = null;
     this.state.tripStartTime = null;
-    this.state.dwellStartTime = null;
+    this.unsavedTripPoints.delete(trip.trip_id);
+    this.saveCheckpoint();
   }
   
-  private isValidTrip(trip: Trip): boolean {
-    return (
-      trip.duration_seconds >= APP_CONFIG.MIN_TRIP_DURATION &&
-      trip.distance_meters >= APP_CONFIG.MIN_TRIP_DISTANCE
-    );
+  private recordTripPoints(tripId: string, fixes: RecordedFix[]): void {
+    if (fixes.length === 0) return;
+    this.unsavedTripPoints.set(tripId, (this.unsavedTripPoints.get(tripId) ?? []).concat(fixes));
+    this.flushTripPoints();
+  }
+  
+  // Writes are queued, so once this resolves every point recorded so far is stored
+  private flushTripPoints(): Promise<void> {
+    const pending = this.unsavedTripPoints;
+    this.unsavedTripPoints = new Map();
+    
+    this.pointsWrite = this.pointsWrite.then(async () => {
+      for (const [tripId, points] of pending) {
+        try {
+          await databaseService.saveTripPoints(tripId, points);
+        } catch (error) {
+          console.error('Failed to persist trip points:', error);
+          // Keep the points so the next flush can retry them
+          this.unsavedTripPoints.set(tripId, points.concat(this.unsavedTripPoints.get(tripId) ?? []));
+        }
+      }
+    });
+    return this.pointsWrite;
   }
   
-  private detectTravelMode(): string {
-    if (this.state.locationPoints.length < 2) {
-      return 'other';
+  private async discardTripPoints(tripId: string): Promise<void> {
+    await this.flushTripPoints();
+    this.unsavedTripPoints.delete(tripId);
+    try {
+      await databaseService.deleteTripPoints(tripId);
+    } catch (error) {
+      console.error('Failed to delete trip points:', error);
     }
-    
-    const recentPoints = this.state.locationPoints.slice(-10); // Last 10 points
-    const speeds = [];
-    
-    for (let i = 1; i < recentPoints.length; i++) {
-      const distance = this.calculateDistance(
-        recentPoints[i-1].latitude,
-        recentPoints[i-1].longitude,
-        recentPoints[i].latitude,
-        recentPoints[i].longitude
-      );
-      const timeDiff = (recentPoints[i].timestamp - recentPoints[i-1].timestamp) / 1000;
-      const speed = distance / timeDiff;
-      speeds.push(speed);
+  }
+  
+  // The whole trip from storage; the fixes kept in memory only cover the
+  // last hour, which a long trip or a late end outgrows
+  private async loadTripTrace(tripId: string, endTime: number): Promise<TripTrace> {
+    await this.flushTripPoints();
+    
+    // Points that could not be saved are only in memory
+    if (!this.unsavedTripPoints.has(tripId)) {
+      try {
+        const points = await databaseService.getTripPoints(tripId);
+        return {
+          points: points.filter(point => point.timestamp <= endTime),
+          rejectedCount: await databaseService.countRejectedTripPoints(tripId, endTime)
+        };
+      } catch (error) {
+        console.error('Failed to load trip points:', error);
+      }
     }
     
-    const avgSpeed = speeds.reduce((sum, speed) => sum + speed, 0) / speeds.length;
-    
-    // Use sensor data to help with detection
-    const hasVehicleAcceleration = this.hasVehicleAccelerationPattern();
-    
-    if (avgSpeed < APP_CONFIG.SPEED_THRESHOLDS.WALKING) {
-      return 'walking';
-    } else if (avgSpeed < APP_CONFIG.SPEED_THRESHOLDS.CYCLING) {
-      return 'cycling';
-    } else if (avgSpeed < APP_CONFIG.SPEED_THRESHOLDS.VEHICLE && !hasVehicleAcceleration) {
-      return 'public_transport';
-    } else {
-      return 'private_vehicle';
-    }
+    const startTime = this.state.tripStartTime;
+    return {
+      points: this.getTripLocationPoints(endTime),
+      rejectedCount: this.recentFixes.filter(fix =>
+        fix.rejection !== undefined &&
+        (startTime === null || fix.timestamp >= startTime) &&
+        fix.timestamp <= endTime
+      ).length
+    };
+  }
+  
+  private buildTripLegs(tripId: string, points: LocationPoint[]): TripLeg[] {
+    return buildTripLegs(tripId, points, windowPoints => this.classifyTravelMode(windowPoints));
   }
   
-  private hasVehicleAccelerationPattern(): boolean {
-    if (this.state.sensorData.length < 5) return false;
+  private buildModeExamples(trip: Trip, tripPoints: LocationPoint[]): ModeExample[] {
+    const now = new Date().toISOString();
+    const example = (exampleId: string, points: LocationPoint[], detectedMode: string): ModeExample => ({
+      example_id: exampleId,
+      trip_id: trip.trip_id,
+      user_id: trip.user_id,
+      features: extractModeFeatures(points, this.state.sensorData),
+      detected_mode: detectedMode,
+      confirmed_mode: null,
+      created_at: now,
+      updated_at: now
+    });
     
-    const recentAccelerations = this.state.sensorData.slice(-5);
-    let accelerationVariance = 0;
+    const examples = [example(trip.trip_id, tripPoints, trip.travel_mode.detected)];
     
-    for (let i = 1; i < recentAccelerations.length; i++) {
-      const accel1 = recentAccelerations[i-1].acceleration;
-      const accel2 = recentAccelerations[i].acceleration;
-      const diff = Math.sqrt(
-        Math.pow(accel2.x - accel1.x, 2) +
-        Math.pow(accel2.y - accel1.y, 2) +
-        Math.pow(accel2.z - accel1.z, 2)
-      );
-      accelerationVariance += diff;
+    // Legs of multimodal trips are corrected individually, so they get their own examples
+    if (trip.legs && trip.legs.length > 1) {
+      for (const leg of trip.legs) {
+        const start = new Date(leg.start_time).getTime();
+        const end = new Date(leg.end_time).getTime();
+        const legPoints = tripPoints.filter(point => point.timestamp >= start && point.timestamp <= end);
+        examples.push(example(leg.leg_id, legPoints, leg.travel_mode.detected));
+      }
     }
     
-    return accelerationVariance > APP_CONFIG.ACCELERATION_THRESHOLD;
+    return examples;
   }
   
-  private calculateModeConfidence(): number {
-    // Calculate confidence based on sensor data consistency and speed patterns
-    const recentPoints = this.state.locationPoints.slice(-10);
-    if (recentPoints.length < 3) return 0.3;
-    
-    const speeds = [];
-    for (let i = 1; i < recentPoints.length; i++) {
-      const distance = this.calculateDistance(
-        recentPoints[i-1].latitude,
-        recentPoints[i-1].longitude,
-        recentPoints[i].latitude,
-        recentPoints[i].longitude
-      );
-      const timeDiff = (recentPoints[i].timestamp - recentPoints[i-1].timestamp) / 1000;
-      const speed = distance / timeDiff;
-      speeds.push(speed);
-    }
-    
-    const avgSpeed = speeds.reduce((sum, speed) => sum + speed, 0) / speeds.length;
-    const speedVariance = speeds.reduce((sum, speed) => sum + Math.pow(speed - avgSpeed, 2), 0) / speeds.length;
-    
-    // Higher confidence for consistent speeds
-    const speedConsistency = Math.max(0, 1 - (speedVariance / avgSpeed));
-    
-    // Higher confidence with more sensor data
-    const dataConfidence = Math.min(1, this.state.sensorData.length / 20);
-    
-    return Math.min(0.9, (speedConsistency + dataConfidence) / 2);
+  private classifyTravelMode(points: LocationPoint[] = this.state.locationPoints.slice(-10)): ModePrediction {
+    return classifyWindow(this.classifier, points, this.state.sensorData);
+  }
+  
+  // Filtered fixes belonging to the current trip (or all recent fixes when idle)
+  private getTripLocationPoints(endTime?: number): LocationPoint[] {
+    const startTime = this.state.tripStartTime;
+    return this.state.locationPoints.filter(point =>
+      (startTime === null || point.timestamp >= startTime) &&
+      (endTime === undefined || point.timestamp <= endTime)
+    );
   }
   
+  // Running summary of a trip in progress, from the recent fixes
   private calculateSensorSummary(): SensorSummary {
-    if (this.state.locationPoints.length === 0) {
-      return {
-        average_speed: 0,
-        variance_accel: 0,
-        gps_points_count: 0,
-        max_speed: 0,
-        min_speed: 0,
-        total_acceleration: 0
-      };
-    }
-    
-    const speeds = [];
-    let totalAcceleration = 0;
-    
-    // Calculate speeds from location points
-    for (let i = 1; i < this.state.locationPoints.length; i++) {
-      const distance = this.calculateDistance(
-        this.state.locationPoints[i-1].latitude,
-        this.state.locationPoints[i-1].longitude,
-        this.state.locationPoints[i].latitude,
-        this.state.locationPoints[i].longitude
-      );
-      const timeDiff = (this.state.locationPoints[i].timestamp - this.state.locationPoints[i-1].timestamp) / 1000;
-      const speed = distance / timeDiff;
-      speeds.push(speed);
-    }
-    
-    // Calculate acceleration from sensor data
-    for (let i = 1; i < this.state.sensorData.length; i++) {
-      const accel1 = this.state.sensorData[i-1].acceleration;
-      const accel2 = this.state.sensorData[i].acceleration;
-      const acceleration = Math.sqrt(
-        Math.pow(accel2.x - accel1.x, 2) +
-        Math.pow(accel2.y - accel1.y, 2) +
-        Math.pow(accel2.z - accel1.z, 2)
-      );
-      totalAcceleration += acceleration;
-    }
-    
-    const averageSpeed = speeds.length > 0 ? speeds.reduce((sum, speed) => sum + speed, 0) / speeds.length : 0;
-    const maxSpeed = speeds.length > 0 ? Math.max(...speeds) : 0;
-    const minSpeed = speeds.length > 0 ? Math.min(...speeds) : 0;
-    
-    // Calculate acceleration variance
-    const accelerationVariance = this.state.sensorData.length > 1 ? 
-      totalAcceleration / (this.state.sensorData.length - 1) : 0;
-    
-    return {
-      average_speed: averageSpeed,
-      variance_accel: accelerationVariance,
-      gps_points_count: this.state.locationPoints.length,
-      max_speed: maxSpeed,
-      min_speed: minSpeed,
-      total_acceleration: totalAcceleration
-    };
+    const points = this.getTripLocationPoints();
+    const startTime = this.state.tripStartTime;
+    const rejectedCount = this.recentFixes.filter(fix =>
+      fix.rejection !== undefined &&
+      (startTime === null || fix.timestamp >= startTime)
+    ).length;
+    
+    return summarizeTripSensors(points, this.state.sensorData, rejectedCount);
   }
   
-  private calculateTripDistance(): number {
-    if (this.state.locationPoints.length < 2) return 0;
-    
-    let totalDistance = 0;
-    for (let i = 1; i < this.state.locationPoints.length; i++) {
-      const distance = this.calculateDistance(
-        this.state.locationPoints[i-1].latitude,
-        this.state.locationPoints[i-1].longitude,
-        this.state.locationPoints[i].latitude,
-        this.state.locationPoints[i].longitude
-      );
-      totalDistance += distance;
+  // Numbered from the stored trips of the local day; saving the trip
+  // renumbers the day, so a failed lookup here is corrected then
+  private async getNextTripNumber(userId: string, startTime: number): Promise<number> {
+    try {
+      this.state.dailyTripNumber = await tripNumberingService.getNextTripNumber(userId, new Date(startTime).toISOString());
+    } catch (error) {
+      console.error('Failed to number trip:', error);
+      this.state.dailyTripNumber++;
     }
-    
-    return totalDistance;
+    return this.state.dailyTripNumber;
   }
   
-  private calculateDistance(lat1: number, lon1: number, lat2: number, lon2: number): number {
-    const R = 6371000; // Earth's radius in meters
-    const dLat = (lat2 - lat1) * Math.PI / 180;
-    const dLon = (lon2 - lon1) * Math.PI / 180;
-    const a = Math.sin(dLat/2) * Math.sin(dLat/2) +
-              Math.cos(lat1 * Math.PI / 180) * Math.cos(lat2 * Math.PI / 180) *
-              Math.sin(dLon/2) * Math.sin(dLon/2);
-    const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1-a));
-    return R * c;
+  private saveCheckpoint(): void {
+    const checkpoint: DetectionCheckpoint = {
+      currentTrip: this.state.currentTrip,
+      tripStartTime: this.state.tripStartTime,
+      dwellStartTime: this.state.dwellStartTime,
+      currentChainId: this.state.currentChainId,
+      savedAt: this.sources.clock.now()
+    };
+    
+    // Writes are queued so an older checkpoint never overwrites a newer one
+    this.checkpointWrite = this.checkpointWrite
+      .then(async () => {
+        const { default: AsyncStorage } = await import('@react-native-async-storage/async-storage');
+        await AsyncStorage.setItem(DETECTION_CHECKPOINT_KEY, JSON.stringify(checkpoint));
+      })
+      .catch(error => {
+        console.error('Failed to save detection checkpoint:', error);
+      });
   }
   
-  private async getPlaceName(latitude: number, longitude: number): Promise<string> {
+  private async restoreCheckpoint(): Promise<void> {
     try {
-      const result = await Location.reverseGeocodeAsync({ latitude, longitude });
-      if (result.length > 0) {
-        const place = result[0];
-        return `${place.name || place.street || 'Unknown'}, ${place.city || place.region || 'Unknown'}`;
+      const { default: AsyncStorage } = await import('@react-native-async-storage/async-storage');
+      const stored = await AsyncStorage.getItem(DETECTION_CHECKPOINT_KEY);
+      if (!stored) return;
+      
+      const checkpoint: DetectionCheckpoint = JSON.parse(stored);
+      this.state.currentChainId = checkpoint.currentChainId;
+      this.state.dwellStartTime = checkpoint.dwellStartTime;
+      
+      if (checkpoint.currentTrip?.trip_id && checkpoint.tripStartTime !== null) {
+        await this.resumeTrip(checkpoint.currentTrip, checkpoint.tripStartTime);
       }
     } catch (error) {
-      console.error('Error getting place name:', error);
+      console.error('Failed to restore detection checkpoint:', error);
     }
-    return 'Unknown Location';
   }
   
-  private getNextTripNumber(): number {
-    this.state.dailyTripNumber++;
-    return this.state.dailyTripNumber;
+  // Picks a checkpointed trip back up from the fixes persisted before the restart
+  private async resumeTrip(trip: Partial<Trip>, tripStartTime: number): Promise<void> {
+    await databaseService.initialize();
+    const points = await databaseService.getTripPoints(trip.trip_id!);
+    const lastFix: LocationPoint = points.length > 0
+      ? points[points.length - 1]
+      : { latitude: trip.origin!.lat, longitude: trip.origin!.lon, timestamp: tripStartTime };
+    
+    this.state.currentTrip = trip;
+    this.state.tripStartTime = tripStartTime;
+    this.state.locationPoints = points;
+    this.state.lastLocation = lastFix;
+    this.segmenter.resumeTrip(lastFix);
+    this.recordingTripId = trip.trip_id!;
+    
+    // A trip whose last fix is older than the dwell threshold ended while the
+    // app was not running, and is closed at that fix
+    this.handleSegmentationEvents(this.segmenter.tick(this.sources.clock.now()));
+    
+    // Nothing else advances the segmenter until tracking starts again
+    if (this.segmenter.isInTrip() && !this.state.isTracking) {
+      this.startSegmentationTimer();
+    }
   }
   
-  private resetDailyTripNumber(): void {
-    // Reset trip number at midnight
-    const now = new Date();
-    const midnight = new Date(now.getFullYear(), now.getMonth(), now.getDate() + 1);
-    const timeUntilMidnight = midnight.getTime() - now.getTime();
-    
-    setTimeout(() => {
-      this.state.dailyTripNumber = 0;
-    }, timeUntilMidnight);
+  // Public methods
+  // Swap the device for other inputs, e.g. a recorded trace replay
+  setDetectionSources(sources: DetectionSources): void {
+    if (this.state.isTracking) {
+      throw new Error('Cannot change detection sources while tracking');
+    }
+    this.sources = sources;
+  }
+  
+  // Swap in a different travel mode model
+  setModeClassifier(classifier: TravelModeClassifier): void {
+    this.classifier = classifier;
+  }
+  
+  // Called when the user changes the battery optimisation setting
+  setBatteryOptimization(enabled: boolean): void {
+    this.samplingController.update({ batteryOptimization: enabled });
+  }
+  
+  // Rebuild the classifier from the user's confirmed modes; call after corrections
+  async refreshModeClassifier(): Promise<void> {
+    try {
+      const userId = await this.getCurrentUserId();
+      const examples = userId
+        ? await databaseService.getLabelledModeExamples(userId, APP_CONFIG.MODE_PERSONALIZATION.MAX_EXAMPLES)
+        : [];
+      this.setModeClassifier(
+        examples.length > 0
+          ? new PersonalizedModeClassifier(defaultModeClassifier, examples)
+          : defaultModeClassifier
+      );
+    } catch (error) {
+      console.error('Failed to refresh mode classifier:', error);
+    }
   }
   
-  // Public methods
   addTripListener(listener: (trip: Trip) => void): void {
     this.listeners.push(listener);
+    
+    const undelivered = this.undeliveredTrips;
+    this.undeliveredTrips = [];
+    undelivered.forEach(trip => listener(trip));
   }
   
   removeTripListener(listener: (trip: Trip) => void): void {
@@ -582,8 +929,10 @@ export class TripDetectionService {
     return {
       isTracking: this.state.isTracking,
       isMoving: this.state.isMoving,
+      segmentationState: this.state.segmentationState,
       currentTrip: this.state.currentTrip,
-      dailyTripNumber: this.state.dailyTripNumber
+      dailyTripNumber: this.state.dailyTripNumber,
+      samplingProfile: this.state.samplingProfile
     };
   }
   
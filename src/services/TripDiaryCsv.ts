@@ -0,0 +1,112 @@
+import { Trip, TripLeg, ACCOMPANYING_RELATIONS } from '../types';
+import { APP_CONFIG } from '../constants/Config';
+
+// Trip diary as CSV in the layout of the NATPAC trip model.
+// One row per trip, optionally followed by one row per leg. Columns are
+// versioned: bump CSV_SCHEMA_VERSION whenever a column is added, removed,
+// renamed or reordered so analysts can tell files apart.
+
+export const CSV_SCHEMA_NAME = 'natpac-trip-diary';
+export const CSV_SCHEMA_VERSION = '1.0';
+
+type CsvValue = string | number | boolean | null | undefined;
+
+interface CsvColumn {
+  name: string;
+  trip: (trip: Trip) => CsvValue;
+  leg?: (leg: TripLeg, trip: Trip) => CsvValue; // blank on leg rows when absent
+}
+
+const accompanyingCount = (trip: Trip, relation: string, field: 'adult_count' | 'child_count'): number =>
+  trip.accompanying_basic
+    .filter(person => person.relation === relation)
+    .reduce((sum, person) => sum + person[field], 0);
+
+const accompanyingColumns: CsvColumn[] = ACCOMPANYING_RELATIONS.flatMap(relation => [
+  { name: `accompanying_${relation}_adults`, trip: (trip: Trip) => accompanyingCount(trip, relation, 'adult_count') },
+  { name: `accompanying_${relation}_children`, trip: (trip: Trip) => accompanyingCount(trip, relation, 'child_count') },
+]);
+
+export const CSV_COLUMNS: CsvColumn[] = [
+  { name: 'record_type', trip: () => 'trip', leg: () => 'leg' },
+  { name: 'trip_id', trip: trip => trip.trip_id, leg: (_leg, trip) => trip.trip_id },
+  { name: 'leg_number', trip: () => null, leg: leg => leg.leg_number },
+  { name: 'user_id', trip: trip => trip.user_id, leg: (_leg, trip) => trip.user_id },
+  { name: 'trip_number', trip: trip => trip.trip_number, leg: (_leg, trip) => trip.trip_number },
+  { name: 'chain_id', trip: trip => trip.chain_id, leg: (_leg, trip) => trip.chain_id },
+  { name: 'origin_lat', trip: trip => trip.origin.lat, leg: leg => leg.start.lat },
+  { name: 'origin_lon', trip: trip => trip.origin.lon, leg: leg => leg.start.lon },
+  { name: 'origin_place', trip: trip => trip.origin.place_name },
+  { name: 'destination_lat', trip: trip => trip.destination.lat, leg: leg => leg.end.lat },
+  { name: 'destination_lon', trip: trip => trip.destination.lon, leg: leg => leg.end.lon },
+  { name: 'destination_place', trip: trip => trip.destination.place_name },
+  { name: 'start_time', trip: trip => trip.start_time, leg: leg => leg.start_time },
+  { name: 'end_time', trip: trip => trip.end_time, leg: leg => leg.end_time },
+  { name: 'duration_seconds', trip: trip => trip.duration_seconds, leg: leg => leg.duration_seconds },
+  { name: 'distance_meters', trip: trip => Math.round(trip.distance_meters), leg: leg => Math.round(leg.distance_meters) },
+  { name: 'mode_detected', trip: trip => trip.travel_mode.detected, leg: leg => leg.travel_mode.detected },
+  { name: 'mode_confirmed', trip: trip => trip.travel_mode.user_confirmed, leg: leg => leg.travel_mode.user_confirmed },
+  { name: 'mode_confidence', trip: trip => trip.travel_mode.confidence.toFixed(2), leg: leg => leg.travel_mode.confidence.toFixed(2) },
+  { name: 'trip_purpose', trip: trip => trip.trip_purpose },
+  { name: 'purpose_confirmed', trip: trip => trip.purpose_confirmed ?? false },
+  { name: 'num_accompanying', trip: trip => trip.num_accompanying },
+  ...accompanyingColumns,
+  { name: 'notes', trip: trip => trip.notes },
+  { name: 'recorded_offline', trip: trip => trip.recorded_offline },
+  { name: 'import_source', trip: trip => trip.import_source },
+];
+
+export interface TripCsvOptions {
+  includeLegs: boolean; // a row per leg after each trip
+  includeManifest: boolean; // '#' lines describing the file before the header
+  exportedAt?: string; // ISO8601, defaults to now
+}
+
+export const DEFAULT_TRIP_CSV_OPTIONS: TripCsvOptions = {
+  includeLegs: false,
+  includeManifest: true,
+};
+
+// RFC 4180 quoting. Text starting with a formula character is prefixed with
+// a quote so spreadsheets show it instead of evaluating it.
+export const escapeCsvValue = (value: CsvValue): string => {
+  if (value === null || value === undefined) return '';
+  if (typeof value === 'boolean') return value ? 'true' : 'false';
+  if (typeof value === 'number') return Number.isFinite(value) ? String(value) : '';
+  
+  const text = /^[=+\-@\t\r]/.test(value) ? `'${value}` : value;
+  return /[",\r\n]|^\s|\s$/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+const csvRow = (values: CsvValue[]): string => values.map(escapeCsvValue).join(',');
+
+export const tripsToCsv = (trips: Trip[], options: Partial<TripCsvOptions> = {}): string => {
+  const { includeLegs, includeManifest, exportedAt = new Date().toISOString() } = { ...DEFAULT_TRIP_CSV_OPTIONS, ...options };
+  const lines: string[] = [];
+  
+  if (includeManifest) {
+    const legCount = trips.reduce((sum, trip) => sum + (trip.legs?.length ?? 0), 0);
+    lines.push(
+      `# schema: ${CSV_SCHEMA_NAME}`,
+      `# schema_version: ${CSV_SCHEMA_VERSION}`,
+      `# generator: ${APP_CONFIG.APP_NAME} ${APP_CONFIG.APP_VERSION}`,
+      `# exported_at: ${exportedAt}`,
+      `# trip_rows: ${trips.length}`,
+      `# leg_rows: ${includeLegs ? legCount : 0}`,
+      `# columns: ${CSV_COLUMNS.length}`
+    );
+  }
+  
+  lines.push(csvRow(CSV_COLUMNS.map(column => column.name)));
+  
+  for (const trip of trips) {
+    lines.push(csvRow(CSV_COLUMNS.map(column => column.trip(trip))));
+    if (!includeLegs) continue;
+    
+    for (const leg of trip.legs ?? []) {
+      lines.push(csvRow(CSV_COLUMNS.map(column => column.leg ? column.leg(leg, trip) : null)));
+    }
+  }
+  
+  return lines.join('\r\n') + '\r\n';
+};
@@ -0,0 +1,178 @@
+import { Trip, LocationPoint } from '../types';
+import { APP_CONFIG } from '../constants/Config';
+
+// Writing stored trips as files other tools understand.
+// Each trip becomes one track; its recorded fixes when they were kept, else
+// the leg endpoints, else just origin and destination.
+
+export type ExportFormat = 'gpx' | 'geojson' | 'kml';
+
+export interface ExportedTrip {
+  trip: Trip;
+  points: LocationPoint[];
+}
+
+export const EXPORT_FILE_TYPES: Record<ExportFormat, { extension: string; mimeType: string }> = {
+  gpx: { extension: 'gpx', mimeType: 'application/gpx+xml' },
+  geojson: { extension: 'geojson', mimeType: 'application/geo+json' },
+  kml: { extension: 'kml', mimeType: 'application/vnd.google-earth.kml+xml' },
+};
+
+interface PathPoint {
+  lat: number;
+  lon: number;
+  time?: string; // ISO8601
+}
+
+const tripPath = ({ trip, points }: ExportedTrip): PathPoint[] => {
+  if (points.length > 0) {
+    return points.map(point => ({
+      lat: point.latitude,
+      lon: point.longitude,
+      time: new Date(point.timestamp).toISOString()
+    }));
+  }
+  
+  if (trip.legs && trip.legs.length > 0) {
+    const path: PathPoint[] = [{ ...trip.legs[0].start, time: trip.legs[0].start_time }];
+    for (const leg of trip.legs) {
+      path.push({ ...leg.end, time: leg.end_time });
+    }
+    return path;
+  }
+  
+  return [
+    { lat: trip.origin.lat, lon: trip.origin.lon, time: trip.start_time },
+    { lat: trip.destination.lat, lon: trip.destination.lon, time: trip.end_time }
+  ];
+};
+
+const tripMode = (trip: Trip): string => trip.travel_mode.user_confirmed || trip.travel_mode.detected;
+
+const tripTitle = (trip: Trip): string =>
+  `Trip ${trip.trip_number}: ${trip.origin.place_name} to ${trip.destination.place_name}`;
+
+// Flat properties shared by the GeoJSON and KML exports
+const tripProperties = (trip: Trip): Record<string, string | number | boolean | null> => ({
+  trip_id: trip.trip_id,
+  trip_number: trip.trip_number,
+  chain_id: trip.chain_id,
+  start_time: trip.start_time,
+  end_time: trip.end_time,
+  duration_seconds: trip.duration_seconds,
+  distance_meters: Math.round(trip.distance_meters),
+  travel_mode: tripMode(trip),
+  travel_mode_confirmed: trip.travel_mode.user_confirmed !== null,
+  trip_purpose: trip.trip_purpose,
+  origin: trip.origin.place_name,
+  destination: trip.destination.place_name,
+  num_accompanying: trip.num_accompanying,
+  notes: trip.notes ?? null,
+  import_source: trip.import_source ?? null,
+});
+
+const escapeXml = (value: string): string =>
+  value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+
+export const tripsToGpx = (trips: ExportedTrip[]): string => {
+  const tracks = trips.map(exported => {
+    const { trip } = exported;
+    const points = tripPath(exported).map(point =>
+      `      <trkpt lat="${point.lat}" lon="${point.lon}">${point.time ? `<time>${point.time}</time>` : ''}</trkpt>`
+    );
+    return [
+      '  <trk>',
+      `    <name>${escapeXml(tripTitle(trip))}</name>`,
+      `    <desc>${escapeXml(`${tripMode(trip)}, ${trip.trip_purpose}`)}</desc>`,
+      `    <type>${escapeXml(tripMode(trip))}</type>`,
+      '    <trkseg>',
+      ...points,
+      '    </trkseg>',
+      '  </trk>'
+    ].join('\n');
+  });
+  
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<gpx version="1.1" creator="${escapeXml(APP_CONFIG.APP_NAME)}" xmlns="http://www.topografix.com/GPX/1/1">`,
+    ...tracks,
+    '</gpx>',
+    ''
+  ].join('\n');
+};
+
+// Point times go in properties.coordTimes, which the importer reads back
+export const tripsToGeoJson = (trips: ExportedTrip[]): string => {
+  const features = trips.map(exported => {
+    const { trip } = exported;
+    const path = tripPath(exported);
+    return {
+      type: 'Feature',
+      properties: {
+        name: tripTitle(trip),
+        ...tripProperties(trip),
+        legs: (trip.legs ?? []).map(leg => ({
+          leg_number: leg.leg_number,
+          travel_mode: leg.travel_mode.user_confirmed || leg.travel_mode.detected,
+          start_time: leg.start_time,
+          end_time: leg.end_time,
+          distance_meters: Math.round(leg.distance_meters)
+        })),
+        coordTimes: path.map(point => point.time ?? null)
+      },
+      geometry: {
+        type: 'LineString',
+        coordinates: path.map(point => [point.lon, point.lat])
+      }
+    };
+  });
+  
+  return JSON.stringify({ type: 'FeatureCollection', features }, null, 2);
+};
+
+export const tripsToKml = (trips: ExportedTrip[]): string => {
+  const placemarks = trips.map(exported => {
+    const { trip } = exported;
+    const data = Object.entries(tripProperties(trip))
+      .filter(([, value]) => value !== null)
+      .map(([name, value]) => `      <Data name="${name}"><value>${escapeXml(String(value))}</value></Data>`);
+    const coordinates = tripPath(exported).map(point => `${point.lon},${point.lat},0`).join(' ');
+    return [
+      '  <Placemark>',
+      `    <name>${escapeXml(tripTitle(trip))}</name>`,
+      `    <TimeSpan><begin>${trip.start_time}</begin><end>${trip.end_time}</end></TimeSpan>`,
+      '    <ExtendedData>',
+      ...data,
+      '    </ExtendedData>',
+      `    <LineString><tessellate>1</tessellate><coordinates>${coordinates}</coordinates></LineString>`,
+      '  </Placemark>'
+    ].join('\n');
+  });
+  
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<kml xmlns="http://www.opengis.net/kml/2.2">',
+    '<Document>',
+    `  <name>${escapeXml(APP_CONFIG.APP_NAME)}</name>`,
+    ...placemarks,
+    '</Document>',
+    '</kml>',
+    ''
+  ].join('\n');
+};
+
+export const formatTrips = (format: ExportFormat, trips: ExportedTrip[]): string => {
+  switch (format) {
+    case 'gpx':
+      return tripsToGpx(trips);
+    case 'geojson':
+      return tripsToGeoJson(trips);
+    case 'kml':
+      return tripsToKml(trips);
+  }
+};
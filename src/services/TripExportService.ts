@@ -0,0 +1,79 @@
+import { File, Paths } from 'expo-file-system';
+import * as Sharing from 'expo-sharing';
+import { TripExportFilter } from '../types';
+import { databaseService } from './DatabaseService';
+import { ExportFormat, ExportedTrip, EXPORT_FILE_TYPES, formatTrips } from './TripExportFormats';
+import { tripsToCsv, TripCsvOptions } from './TripDiaryCsv';
+
+export interface TripExportResult {
+  uri: string;
+  fileName: string;
+  mimeType: string;
+  tripCount: number;
+}
+
+export class TripExportService {
+  // Matching trips as a GPX, GeoJSON or KML file
+  async exportTrips(format: ExportFormat, filter: TripExportFilter = {}): Promise<TripExportResult> {
+    const userId = await this.getCurrentUserId();
+    if (!userId) throw new Error('User not authenticated');
+    
+    const trips = await databaseService.getTripsForExport(userId, filter);
+    const exported: ExportedTrip[] = [];
+    for (const trip of trips) {
+      exported.push({ trip, points: await databaseService.getTripPoints(trip.trip_id) });
+    }
+    
+    const { extension, mimeType } = EXPORT_FILE_TYPES[format];
+    return this.writeExportFile(`trips-${this.dateStamp()}.${extension}`, formatTrips(format, exported), mimeType, trips.length);
+  }
+  
+  // Trip diary in the NATPAC table layout; works offline
+  async exportDiaryCsv(filter: TripExportFilter = {}, options: Partial<TripCsvOptions> = {}): Promise<TripExportResult> {
+    const userId = await this.getCurrentUserId();
+    if (!userId) throw new Error('User not authenticated');
+    
+    const trips = await databaseService.getTripsForExport(userId, filter);
+    return this.writeExportFile(`trip-diary-${this.dateStamp()}.csv`, tripsToCsv(trips, options), 'text/csv', trips.length);
+  }
+  
+  // Opens the platform share sheet for an exported file
+  async shareExport(result: TripExportResult): Promise<void> {
+    if (!(await Sharing.isAvailableAsync())) {
+      throw new Error('Sharing is not available on this device');
+    }
+    await Sharing.shareAsync(result.uri, {
+      mimeType: result.mimeType,
+      dialogTitle: 'Export trips'
+    });
+  }
+  
+  // Exports go to the cache directory, replacing an earlier export of the same name
+  private writeExportFile(fileName: string, content: string, mimeType: string, tripCount: number): TripExportResult {
+    const file = new File(Paths.cache, fileName);
+    if (file.exists) file.delete();
+    file.create();
+    file.write(content);
+    return { uri: file.uri, fileName, mimeType, tripCount };
+  }
+  
+  private dateStamp(): string {
+    return new Date().toISOString().slice(0, 10);
+  }
+  
+  private async getCurrentUserId(): Promise<string | null> {
+    try {
+      const { default: AsyncStorage } = await import('@react-native-async-storage/async-storage');
+      const userData = await AsyncStorage.getItem('current_user');
+      if (userData) {
+        const user = JSON.parse(userData);
+        return user.user_id;
+      }
+    } catch (error) {
+      console.error('Failed to get current user ID:', error);
+    }
+    return null;
+  }
+}
+
+export const tripExportService = new TripExportService();
@@ -0,0 +1,255 @@
+import { v4 as uuidv4 } from 'uuid';
+import { Trip, LocationPoint, ModeExample } from '../types';
+import { APP_CONFIG } from '../constants/Config';
+import { databaseService } from './DatabaseService';
+import { LocationFilter } from './LocationFilter';
+import { segmentTrace } from './TripSegmentation';
+import { TravelModeClassifier, classifyWindow, extractModeFeatures, defaultModeClassifier } from './ModeClassifier';
+import { PersonalizedModeClassifier } from './ModePersonalization';
+import { purposeService } from './PurposeService';
+import { placeService } from './PlaceService';
+import { tripNumberingService } from './TripNumberingService';
+import { parseTraceFile, traceFileFormat } from './TraceFormats';
+import {
+  buildTripLegs,
+  primaryLegMode,
+  toTravelMode,
+  isValidTrip,
+  summarizeTripSensors,
+  resolveTripLocation
+} from './TripAssembly';
+import { pathDistance } from '../utils/geo';
+
+// Backfilling trips from GPX or GeoJSON files recorded elsewhere.
+// The trace goes through the same noise filter, segmentation and mode
+// detection as live tracking; nothing is stored until the user confirms.
+
+export interface ImportedTrip {
+  trip: Trip;
+  points: LocationPoint[];
+  overlapsExisting: boolean; // an already stored trip covers part of this one
+}
+
+export interface ImportPreview {
+  source: string; // import_source given to the trips, e.g. 'gpx:morning.gpx'
+  name?: string;
+  pointCount: number;
+  rejectedCount: number; // fixes dropped by the noise filter
+  trips: ImportedTrip[];
+}
+
+export class TripImportService {
+  async previewImport(content: string, fileName: string): Promise<ImportPreview> {
+    const trace = parseTraceFile(content, fileName);
+    const userId = (await this.getCurrentUserId()) ?? '';
+    
+    const filter = new LocationFilter();
+    const points: LocationPoint[] = [];
+    const rejectedTimestamps: number[] = [];
+    for (const raw of trace.points) {
+      const result = filter.process(raw);
+      if (result.point) {
+        points.push(result.point);
+      } else {
+        rejectedTimestamps.push(raw.timestamp);
+      }
+    }
+    
+    // Close a trip still open at the end of the file as live tracking would once the user stays put
+    const lastTime = points.length > 0 ? points[points.length - 1].timestamp : 0;
+    const events = segmentTrace(points, {}, lastTime + APP_CONFIG.DWELL_TIME_THRESHOLD * 1000);
+    
+    const classifier = await this.loadClassifier(userId);
+    const source = `${traceFileFormat(content, fileName)}:${fileName}`;
+    const trips: ImportedTrip[] = [];
+    let chainId: string | null = null;
+    let previousEnd: number | null = null;
+    let start: LocationPoint | null = null;
+    
+    for (const event of events) {
+      if (event.type === 'trip_start') {
+        start = event.point;
+        continue;
+      }
+      if (!start) continue;
+      
+      const startTime = start.timestamp;
+      const endTime = event.point.timestamp;
+      start = null;
+      
+      const imported = await this.buildTrip(
+        userId,
+        points.filter(point => point.timestamp >= startTime && point.timestamp <= endTime),
+        rejectedTimestamps.filter(timestamp => timestamp >= startTime && timestamp <= endTime).length,
+        event.point,
+        classifier,
+        source
+      );
+      if (!imported) continue;
+      
+      // A long dwell since the previous trip ends the trip chain
+      if (chainId === null || previousEnd === null || (startTime - previousEnd) / 1000 > APP_CONFIG.CHAIN_BREAK_DWELL_TIME) {
+        chainId = uuidv4();
+      }
+      imported.trip.chain_id = chainId;
+      previousEnd = endTime;
+      
+      trips.push(imported);
+    }
+    
+    return {
+      source,
+      name: trace.name,
+      pointCount: trace.points.length,
+      rejectedCount: rejectedTimestamps.length,
+      trips
+    };
+  }
+  
+  // Stores the chosen trips; returns how many were saved
+  async commitImport(preview: ImportPreview, tripIds: string[]): Promise<number> {
+    const selected = preview.trips.filter(imported => tripIds.includes(imported.trip.trip_id));
+    if (selected.length === 0) return 0;
+    
+    // Previewed for the user signed in then
+    const userId = selected[0].trip.user_id;
+    for (const { trip, points } of selected) {
+      await databaseService.saveTrip(trip);
+      await databaseService.saveTripPoints(trip.trip_id, points);
+      
+      // Corrections to imported trips train the classifier like live ones
+      try {
+        await databaseService.saveModeExamples(this.buildModeExamples(trip, points));
+      } catch (error) {
+        console.error('Failed to save mode examples:', error);
+      }
+    }
+    
+    try {
+      await tripNumberingService.renumberDays(userId, selected.map(({ trip }) => trip.start_time));
+    } catch (error) {
+      console.error('Failed to renumber trips:', error);
+    }
+    
+    placeService.rebuildPlaces(userId).catch(error => {
+      console.error('Failed to update places:', error);
+    });
+    
+    return selected.length;
+  }
+  
+  private async buildTrip(
+    userId: string,
+    points: LocationPoint[],
+    rejectedCount: number,
+    end: LocationPoint,
+    classifier: TravelModeClassifier,
+    source: string
+  ): Promise<ImportedTrip | null> {
+    if (points.length === 0) return null;
+    
+    const start = points[0];
+    const tripId = uuidv4();
+    const classify = (window: LocationPoint[]) => classifyWindow(classifier, window, []);
+    const legs = buildTripLegs(tripId, points, classify);
+    const now = new Date().toISOString();
+    
+    const trip: Trip = {
+      trip_id: tripId,
+      user_id: userId,
+      trip_number: 0, // numbered within its day when saved
+      chain_id: '',
+      origin: { lat: start.latitude, lon: start.longitude, place_name: '' },
+      destination: { lat: end.latitude, lon: end.longitude, place_name: '' },
+      start_time: new Date(start.timestamp).toISOString(),
+      end_time: new Date(end.timestamp).toISOString(),
+      duration_seconds: Math.floor((end.timestamp - start.timestamp) / 1000),
+      distance_meters: pathDistance(points),
+      travel_mode: primaryLegMode(legs) ?? toTravelMode(classify(points)),
+      trip_purpose: 'other',
+      num_accompanying: 0,
+      accompanying_basic: [],
+      sensor_summary: summarizeTripSensors(points, [], rejectedCount),
+      recorded_offline: true,
+      import_source: source,
+      synced: false,
+      created_at: now,
+      updated_at: now,
+      legs
+    };
+    if (!isValidTrip(trip)) return null;
+    
+    const [origin, destination] = await Promise.all([
+      resolveTripLocation(userId, start.latitude, start.longitude),
+      resolveTripLocation(userId, end.latitude, end.longitude)
+    ]);
+    trip.origin = origin;
+    trip.destination = destination;
+    
+    try {
+      Object.assign(trip, await purposeService.inferPurpose(trip));
+    } catch (error) {
+      console.error('Failed to infer trip purpose:', error);
+    }
+    
+    const overlapping = await databaseService.getOverlappingTripIds(userId, trip.start_time, trip.end_time);
+    return { trip, points, overlapsExisting: overlapping.length > 0 };
+  }
+  
+  private buildModeExamples(trip: Trip, points: LocationPoint[]): ModeExample[] {
+    const now = new Date().toISOString();
+    const example = (exampleId: string, examplePoints: LocationPoint[], detectedMode: string): ModeExample => ({
+      example_id: exampleId,
+      trip_id: trip.trip_id,
+      user_id: trip.user_id,
+      features: extractModeFeatures(examplePoints, []),
+      detected_mode: detectedMode,
+      confirmed_mode: null,
+      created_at: now,
+      updated_at: now
+    });
+    
+    const examples = [example(trip.trip_id, points, trip.travel_mode.detected)];
+    if (trip.legs && trip.legs.length > 1) {
+      for (const leg of trip.legs) {
+        const start = new Date(leg.start_time).getTime();
+        const end = new Date(leg.end_time).getTime();
+        const legPoints = points.filter(point => point.timestamp >= start && point.timestamp <= end);
+        examples.push(example(leg.leg_id, legPoints, leg.travel_mode.detected));
+      }
+    }
+    return examples;
+  }
+  
+  // Same personalisation as live detection
+  private async loadClassifier(userId: string): Promise<TravelModeClassifier> {
+    try {
+      const examples = await databaseService.getLabelledModeExamples(
+        userId,
+        APP_CONFIG.MODE_PERSONALIZATION.MAX_EXAMPLES
+      );
+      return examples.length > 0
+        ? new PersonalizedModeClassifier(defaultModeClassifier, examples)
+        : defaultModeClassifier;
+    } catch (error) {
+      console.error('Failed to load personalised classifier:', error);
+      return defaultModeClassifier;
+    }
+  }
+  
+  private async getCurrentUserId(): Promise<string | null> {
+    try {
+      const { default: AsyncStorage } = await import('@react-native-async-storage/async-storage');
+      const userData = await AsyncStorage.getItem('current_user');
+      if (userData) {
+        const user = JSON.parse(userData);
+        return user.user_id;
+      }
+    } catch (error) {
+      console.error('Failed to get current user ID:', error);
+    }
+    return null;
+  }
+}
+
+export const tripImportService = new TripImportService();
@@ -0,0 +1,81 @@
+import { TripNumberEntry } from '../types';
+
+// Per-day trip numbering.
+// NATPAC diaries number a respondent's trips 1, 2, 3... within each local day,
+// in order of departure, so the numbers depend on the user's timezone and on
+// every other trip that day.
+
+export interface TripNumberChange {
+  trip_id: string;
+  trip_number: number;
+}
+
+export const deviceTimeZone = (): string => {
+  try {
+    return Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC';
+  } catch {
+    return 'UTC';
+  }
+};
+
+// Local calendar day of a moment as YYYY-MM-DD
+export const localDayKey = (time: string | number, timeZone: string): string => {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+  }).formatToParts(new Date(time));
+  
+  const part = (type: string) => parts.find(entry => entry.type === type)?.value ?? '';
+  return `${part('year')}-${part('month')}-${part('day')}`;
+};
+
+// Falls back to the device timezone when the stored one is not recognised
+export const resolveTimeZone = (timeZone: string | null | undefined): string => {
+  if (timeZone) {
+    try {
+      new Intl.DateTimeFormat('en-US', { timeZone });
+      return timeZone;
+    } catch {
+      // Unknown IANA name
+    }
+  }
+  return deviceTimeZone();
+};
+
+const byDeparture = (a: TripNumberEntry, b: TripNumberEntry): number =>
+  a.start_time.localeCompare(b.start_time) || a.trip_id.localeCompare(b.trip_id);
+
+// Numbers for every trip, restarting at 1 on each local day; only trips
+// whose number changes are returned
+export const assignTripNumbers = (trips: TripNumberEntry[], timeZone: string): TripNumberChange[] => {
+  const days = new Map<string, TripNumberEntry[]>();
+  for (const trip of trips) {
+    const key = localDayKey(trip.start_time, timeZone);
+    const day = days.get(key);
+    if (day) {
+      day.push(trip);
+    } else {
+      days.set(key, [trip]);
+    }
+  }
+  
+  const changes: TripNumberChange[] = [];
+  for (const day of days.values()) {
+    day.sort(byDeparture).forEach((trip, index) => {
+      if (trip.trip_number !== index + 1) {
+        changes.push({ trip_id: trip.trip_id, trip_number: index + 1 });
+      }
+    });
+  }
+  return changes;
+};
+
+// Number a trip departing at startTime takes among the trips already on its day
+export const nextTripNumber = (trips: TripNumberEntry[], startTime: string, timeZone: string): number => {
+  const day = localDayKey(startTime, timeZone);
+  return trips.filter(trip =>
+    localDayKey(trip.start_time, timeZone) === day && trip.start_time < startTime
+  ).length + 1;
+};
@@ -0,0 +1,59 @@
+import { TripNumberEntry } from '../types';
+import { databaseService } from './DatabaseService';
+import { assignTripNumbers, nextTripNumber, localDayKey, resolveTimeZone } from './TripNumbering';
+
+// Wide enough to cover any local day around a moment, whatever the UTC offset
+const DAY_WINDOW_MS = 36 * 60 * 60 * 1000;
+
+export class TripNumberingService {
+  // Number the user's trip departing at startTime gets on its local day
+  async getNextTripNumber(userId: string, startTime: string): Promise<number> {
+    const timeZone = await this.getTimeZone(userId);
+    const trips = await this.getTripsAround(userId, startTime);
+    return nextTripNumber(trips, startTime, timeZone);
+  }
+  
+  // Renumber every local day of the user's touched by the given times, e.g.
+  // the old and new start of an edited trip or the start of a deleted one.
+  // Returns the number of trips whose number changed.
+  async renumberDays(userId: string, times: string[]): Promise<number> {
+    if (times.length === 0) return 0;
+    
+    const timeZone = await this.getTimeZone(userId);
+    const days = new Set(times.map(time => localDayKey(time, timeZone)));
+    
+    const trips = new Map<string, TripNumberEntry>();
+    for (const time of times) {
+      for (const trip of await this.getTripsAround(userId, time)) {
+        trips.set(trip.trip_id, trip);
+      }
+    }
+    
+    const onDays = Array.from(trips.values()).filter(trip => days.has(localDayKey(trip.start_time, timeZone)));
+    const changes = assignTripNumbers(onDays, timeZone);
+    await databaseService.updateTripNumbers(changes);
+    return changes.length;
+  }
+  
+  private async getTripsAround(userId: string, time: string): Promise<TripNumberEntry[]> {
+    const moment = new Date(time).getTime();
+    return databaseService.getTripNumberEntries(
+      userId,
+      new Date(moment - DAY_WINDOW_MS).toISOString(),
+      new Date(moment + DAY_WINDOW_MS).toISOString()
+    );
+  }
+  
+  // The profile's timezone, or the device's when there is no profile
+  private async getTimeZone(userId: string): Promise<string> {
+    try {
+      const profile = await databaseService.getUserProfile(userId);
+      return resolveTimeZone(profile?.timezone);
+    } catch (error) {
+      console.error('Failed to load user timezone:', error);
+      return resolveTimeZone(null);
+    }
+  }
+}
+
+export const tripNumberingService = new TripNumberingService();
@@ -0,0 +1,260 @@
+import { LocationPoint } from '../types';
+import { APP_CONFIG } from '../constants/Config';
+import { calculateDistance } from '../utils/geo';
+
+// Pure trip segmentation state machine.
+// Consumes plain LocationPoint streams and emits trip start/end events, with no
+// dependency on device APIs so it can be driven from recorded fixtures.
+
+export type SegmentationState = 'IDLE' | 'CANDIDATE_START' | 'MOVING' | 'CANDIDATE_STOP' | 'STOPPED';
+
+export interface SegmentationEvent {
+  type: 'trip_start' | 'trip_end';
+  point: LocationPoint; // departure point for starts, arrival point for ends
+}
+
+export interface SegmentationConfig {
+  startSpeed: number; // m/s
+  stopSpeed: number; // m/s
+  stopRadius: number; // meters
+  startDistance: number; // meters
+  startWindowSeconds: number;
+  minStartFixes: number;
+  dwellSeconds: number;
+}
+
+export const DEFAULT_SEGMENTATION_CONFIG: SegmentationConfig = {
+  startSpeed: APP_CONFIG.SEGMENTATION_THRESHOLDS.START_SPEED,
+  stopSpeed: APP_CONFIG.SEGMENTATION_THRESHOLDS.STOP_SPEED,
+  stopRadius: APP_CONFIG.SEGMENTATION_THRESHOLDS.STOP_RADIUS,
+  startDistance: APP_CONFIG.MIN_TRIP_DISTANCE,
+  startWindowSeconds: APP_CONFIG.SEGMENTATION_THRESHOLDS.START_WINDOW,
+  minStartFixes: APP_CONFIG.SEGMENTATION_THRESHOLDS.MIN_START_FIXES,
+  dwellSeconds: APP_CONFIG.DWELL_TIME_THRESHOLD,
+};
+
+export class TripSegmenter {
+  private config: SegmentationConfig;
+  private state: SegmentationState = 'IDLE';
+  private lastFix: LocationPoint | null = null;
+  private anchor: LocationPoint | null = null; // resting position, or departure point while a start is pending
+  private restingState: 'IDLE' | 'STOPPED' = 'IDLE';
+  private candidateSince: number | null = null;
+  private movingFixes = 0;
+  private stopAnchor: LocationPoint | null = null;
+  
+  constructor(config: Partial<SegmentationConfig> = {}) {
+    this.config = { ...DEFAULT_SEGMENTATION_CONFIG, ...config };
+  }
+  
+  getState(): SegmentationState {
+    return this.state;
+  }
+  
+  isInTrip(): boolean {
+    return this.state === 'MOVING' || this.state === 'CANDIDATE_STOP';
+  }
+  
+  reset(): void {
+    this.state = 'IDLE';
+    this.lastFix = null;
+    this.anchor = null;
+    this.restingState = 'IDLE';
+    this.candidateSince = null;
+    this.movingFixes = 0;
+    this.stopAnchor = null;
+  }
+  
+  // Continue a trip that was in progress before a restart from its last fix
+  resumeTrip(lastFix: LocationPoint): void {
+    this.reset();
+    this.state = 'MOVING';
+    this.restingState = 'STOPPED';
+    this.lastFix = lastFix;
+  }
+  
+  // Feed the next fix. Fixes must arrive in timestamp order.
+  process(point: LocationPoint): SegmentationEvent[] {
+    const events: SegmentationEvent[] = [];
+    
+    if (!this.lastFix) {
+      this.lastFix = point;
+      this.anchor = point;
+      return events;
+    }
+    
+    if (point.timestamp <= this.lastFix.timestamp) {
+      // Duplicate or out-of-order fix
+      return events;
+    }
+    
+    // A long silence while moving usually means the device stopped and the
+    // distance filter suppressed further fixes
+    if (this.state === 'MOVING' && this.distance(this.lastFix, point) <= this.config.stopRadius) {
+      events.push(...this.tick(point.timestamp));
+    }
+    
+    const speed = this.speedBetween(this.lastFix, point);
+    
+    switch (this.state) {
+      case 'IDLE':
+      case 'STOPPED':
+        this.processResting(point, speed);
+        break;
+      case 'CANDIDATE_START':
+        events.push(...this.processCandidateStart(point, speed));
+        break;
+      case 'MOVING':
+        this.processMoving(point, speed);
+        break;
+      case 'CANDIDATE_STOP':
+        events.push(...this.processCandidateStop(point, speed));
+        break;
+    }
+    
+    this.lastFix = point;
+    return events;
+  }
+  
+  // Advance time without a fix, so stops are detected even when the platform
+  // stops delivering locations to a stationary device
+  tick(now: number): SegmentationEvent[] {
+    switch (this.state) {
+      case 'CANDIDATE_START':
+        if (this.candidateSince !== null && (now - this.candidateSince) / 1000 > this.config.startWindowSeconds) {
+          this.revertToResting(this.lastFix);
+        }
+        return [];
+      case 'MOVING':
+        if (this.lastFix && (now - this.lastFix.timestamp) / 1000 >= this.config.dwellSeconds) {
+          return [this.confirmStop(this.lastFix)];
+        }
+        return [];
+      case 'CANDIDATE_STOP':
+        if (this.stopAnchor && (now - this.stopAnchor.timestamp) / 1000 >= this.config.dwellSeconds) {
+          return [this.confirmStop(this.stopAnchor)];
+        }
+        return [];
+      default:
+        return [];
+    }
+  }
+  
+  private processResting(point: LocationPoint, speed: number): void {
+    const anchor = this.anchor || this.lastFix!;
+    const displacement = this.distance(anchor, point);
+    
+    if (speed > this.config.startSpeed || displacement > this.config.stopRadius) {
+      // The last resting fix is where the user departed from
+      this.state = 'CANDIDATE_START';
+      this.anchor = this.lastFix || anchor;
+      this.candidateSince = point.timestamp;
+      this.movingFixes = 1;
+    }
+  }
+  
+  private processCandidateStart(point: LocationPoint, speed: number): SegmentationEvent[] {
+    const anchor = this.anchor!;
+    const displacement = this.distance(anchor, point);
+    
+    if (this.candidateSince !== null && (point.timestamp - this.candidateSince) / 1000 > this.config.startWindowSeconds) {
+      // Drifted without ever covering enough ground - rest where we are now
+      this.revertToResting(point);
+      return [];
+    }
+    
+    if (speed <= this.config.stopSpeed && displacement <= this.config.stopRadius) {
+      // Noise: we are back at the resting position
+      this.revertToResting(anchor);
+      return [];
+    }
+    
+    if (speed > this.config.stopSpeed) {
+      this.movingFixes++;
+    }
+    
+    if (this.movingFixes >= this.config.minStartFixes && displacement >= this.config.startDistance) {
+      this.state = 'MOVING';
+      this.candidateSince = null;
+      this.movingFixes = 0;
+      return [{ type: 'trip_start', point: anchor }];
+    }
+    
+    return [];
+  }
+  
+  private processMoving(point: LocationPoint, speed: number): void {
+    if (speed < this.config.stopSpeed) {
+      this.state = 'CANDIDATE_STOP';
+      this.stopAnchor = point;
+    }
+  }
+  
+  private processCandidateStop(point: LocationPoint, speed: number): SegmentationEvent[] {
+    const stopAnchor = this.stopAnchor!;
+    const withinStop = this.distance(stopAnchor, point) <= this.config.stopRadius;
+    const dwellSeconds = (point.timestamp - stopAnchor.timestamp) / 1000;
+    
+    if (dwellSeconds >= this.config.dwellSeconds) {
+      const events = [this.confirmStop(stopAnchor)];
+      if (!withinStop) {
+        // Left again after a full dwell - this fix may begin the next trip
+        this.processResting(point, speed);
+      }
+      return events;
+    }
+    
+    if (!withinStop) {
+      // Short halt such as a traffic light - the trip continues
+      this.state = 'MOVING';
+      this.stopAnchor = null;
+    }
+    
+    return [];
+  }
+  
+  private confirmStop(arrival: LocationPoint): SegmentationEvent {
+    this.state = 'STOPPED';
+    this.restingState = 'STOPPED';
+    this.anchor = arrival;
+    this.stopAnchor = null;
+    return { type: 'trip_end', point: arrival };
+  }
+  
+  private revertToResting(anchor: LocationPoint | null): void {
+    this.state = this.restingState;
+    this.anchor = anchor;
+    this.candidateSince = null;
+    this.movingFixes = 0;
+  }
+  
+  private speedBetween(from: LocationPoint, to: LocationPoint): number {
+    const timeDiff = (to.timestamp - from.timestamp) / 1000;
+    if (timeDiff <= 0) return to.speed ?? 0;
+    return this.distance(from, to) / timeDiff;
+  }
+  
+  private distance(from: LocationPoint, to: LocationPoint): number {
+    return calculateDistance(from.latitude, from.longitude, to.latitude, to.longitude);
+  }
+}
+
+// Segment a complete recorded trace, flushing pending stops at the end
+export const segmentTrace = (
+  points: LocationPoint[],
+  config: Partial<SegmentationConfig> = {},
+  endTime?: number
+): SegmentationEvent[] => {
+  const segmenter = new TripSegmenter(config);
+  const events: SegmentationEvent[] = [];
+  
+  for (const point of points) {
+    events.push(...segmenter.process(point));
+  }
+  
+  if (endTime !== undefined) {
+    events.push(...segmenter.tick(endTime));
+  }
+  
+  return events;
+};
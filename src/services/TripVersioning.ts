@@ -0,0 +1,234 @@
+import {
+  Trip,
+  TripConflict,
+  ConflictResolution,
+  FieldVersion,
+  TripFieldVersions,
+  TripVersionNumbers,
+  VersionedTripField,
+  VERSIONED_TRIP_FIELDS,
+} from '../types';
+
+// Per-field trip versions and the merge policy for pulled changes.
+// Every change to a versioned field bumps its version and records whether the
+// user made it. synced_versions holds the versions the server last
+// acknowledged, so a field changed on this device has a version above its
+// synced one, and a pulled field has changed on the server when its version
+// is above that too. When both sides changed a field:
+// - a user correction beats an automatic update, whichever side made it
+// - between two automatic updates the server's copy wins
+// - between two corrections nobody can tell which is right, so the local
+//   value stays and a conflict is raised for the user to settle
+
+export interface TripMerge {
+  trip: Trip;
+  conflicts: TripConflict[];
+}
+
+const NO_VERSION: FieldVersion = { version: 0, corrected: false, updated_at: '' };
+
+// Drops null and undefined members and sorts keys, so values read back from
+// SQLite compare equal to the objects that were saved
+const canonical = (value: any): any => {
+  if (Array.isArray(value)) return value.map(canonical);
+  if (value === null || typeof value !== 'object') return value;
+  
+  const result: Record<string, any> = {};
+  for (const key of Object.keys(value).sort()) {
+    if (value[key] !== null && value[key] !== undefined) {
+      result[key] = canonical(value[key]);
+    }
+  }
+  return result;
+};
+
+const sameValue = (a: any, b: any): boolean =>
+  JSON.stringify(canonical(a)) === JSON.stringify(canonical(b));
+
+export const fieldValue = (trip: Trip, field: VersionedTripField): any => {
+  switch (field) {
+    case 'travel_mode':
+      return trip.travel_mode;
+    case 'trip_purpose':
+      return {
+        trip_purpose: trip.trip_purpose,
+        purpose_confidence: trip.purpose_confidence ?? null,
+        purpose_confirmed: !!trip.purpose_confirmed,
+      };
+    case 'accompanying':
+      return { num_accompanying: trip.num_accompanying, accompanying_basic: trip.accompanying_basic };
+    case 'notes':
+      return trip.notes || null;
+    case 'is_private':
+      return !!trip.is_private;
+    case 'legs':
+      // Raw points stay on the device that recorded them
+      return (trip.legs ?? []).map(({ points, ...leg }) => leg);
+  }
+};
+
+export const applyFieldValue = (trip: Trip, field: VersionedTripField, value: any): Trip => {
+  switch (field) {
+    case 'travel_mode':
+      return { ...trip, travel_mode: value };
+    case 'trip_purpose':
+      return {
+        ...trip,
+        trip_purpose: value.trip_purpose,
+        purpose_confidence: value.purpose_confidence ?? undefined,
+        purpose_confirmed: value.purpose_confirmed,
+      };
+    case 'accompanying':
+      return { ...trip, num_accompanying: value.num_accompanying, accompanying_basic: value.accompanying_basic };
+    case 'notes':
+      return { ...trip, notes: value ?? undefined };
+    case 'is_private':
+      return { ...trip, is_private: value };
+    case 'legs':
+      return { ...trip, legs: value };
+  }
+};
+
+// Whether the field's current value is the user's own choice
+const isCorrection = (trip: Trip, field: VersionedTripField): boolean => {
+  switch (field) {
+    case 'travel_mode':
+      return trip.travel_mode.user_confirmed !== null;
+    case 'trip_purpose':
+      return !!trip.purpose_confirmed;
+    case 'legs':
+      return (trip.legs ?? []).some(leg => leg.travel_mode.user_confirmed !== null);
+    default:
+      // Only the user edits notes, companions and privacy
+      return true;
+  }
+};
+
+type VersionedState = Pick<Trip, 'field_versions' | 'synced_versions'>;
+
+export const fieldVersion = (trip: VersionedState, field: VersionedTripField): FieldVersion =>
+  trip.field_versions?.[field] ?? NO_VERSION;
+
+const syncedVersion = (trip: VersionedState, field: VersionedTripField): number =>
+  trip.synced_versions?.[field] ?? 0;
+
+export const versionNumbers = (versions: TripFieldVersions | undefined): TripVersionNumbers => {
+  const numbers: TripVersionNumbers = {};
+  for (const field of VERSIONED_TRIP_FIELDS) {
+    if (versions?.[field]) numbers[field] = versions[field]!.version;
+  }
+  return numbers;
+};
+
+// True while some field holds a change the server has not acknowledged
+export const hasUnsyncedFields = (trip: VersionedState): boolean =>
+  VERSIONED_TRIP_FIELDS.some(field => fieldVersion(trip, field).version > syncedVersion(trip, field));
+
+// Bumps the version of every field that differs from the stored trip.
+// Legs omitted from the update are left as they are.
+export const stampFieldVersions = (stored: Trip | null, next: Trip, now: string): Trip => {
+  if (!stored) {
+    return { ...next, field_versions: next.field_versions ?? {}, synced_versions: next.synced_versions ?? {} };
+  }
+  
+  const versions: TripFieldVersions = { ...stored.field_versions };
+  for (const field of VERSIONED_TRIP_FIELDS) {
+    if (field === 'legs' && !next.legs) continue;
+    if (sameValue(fieldValue(stored, field), fieldValue(next, field))) continue;
+    
+    versions[field] = {
+      version: fieldVersion(stored, field).version + 1,
+      corrected: isCorrection(next, field),
+      updated_at: now,
+    };
+  }
+  
+  return { ...next, field_versions: versions, synced_versions: { ...stored.synced_versions } };
+};
+
+// Merges a trip pulled from the server into the local copy
+export const mergeRemoteTrip = (local: Trip | null, remote: Trip, now: string): TripMerge => {
+  const remoteVersions = remote.field_versions ?? {};
+  if (!local) {
+    return {
+      trip: { ...remote, field_versions: remoteVersions, synced_versions: versionNumbers(remoteVersions), synced: true },
+      conflicts: [],
+    };
+  }
+  
+  // Fields without versions follow the server unless this device has
+  // changes the server has not seen yet
+  let trip: Trip = local.synced
+    ? { ...remote, field_versions: { ...local.field_versions }, synced_versions: { ...local.synced_versions } }
+    : { ...local, field_versions: { ...local.field_versions }, synced_versions: { ...local.synced_versions } };
+  const versions = trip.field_versions!;
+  const synced = trip.synced_versions!;
+  const conflicts: TripConflict[] = [];
+  
+  for (const field of VERSIONED_TRIP_FIELDS) {
+    const localVersion = fieldVersion(local, field);
+    const remoteVersion = fieldVersion(remote, field);
+    const base = syncedVersion(local, field);
+    const localChanged = localVersion.version > base;
+    const remoteChanged = remoteVersion.version > base;
+    
+    if (!remoteChanged) {
+      trip = applyFieldValue(trip, field, fieldValue(local, field));
+      continue;
+    }
+    
+    const takeRemote = !localChanged
+      || sameValue(fieldValue(local, field), fieldValue(remote, field))
+      || (remoteVersion.corrected && !localVersion.corrected)
+      || (!remoteVersion.corrected && !localVersion.corrected);
+    
+    if (takeRemote) {
+      trip = applyFieldValue(trip, field, fieldValue(remote, field));
+      versions[field] = remoteVersion;
+      synced[field] = remoteVersion.version;
+    } else if (localVersion.corrected && !remoteVersion.corrected) {
+      // Keep the correction, versioned above the server's copy so it uploads
+      trip = applyFieldValue(trip, field, fieldValue(local, field));
+      versions[field] = { ...localVersion, version: Math.max(localVersion.version, remoteVersion.version) + 1 };
+      synced[field] = remoteVersion.version;
+    } else {
+      trip = applyFieldValue(trip, field, fieldValue(local, field));
+      conflicts.push({
+        trip_id: local.trip_id,
+        field,
+        local_value: fieldValue(local, field),
+        remote_value: fieldValue(remote, field),
+        local_version: localVersion,
+        remote_version: remoteVersion,
+        detected_at: now,
+      });
+    }
+  }
+  
+  trip.synced = local.synced && !hasUnsyncedFields(trip);
+  return { trip, conflicts };
+};
+
+// Settles a conflict with the user's choice. The result is versioned above
+// both copies as a correction, so it uploads and wins everywhere.
+export const applyConflictResolution = (
+  trip: Trip,
+  conflict: TripConflict,
+  resolution: ConflictResolution,
+  now: string
+): Trip => {
+  const value = resolution === 'use_remote' ? conflict.remote_value : fieldValue(trip, conflict.field);
+  const resolved = applyFieldValue(trip, conflict.field, value);
+  
+  resolved.field_versions = {
+    ...trip.field_versions,
+    [conflict.field]: {
+      version: Math.max(fieldVersion(trip, conflict.field).version, conflict.remote_version.version) + 1,
+      corrected: true,
+      updated_at: now,
+    },
+  };
+  resolved.synced_versions = { ...trip.synced_versions, [conflict.field]: conflict.remote_version.version };
+  resolved.synced = false;
+  return resolved;
+};
@@ -0,0 +1,178 @@
+import { Place } from '../../types';
+import { DatabaseService } from '../DatabaseService';
+import { extractModeFeatures } from '../ModeClassifier';
+import { makeTrip } from './support/trips';
+
+jest.mock('../DatabaseEncryption', () => ({
+  openEncryptedDatabase: () => require('./support/memorySqlite').openMemoryDatabase(),
+  discardEncryptedDatabase: async () => {},
+}));
+// Reached through the types barrel, for a type only
+jest.mock('../TripDetectionService', () => ({}));
+
+describe('DatabaseService', () => {
+  let db: DatabaseService;
+
+  beforeEach(async () => {
+    db = new DatabaseService();
+    await db.initialize();
+  });
+
+  // Trips saved and acknowledged by the server, with an empty queue
+  const syncedTrips = async (...trips: ReturnType<typeof makeTrip>[]) => {
+    for (const trip of trips) {
+      await db.saveTrip(trip);
+      await db.markTripAsSynced(trip.trip_id);
+    }
+    expect(await db.getSyncQueue()).toEqual([]);
+  };
+
+  const queuedTripIds = async () =>
+    (await db.getSyncQueue()).filter(item => item.table_name === 'trips').map(item => item.record_id).sort();
+
+  describe('trips changed in place are queued for sync', () => {
+    it('when renumbered', async () => {
+      const trip = makeTrip();
+      const privateTrip = makeTrip({ is_private: true });
+      await syncedTrips(trip, privateTrip);
+
+      await db.updateTripNumbers([
+        { trip_id: trip.trip_id, trip_number: 2 },
+        { trip_id: privateTrip.trip_id, trip_number: 3 },
+      ]);
+
+      expect(await queuedTripIds()).toEqual([trip.trip_id]);
+      expect((await db.getTrip(trip.trip_id))!.synced).toBe(false);
+    });
+
+    it('when assigned other places, and only then', async () => {
+      const moved = makeTrip();
+      const unchanged = makeTrip({
+        origin: { lat: 52.52, lon: 13.405, place_name: 'Home', place_id: 'home' },
+        destination: { lat: 52.5, lon: 13.42, place_name: 'Work', place_id: 'work' },
+      });
+      await syncedTrips(moved, unchanged);
+
+      await db.setTripPlaces([
+        { trip_id: moved.trip_id, origin_place_id: 'home', destination_place_id: null },
+        { trip_id: unchanged.trip_id, origin_place_id: 'home', destination_place_id: 'work' },
+      ]);
+
+      expect(await queuedTripIds()).toEqual([moved.trip_id]);
+    });
+
+    it('when a place they start or end at is renamed', async () => {
+      const fromHome = makeTrip({ origin: { lat: 52.52, lon: 13.405, place_name: 'Home', place_id: 'home' } });
+      const toHome = makeTrip({ destination: { lat: 52.52, lon: 13.405, place_name: 'Home', place_id: 'home' } });
+      const elsewhere = makeTrip();
+      await syncedTrips(fromHome, toHome, elsewhere);
+
+      await db.renamePlaceInTrips('home', 'Flat');
+
+      expect(await queuedTripIds()).toEqual([fromHome.trip_id, toHome.trip_id].sort());
+      expect((await db.getTrip(toHome.trip_id))!.destination.place_name).toBe('Flat');
+    });
+  });
+
+  it('saves nothing of a trip whose sync queue entry cannot be written', async () => {
+    const trip = makeTrip();
+    jest.spyOn(db, 'addToSyncQueue').mockRejectedValueOnce(new Error('disk full'));
+
+    await expect(db.saveTrip(trip)).rejects.toThrow('disk full');
+
+    expect(await db.getTrip(trip.trip_id)).toBeNull();
+    expect(await db.getSyncQueue()).toEqual([]);
+  });
+
+  it('commits writers that start transactions at the same time', async () => {
+    const trip = makeTrip();
+    const fix = { latitude: 52.52, longitude: 13.405, timestamp: Date.parse(trip.start_time), accuracy: 5 };
+
+    await Promise.all([db.saveTrip(trip), db.saveTripPoints(trip.trip_id, [fix])]);
+
+    expect(await db.getTrip(trip.trip_id)).not.toBeNull();
+    expect(await db.getTripPoints(trip.trip_id)).toHaveLength(1);
+  });
+
+  describe('with two users on the device', () => {
+    const place = (userId: string, placeId: string): Place => ({
+      place_id: placeId,
+      user_id: userId,
+      name: null,
+      place_type: 'home',
+      address: 'Unknown Location',
+      lat: 52.52,
+      lon: 13.405,
+      radius_meters: 100,
+      visit_count: 3,
+      total_dwell_seconds: 36000,
+      first_visit: '2024-03-01T18:00:00.000Z',
+      last_visit: '2024-03-04T18:00:00.000Z',
+      created_at: '2024-03-04T18:00:00.000Z',
+      updated_at: '2024-03-04T18:00:00.000Z',
+    });
+
+    it('answers trip questions from the asking user\'s trips only', async () => {
+      const mine = makeTrip({ purpose_confirmed: true });
+      const theirs = makeTrip({ user_id: 'user-2', purpose_confirmed: true });
+      await db.saveTrip(mine);
+      await db.saveTrip(theirs);
+      const later = new Date(Date.parse(theirs.start_time) + 1000).toISOString();
+
+      expect((await db.getPreviousTrip('user-1', later))!.trip_id).toBe(mine.trip_id);
+      expect(await db.getNextTripStartTime('user-1', mine.end_time)).toBeNull();
+      expect(await db.getConfirmedPurposes('user-1', 10)).toHaveLength(1);
+      expect((await db.getTripNumberEntries('user-1', mine.start_time, later)).map(entry => entry.trip_id))
+        .toEqual([mine.trip_id]);
+      expect(await db.getOverlappingTripIds('user-1', theirs.start_time, theirs.end_time)).toEqual([mine.trip_id]);
+      expect((await db.getTripEndpoints('user-2')).map(trip => trip.trip_id)).toEqual([theirs.trip_id]);
+    });
+
+    it('hands out only the asking user\'s queued changes and mode corrections', async () => {
+      const mine = makeTrip();
+      const theirs = makeTrip({ user_id: 'user-2' });
+      await db.saveTrip(mine);
+      await db.saveTrip(theirs);
+      await db.saveModeExamples([mine, theirs].map(trip => ({
+        example_id: trip.trip_id,
+        trip_id: trip.trip_id,
+        user_id: trip.user_id,
+        features: extractModeFeatures([], []),
+        detected_mode: 'cycling',
+        confirmed_mode: 'walking',
+        created_at: trip.end_time,
+        updated_at: trip.end_time,
+      })));
+
+      const due = await db.getDueSyncItems('user-1', new Date().toISOString(), 10);
+      const examples = await db.getLabelledModeExamples('user-1', 10);
+
+      expect(due.map(item => item.record_id)).toEqual([mine.trip_id]);
+      expect(examples.map(example => example.trip_id)).toEqual([mine.trip_id]);
+    });
+
+    it('rebuilds one user\'s places without touching the other\'s', async () => {
+      await db.replacePlaces('user-1', [place('user-1', 'home-1')]);
+      await db.replacePlaces('user-2', [place('user-2', 'home-2')]);
+
+      await db.replacePlaces('user-1', []);
+
+      expect(await db.getPlaces('user-1')).toEqual([]);
+      expect((await db.getPlaces('user-2')).map(kept => kept.place_id)).toEqual(['home-2']);
+    });
+
+    it('deletes only the departing user\'s data and queued changes', async () => {
+      const mine = makeTrip();
+      const theirs = makeTrip({ user_id: 'user-2' });
+      await db.saveTrip(mine);
+      await db.saveTrip(theirs);
+      await db.replacePlaces('user-2', [place('user-2', 'home-2')]);
+
+      await db.deleteUserData('user-1');
+
+      expect(await queuedTripIds()).toEqual([theirs.trip_id]);
+      expect(await db.getTrip(theirs.trip_id)).not.toBeNull();
+      expect(await db.getPlaces('user-2')).toHaveLength(1);
+    });
+  });
+});
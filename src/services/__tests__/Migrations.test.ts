@@ -0,0 +1,109 @@
+import type { SQLiteDatabase } from 'expo-sqlite';
+import { MIGRATIONS, SCHEMA_VERSION, Migration, runMigrations, getSchemaVersion } from '../Migrations';
+import { openMemoryDatabase } from './support/memorySqlite';
+
+const schemaSnapshot = async (db: SQLiteDatabase): Promise<string> => {
+  const rows = await db.getAllAsync<{ type: string; name: string; sql: string | null }>(`
+    SELECT type, name, sql FROM sqlite_master
+    WHERE name NOT LIKE 'sqlite_%'
+    ORDER BY type, name
+  `);
+  return rows.map(row => `${row.type} ${row.name}: ${row.sql ?? ''}`).join('\n');
+};
+
+const tableColumns = async (db: SQLiteDatabase, table: string): Promise<string[]> =>
+  (await db.getAllAsync<{ name: string }>(`PRAGMA table_info(${table})`)).map(column => column.name);
+
+describe('migrations', () => {
+  let db: SQLiteDatabase;
+
+  beforeEach(async () => {
+    db = await openMemoryDatabase();
+  });
+
+  afterEach(async () => {
+    await db.closeAsync();
+  });
+
+  it('are numbered in order', () => {
+    MIGRATIONS.forEach((migration, index) => expect(migration.version).toBe(index + 1));
+    expect(SCHEMA_VERSION).toBe(MIGRATIONS.length);
+  });
+
+  it('apply one at a time from v0 to head', async () => {
+    expect(await getSchemaVersion(db)).toBe(0);
+
+    for (let version = 1; version <= SCHEMA_VERSION; version++) {
+      await runMigrations(db, version);
+      expect(await getSchemaVersion(db)).toBe(version);
+    }
+  });
+
+  it('go down to v0 and up again, restoring each schema', async () => {
+    const snapshots = [await schemaSnapshot(db)];
+    for (let version = 1; version <= SCHEMA_VERSION; version++) {
+      await runMigrations(db, version);
+      snapshots.push(await schemaSnapshot(db));
+    }
+
+    for (let version = SCHEMA_VERSION - 1; version >= 0; version--) {
+      await runMigrations(db, version);
+      expect(await getSchemaVersion(db)).toBe(version);
+      expect(await schemaSnapshot(db)).toBe(snapshots[version]);
+    }
+
+    await runMigrations(db);
+    expect(await schemaSnapshot(db)).toBe(snapshots[SCHEMA_VERSION]);
+  });
+
+  it('upgrade a database created before versioning', async () => {
+    // The v1 tables plus columns the old createTables added on the fly
+    await MIGRATIONS[0].up(db);
+    await db.execAsync('ALTER TABLE trips ADD COLUMN purpose_confirmed INTEGER NOT NULL DEFAULT 0');
+
+    await runMigrations(db);
+
+    expect(await getSchemaVersion(db)).toBe(SCHEMA_VERSION);
+    expect(await tableColumns(db, 'trips')).toEqual(expect.arrayContaining(['purpose_confirmed', 'field_versions']));
+  });
+
+  it('keep named places no trip leads to, giving them the device\'s user', async () => {
+    await runMigrations(db, 8);
+    await db.execAsync(`
+      INSERT INTO user_profiles (user_id, timezone, language, created_at, updated_at)
+      VALUES ('user-1', 'Asia/Kolkata', 'en', '2024-03-01T00:00:00.000Z', '2024-03-01T00:00:00.000Z');
+      INSERT INTO places (place_id, name, address, lat, lon, radius_meters, first_visit, last_visit, created_at, updated_at)
+      VALUES ('gym', 'Gym', 'Unknown Location', 8.52, 76.93, 100,
+        '2024-03-01T18:00:00.000Z', '2024-03-01T19:00:00.000Z', '2024-03-01T19:00:00.000Z', '2024-03-01T19:00:00.000Z');
+    `);
+
+    await runMigrations(db);
+
+    expect(await db.getAllAsync('SELECT place_id, name, user_id FROM places'))
+      .toEqual([{ place_id: 'gym', name: 'Gym', user_id: 'user-1' }]);
+  });
+
+  it('roll back a migration that fails, leaving the previous version', async () => {
+    const failing: Migration = {
+      version: SCHEMA_VERSION + 1,
+      description: 'fails halfway',
+      up: async migrationDb => {
+        await migrationDb.execAsync('CREATE TABLE half_done (id INTEGER)');
+        throw new Error('boom');
+      },
+      down: async () => {},
+    };
+    await runMigrations(db);
+
+    await expect(runMigrations(db, SCHEMA_VERSION + 1, [...MIGRATIONS, failing])).rejects.toThrow('boom');
+
+    expect(await getSchemaVersion(db)).toBe(SCHEMA_VERSION);
+    expect(await db.getFirstAsync("SELECT name FROM sqlite_master WHERE name = 'half_done'")).toBeNull();
+  });
+
+  it('refuse a database newer than the app', async () => {
+    await db.execAsync(`PRAGMA user_version = ${SCHEMA_VERSION + 1}`);
+
+    await expect(runMigrations(db)).rejects.toThrow('newer than this app supports');
+  });
+});
@@ -0,0 +1,105 @@
+import { databaseService } from '../DatabaseService';
+import { apiService, PrivateTripError } from '../ApiService';
+import { syncService } from '../SyncService';
+import { EncryptionService } from '../../utils/encryption';
+import { makeTrip } from './support/trips';
+
+jest.mock('../DatabaseEncryption', () => ({
+  openEncryptedDatabase: () => require('./support/memorySqlite').openMemoryDatabase(),
+  discardEncryptedDatabase: async () => {},
+}));
+jest.mock('../TripDetectionService', () => ({ tripDetectionService: {} }));
+jest.mock('../TripExportService', () => ({ tripExportService: {} }));
+jest.mock('../NetInfoConnectivity', () => ({
+  netInfoConnectivity: {
+    current: async () => require('../Connectivity').OFFLINE,
+    addListener: () => ({ remove: () => {} }),
+  },
+}));
+jest.mock('expo-secure-store', () => {
+  const items = new Map<string, string>();
+  return {
+    AFTER_FIRST_UNLOCK_THIS_DEVICE_ONLY: 0,
+    getItemAsync: async (key: string) => items.get(key) ?? null,
+    setItemAsync: async (key: string, value: string) => { items.set(key, value); },
+    deleteItemAsync: async (key: string) => { items.delete(key); },
+  };
+});
+
+const TRIP_KEY = 'test-trip-key';
+
+describe('private trips', () => {
+  let requests: string[]; // request bodies
+
+  // The server accepts every trip it is sent
+  const fakeFetch = jest.fn(async (_url: string, config: RequestInit) => {
+    const body = String(config.body ?? '');
+    requests.push(body);
+    const tripIds = body ? JSON.parse(body).trips.map((trip: { trip_id: string }) => trip.trip_id) : [];
+    return {
+      ok: true,
+      json: async () => ({
+        success: true,
+        data: { synced_trips: tripIds, failed_trips: [], server_timestamp: new Date().toISOString() },
+      }),
+    };
+  });
+
+  // What the server could read from the uploads
+  const uploadedTrips = () => requests.flatMap(body =>
+    JSON.parse(body).trips.map((envelope: { encrypted_data: string; signature: string }) =>
+      EncryptionService.decrypt(envelope.encrypted_data, TRIP_KEY)));
+
+  beforeAll(async () => {
+    await databaseService.initialize();
+    await EncryptionService.storeUserKey(TRIP_KEY);
+    // The outbox only sends the signed-in user's changes; the stored user
+    // is read through a dynamic import, which Jest does not run
+    jest.spyOn(syncService as any, 'getCurrentUserId').mockResolvedValue('user-1');
+  });
+
+  beforeEach(() => {
+    requests = [];
+    fakeFetch.mockClear();
+    global.fetch = fakeFetch as unknown as typeof fetch;
+  });
+
+  it('stay out of outbox uploads, even when still queued', async () => {
+    const publicTrips = [makeTrip(), makeTrip()];
+    const privateTrips = [makeTrip({ is_private: true }), makeTrip({ is_private: true })];
+    for (const trip of [publicTrips[0], privateTrips[0], publicTrips[1], privateTrips[1]]) {
+      await databaseService.saveTrip(trip);
+    }
+    // Left behind by a trip queued before it was marked private
+    for (const trip of privateTrips) {
+      await databaseService.addToSyncQueue('INSERT', 'trips', trip.trip_id, trip);
+    }
+
+    const result = await syncService.processOutbox();
+
+    expect(result.sent).toBe(publicTrips.length);
+    expect(uploadedTrips().map(trip => trip.trip_id).sort())
+      .toEqual(publicTrips.map(trip => trip.trip_id).sort());
+    for (const trip of privateTrips) {
+      expect(requests.some(body => body.includes(trip.trip_id))).toBe(false);
+    }
+    expect(await databaseService.getSyncQueue()).toEqual([]);
+  });
+
+  it('are refused by the API client before anything is sent', async () => {
+    const trips = [makeTrip(), makeTrip({ is_private: true })];
+
+    await expect(apiService.syncTrips(trips)).rejects.toBeInstanceOf(PrivateTripError);
+
+    expect(fakeFetch).not.toHaveBeenCalled();
+  });
+
+  it('are not uploaded one at a time', async () => {
+    const trip = makeTrip({ is_private: true });
+    await databaseService.saveTrip(trip);
+
+    expect(await syncService.syncTrip(trip)).toBe(false);
+
+    expect(fakeFetch).not.toHaveBeenCalled();
+  });
+});
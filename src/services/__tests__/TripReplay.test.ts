@@ -0,0 +1,99 @@
+import { Trip } from '../../types';
+import { TripDetectionService } from '../TripDetectionService';
+import { TraceReplay } from '../ReplaySources';
+import { geocodingService } from '../GeocodingService';
+import { databaseService } from '../DatabaseService';
+import { loadTrace, expectGolden } from './support/fixtures';
+
+jest.mock('../DatabaseEncryption', () => ({
+  openEncryptedDatabase: () => require('./support/memorySqlite').openMemoryDatabase(),
+  discardEncryptedDatabase: async () => {},
+}));
+jest.mock('expo-task-manager', () => ({ defineTask: jest.fn() }));
+// A charged phone, so sampling never backs off for the battery
+jest.mock('expo-battery', () => ({
+  BatteryState: { UNKNOWN: 0, UNPLUGGED: 1, CHARGING: 2, FULL: 3 },
+  getBatteryLevelAsync: async () => 0.8,
+  getBatteryStateAsync: async () => 1,
+  addBatteryLevelListener: () => ({ remove: () => {} }),
+  addBatteryStateListener: () => ({ remove: () => {} }),
+}));
+
+const round = (value: number, digits: number) => Number(value.toFixed(digits));
+
+// The parts of a detected trip a trace decides; ids and creation times differ per run
+const summarize = (trip: Trip) => ({
+  start_time: trip.start_time,
+  end_time: trip.end_time,
+  duration_seconds: trip.duration_seconds,
+  distance_meters: Math.round(trip.distance_meters),
+  origin: [round(trip.origin.lat, 4), round(trip.origin.lon, 4)],
+  destination: [round(trip.destination.lat, 4), round(trip.destination.lon, 4)],
+  travel_mode: trip.travel_mode.detected,
+  legs: (trip.legs ?? []).map(leg => leg.travel_mode.detected),
+  gps_points_count: trip.sensor_summary.gps_points_count,
+});
+
+// Runs the whole detection pipeline over a trace, headless
+const replayTrips = async (traceName: string, afterPlay = () => {}): Promise<Trip[]> => {
+  const replay = new TraceReplay(loadTrace(traceName));
+  const detection = new TripDetectionService(replay.sources);
+  const trips: Trip[] = [];
+  detection.addTripListener(trip => trips.push(trip));
+
+  await detection.startTracking();
+  await replay.play();
+  afterPlay();
+  await detection.stopTracking();
+  return trips;
+};
+
+describe('trip detection replay', () => {
+  beforeAll(async () => {
+    await databaseService.initialize();
+    // Place names would depend on the bundled gazetteer and the platform
+    geocodingService.setGeocoders([]);
+  });
+
+  it.each([
+    ['commute.gpx', 'commute.trips.json'],
+    ['walk-with-sensors.json', 'walk-with-sensors.trips.json'],
+    ['simulated-day.json', 'simulated-day.trips.json'],
+  ])('detects the expected trips in %s', async (traceName, goldenName) => {
+    const trips = await replayTrips(traceName);
+
+    expectGolden(goldenName, trips.map(summarize));
+  });
+
+  describe('with place lookups that hang until the trace has played', () => {
+    let release: () => void;
+
+    beforeEach(() => {
+      const released = new Promise<void>(resolve => { release = resolve; });
+      geocodingService.setGeocoders([{
+        name: 'slow',
+        reverseGeocode: async () => {
+          await released;
+          return null;
+        },
+      }]);
+    });
+
+    afterEach(() => {
+      geocodingService.setGeocoders([]);
+    });
+
+    it('keeps a trip that ends before its origin is named', async () => {
+      const trips = await replayTrips('commute.gpx', release);
+
+      expectGolden('commute.trips.json', trips.map(summarize));
+    });
+
+    // By then the fixes kept in memory no longer reach back to the first trips
+    it('measures trips finished hours after they ended from their stored fixes', async () => {
+      const trips = await replayTrips('simulated-day.json', release);
+
+      expectGolden('simulated-day.trips.json', trips.map(summarize));
+    });
+  });
+});
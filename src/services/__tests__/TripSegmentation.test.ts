@@ -0,0 +1,95 @@
+import { LocationPoint } from '../../types';
+import { APP_CONFIG } from '../../constants/Config';
+import { TripSegmenter, SegmentationEvent, SegmentationState, segmentTrace } from '../TripSegmentation';
+import { loadTrace } from './support/fixtures';
+
+interface Run {
+  states: SegmentationState[]; // every state entered, in order
+  events: SegmentationEvent[];
+}
+
+const run = (points: LocationPoint[], segmenter = new TripSegmenter()): Run => {
+  const states: SegmentationState[] = [segmenter.getState()];
+  const events: SegmentationEvent[] = [];
+  for (const point of points) {
+    events.push(...segmenter.process(point));
+    if (segmenter.getState() !== states[states.length - 1]) {
+      states.push(segmenter.getState());
+    }
+  }
+  return { states, events };
+};
+
+const eventTimes = (events: SegmentationEvent[]) =>
+  events.map(event => `${event.type} ${new Date(event.point.timestamp).toISOString()}`);
+
+describe('TripSegmenter', () => {
+  it('goes through every state on a recorded commute, riding through a red light', () => {
+    const { states, events } = run(loadTrace('commute.gpx').points);
+
+    expect(states).toEqual([
+      'IDLE',
+      'CANDIDATE_START',
+      'MOVING',
+      'CANDIDATE_STOP', // red light
+      'MOVING',
+      'CANDIDATE_STOP',
+      'STOPPED',
+    ]);
+    expect(eventTimes(events)).toEqual([
+      'trip_start 2024-03-04T07:40:10.000Z',
+      'trip_end 2024-03-04T07:49:10.000Z',
+    ]);
+  });
+
+  it('ends a trip only after the dwell time', () => {
+    const points = loadTrace('commute.gpx').points;
+    const arrival = Date.parse('2024-03-04T07:49:10.000Z');
+    const segmenter = new TripSegmenter();
+
+    const beforeDwell = run(points.filter(point => point.timestamp < arrival + 60_000), segmenter);
+    expect(beforeDwell.events.map(event => event.type)).toEqual(['trip_start']);
+    expect(segmenter.getState()).toBe('CANDIDATE_STOP');
+    expect(segmenter.isInTrip()).toBe(true);
+
+    expect(segmenter.tick(arrival + (APP_CONFIG.DWELL_TIME_THRESHOLD - 1) * 1000)).toEqual([]);
+    const ended = segmenter.tick(arrival + APP_CONFIG.DWELL_TIME_THRESHOLD * 1000);
+    expect(eventTimes(ended)).toEqual(['trip_end 2024-03-04T07:49:10.000Z']);
+    expect(segmenter.getState()).toBe('STOPPED');
+  });
+
+  it('ignores GPS jitter and a stray fix while stationary', () => {
+    const { states, events } = run(loadTrace('stationary-jitter.gpx').points);
+
+    // The stray fix raises a candidate start that falls back to rest
+    expect(states).toEqual(['IDLE', 'CANDIDATE_START', 'IDLE']);
+    expect(events).toEqual([]);
+  });
+
+  it('splits a simulated day into its trips', () => {
+    const events = segmentTrace(loadTrace('simulated-day.json').points);
+
+    expect(eventTimes(events)).toEqual([
+      'trip_start 2024-03-05T08:05:00.000Z',
+      'trip_end 2024-03-05T08:13:00.000Z',
+      'trip_start 2024-03-05T17:10:00.000Z',
+      'trip_end 2024-03-05T17:23:00.000Z',
+      'trip_start 2024-03-05T17:45:00.000Z',
+      'trip_end 2024-03-05T18:06:00.000Z',
+    ]);
+  });
+
+  it('continues a resumed trip until the dwell time passes', () => {
+    const points = loadTrace('commute.gpx').points;
+    const lastFix = points.find(point => point.timestamp === Date.parse('2024-03-04T07:44:00.000Z'))!;
+    const segmenter = new TripSegmenter();
+
+    segmenter.resumeTrip(lastFix);
+
+    expect(segmenter.getState()).toBe('MOVING');
+    expect(segmenter.tick(lastFix.timestamp + 60_000)).toEqual([]);
+    expect(segmenter.tick(lastFix.timestamp + APP_CONFIG.DWELL_TIME_THRESHOLD * 1000)).toEqual([
+      { type: 'trip_end', point: lastFix },
+    ]);
+  });
+});
@@ -0,0 +1,31 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { RecordedTrace, parseTraceFile, traceFromSimulatedTrips } from '../../TraceFormats';
+
+const FIXTURES = path.join(__dirname, '..', 'fixtures');
+
+export const readFixture = (name: string): string => fs.readFileSync(path.join(FIXTURES, name), 'utf8');
+
+// GPX or GeoJSON as imported, simulate-trips.js output, or a RecordedTrace
+// saved as JSON when the trace carries sensor samples
+export const loadTrace = (name: string): RecordedTrace => {
+  const content = readFixture(name);
+  if (name.endsWith('.gpx') || name.endsWith('.geojson')) {
+    return parseTraceFile(content, name);
+  }
+
+  const json = JSON.parse(content);
+  return Array.isArray(json.trips) ? traceFromSimulatedTrips(json) : json;
+};
+
+// Compares against a stored expectation; run with UPDATE_GOLDEN=1 to
+// rewrite the file after an intended change in behaviour
+export const expectGolden = (name: string, actual: unknown): void => {
+  const file = path.join(FIXTURES, name);
+  if (process.env.UPDATE_GOLDEN) {
+    fs.writeFileSync(file, `${JSON.stringify(actual, null, 2)}\n`);
+    return;
+  }
+
+  expect(actual).toEqual(JSON.parse(fs.readFileSync(file, 'utf8')));
+};
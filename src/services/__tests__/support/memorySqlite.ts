@@ -0,0 +1,59 @@
+import Database from 'better-sqlite3';
+import type { SQLiteDatabase } from 'expo-sqlite';
+
+// The part of expo-sqlite's async API the services use, over an in-memory
+// better-sqlite3 database, so tests run against a real SQLite with FTS5
+
+type BindValue = string | number | bigint | Buffer | null;
+
+// expo-sqlite takes parameters as one array or spread out; booleans bind as 0/1
+const bindings = (params: any[]): BindValue[] => {
+  const values = params.length === 1 && Array.isArray(params[0]) ? params[0] : params;
+  return values.map((value: any) => {
+    if (value === undefined) return null;
+    if (typeof value === 'boolean') return value ? 1 : 0;
+    return value;
+  });
+};
+
+export const openMemoryDatabase = async (): Promise<SQLiteDatabase> => {
+  const db = new Database(':memory:');
+  
+  const all = (source: string, params: any[]): any[] => {
+    const statement = db.prepare(source);
+    if (!statement.reader) {
+      statement.run(...bindings(params));
+      return [];
+    }
+    return statement.all(...bindings(params));
+  };
+  
+  const memory = {
+    databasePath: ':memory:',
+    execAsync: async (source: string) => {
+      db.exec(source);
+    },
+    runAsync: async (source: string, ...params: any[]) => {
+      const result = db.prepare(source).run(...bindings(params));
+      return { lastInsertRowId: Number(result.lastInsertRowid), changes: result.changes };
+    },
+    getAllAsync: async (source: string, ...params: any[]) => all(source, params),
+    getFirstAsync: async (source: string, ...params: any[]) => all(source, params)[0] ?? null,
+    // Like expo-sqlite, a transaction inside another one fails
+    withTransactionAsync: async (task: () => Promise<void>) => {
+      db.exec('BEGIN');
+      try {
+        await task();
+        db.exec('COMMIT');
+      } catch (error) {
+        db.exec('ROLLBACK');
+        throw error;
+      }
+    },
+    closeAsync: async () => {
+      db.close();
+    },
+  };
+  
+  return memory as unknown as SQLiteDatabase;
+};
@@ -0,0 +1,39 @@
+import { Trip } from '../../../types';
+
+let sequence = 0;
+
+// A finished, unsynced trip with plausible values; tests override what they care about
+export const makeTrip = (overrides: Partial<Trip> = {}): Trip => {
+  sequence++;
+  const start = new Date(Date.UTC(2024, 2, 4, 8, sequence));
+  const end = new Date(start.getTime() + 20 * 60 * 1000);
+  return {
+    trip_id: `00000000-0000-4000-8000-${String(sequence).padStart(12, '0')}`,
+    user_id: 'user-1',
+    trip_number: 1,
+    chain_id: 'chain-1',
+    origin: { lat: 52.52, lon: 13.405, place_name: 'Home' },
+    destination: { lat: 52.5, lon: 13.42, place_name: 'Work' },
+    start_time: start.toISOString(),
+    end_time: end.toISOString(),
+    duration_seconds: 1200,
+    distance_meters: 3500,
+    travel_mode: { detected: 'cycling', user_confirmed: null, confidence: 0.8 },
+    trip_purpose: 'work',
+    num_accompanying: 0,
+    accompanying_basic: [],
+    sensor_summary: {
+      average_speed: 3,
+      variance_accel: 0.4,
+      gps_points_count: 120,
+      max_speed: 7,
+      min_speed: 0,
+      total_acceleration: 40,
+    },
+    recorded_offline: false,
+    synced: false,
+    created_at: end.toISOString(),
+    updated_at: end.toISOString(),
+    ...overrides,
+  };
+};
@@ -1,3 +1,5 @@
+import { Trip, TripFieldVersions, TripVersionNumbers } from './Trip';
+
 // API request/response types
 export interface ApiResponse<T = any> {
   success: boolean;
@@ -33,6 +35,7 @@ export interface LoginResponse {
     refresh_token: string;
     expires_at: string;
   };
+  trip_key: string; // seals synced trips; derived by the server from the account
 }
 
 export interface SignupRequest {
@@ -51,18 +54,51 @@ export interface SignupRequest {
 export interface TripSyncRequest {
   trips: Array<{
     trip_id: string;
-    encrypted_data: string; // client-side encrypted trip data
+    encrypted_data: string; // client-side encrypted trip data, including its legs
     signature: string; // HMAC signature for integrity
+    leg_count: number; // legs in the mode chain carried by encrypted_data
+    field_versions: TripFieldVersions;
+    base_versions: TripVersionNumbers; // versions this upload was based on
+    upload_id: string; // idempotency key: the same content and versions always have the same id
   }>;
   sync_timestamp: string;
 }
 
+// Uploads are idempotent: a batch is sent with an Idempotency-Key header and
+// the server answers a repeated key with its original response, while a trip
+// already stored from the same upload_id is acknowledged without being written
+// or conflict-checked again
 export interface TripSyncResponse {
   synced_trips: string[]; // trip_ids that were successfully synced
-  failed_trips: Array<{
-    trip_id: string;
-    error: string;
-  }>;
+  failed_trips: TripSyncFailure[];
+  server_timestamp: string;
+}
+
+export interface TripSyncFailure {
+  trip_id: string;
+  error: string;
+  code?: string; // SYNC_CONFLICT when the server has changes not yet pulled,
+                 // INVALID_SIGNATURE when the trip was sealed with a stale key
+}
+
+// Position in the server's change feed: trips are ordered by update time,
+// ties broken by trip_id
+export interface TripChangeCursor {
+  since: string; // server timestamp, ISO8601
+  after: string; // trip_id
+}
+
+// A downloaded trip that could not be opened and was left out
+export interface RejectedTripDownload {
+  trip_id: string;
+  reason: 'signature_mismatch' | 'unreadable';
+}
+
+export interface TripChangesResponse {
+  trips: Trip[];
+  rejected: RejectedTripDownload[];
+  cursor: TripChangeCursor | null; // where the next pull resumes; null while the server has no trips
+  has_more: boolean;
   server_timestamp: string;
 }
 
@@ -73,6 +109,10 @@ export interface TripCorrectionRequest {
     trip_purpose?: string;
     notes?: string;
     is_private?: boolean;
+    legs?: Array<{
+      leg_id: string;
+      travel_mode: string;
+    }>;
   };
 }
 
@@ -169,7 +209,8 @@ export const API_ERROR_CODES = {
   SERVER_ERROR: 'SERVER_ERROR',
   NETWORK_ERROR: 'NETWORK_ERROR',
   ENCRYPTION_ERROR: 'ENCRYPTION_ERROR',
-  SYNC_CONFLICT: 'SYNC_CONFLICT'
+  SYNC_CONFLICT: 'SYNC_CONFLICT',
+  INVALID_SIGNATURE: 'INVALID_SIGNATURE'
 } as const;
 
 
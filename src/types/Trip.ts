@@ -3,12 +3,14 @@ export interface Location {
   lat: number;
   lon: number;
   place_name: string;
+  place_id?: string; // set when the endpoint snapped to a known place
 }
 
 export interface TravelMode {
   detected: string;
   user_confirmed: string | null;
   confidence: number;
+  probabilities?: Record<string, number>; // per-mode classifier output
 }
 
 export interface AccompanyingPerson {
@@ -24,6 +26,8 @@ export interface SensorSummary {
   max_speed: number;
   min_speed: number;
   total_acceleration: number;
+  raw_points_count?: number; // fixes received before noise filtering
+  filtered_points_count?: number; // fixes dropped by the noise filter
 }
 
 export interface Trip {
@@ -39,16 +43,251 @@ export interface Trip {
   distance_meters: number;
   travel_mode: TravelMode;
   trip_purpose: string; // user-selected from taxonomy + 'other' text
+  purpose_confidence?: number; // 0-1, when the purpose was inferred
+  purpose_confirmed?: boolean; // set once the user picks the purpose
   num_accompanying: number;
   accompanying_basic: AccompanyingPerson[];
   notes?: string; // optional text
   sensor_summary: SensorSummary;
   recorded_offline: boolean;
+  import_source?: string; // e.g. 'gpx:morning.gpx' for trips imported from a file
   synced: boolean;
   created_at: string; // ISO8601
   updated_at: string; // ISO8601
   is_private?: boolean; // do not sync to server
   plausibility_score?: number; // 0-100 for fraud detection
+  legs?: TripLeg[]; // mode chain, e.g. walk -> bus -> walk
+  field_versions?: TripFieldVersions; // see TripVersioning
+  synced_versions?: TripVersionNumbers; // field versions the server last acknowledged
+}
+
+// Trip fields that both the device and the server may change. Each has its
+// own version so concurrent edits to different fields merge cleanly; all
+// other fields belong to the device that recorded the trip.
+export const VERSIONED_TRIP_FIELDS = ['travel_mode', 'trip_purpose', 'accompanying', 'notes', 'is_private', 'legs'] as const;
+export type VersionedTripField = typeof VERSIONED_TRIP_FIELDS[number];
+
+export interface FieldVersion {
+  version: number; // 0 until the field first changes
+  corrected: boolean; // the last change was made by the user
+  updated_at: string; // ISO8601
+}
+
+export type TripFieldVersions = Partial<Record<VersionedTripField, FieldVersion>>;
+export type TripVersionNumbers = Partial<Record<VersionedTripField, number>>;
+
+// A field the user corrected both here and elsewhere since the last sync;
+// the local value is kept until someone picks one
+export interface TripConflict {
+  trip_id: string;
+  field: VersionedTripField;
+  local_value: any;
+  remote_value: any;
+  local_version: FieldVersion;
+  remote_version: FieldVersion;
+  detected_at: string; // ISO8601
+}
+
+export type ConflictResolution = 'keep_local' | 'use_remote';
+
+// Single-mode part of a multimodal trip
+export interface TripLeg {
+  leg_id: string; // UUID
+  trip_id: string;
+  leg_number: number; // 1-based order within the trip
+  travel_mode: TravelMode;
+  start: { lat: number; lon: number };
+  end: { lat: number; lon: number };
+  start_time: string; // ISO8601
+  end_time: string; // ISO8601
+  duration_seconds: number;
+  distance_meters: number;
+  points?: LocationPoint[]; // loaded on demand from the trip's trace
+}
+
+// Raw GPS fix as captured during tracking
+export interface LocationPoint {
+  latitude: number;
+  longitude: number;
+  timestamp: number; // epoch milliseconds
+  accuracy?: number;
+  speed?: number;
+  heading?: number;
+}
+
+// A fix as the device reported it, kept with the noise filter's verdict
+export interface RecordedFix extends LocationPoint {
+  rejection?: string; // why the noise filter dropped the fix
+  filtered?: { latitude: number; longitude: number; accuracy?: number }; // smoothed position of a kept fix
+}
+
+// Motion sensor sample captured during tracking
+export interface SensorData {
+  acceleration: { x: number; y: number; z: number }; // g
+  gyroscope: { x: number; y: number; z: number }; // rad/s
+  magnetometer: { x: number; y: number; z: number }; // µT
+  timestamp: number; // epoch milliseconds
+}
+
+// Feature vector the travel mode classifier works on, per window or trip
+export interface ModeFeatures {
+  speed_p10: number; // m/s
+  speed_p50: number;
+  speed_p85: number;
+  speed_max: number;
+  stop_rate: number; // stops per km
+  stop_fraction: number; // share of time spent stationary
+  heading_change_rate: number; // degrees per second
+  accel_std: number; // g
+  low_band_energy: number; // share of acceleration spectrum below 0.5 Hz
+  mid_band_energy: number; // 0.5 - 1.5 Hz
+  gait_band_energy: number; // 1.5 - 2.5 Hz, where steps and pedalling show up
+  gyro_mean: number; // rad/s
+  magnetic_variance: number; // µT²
+  duration_seconds: number;
+  distance_meters: number;
+}
+
+// Features of a detected trip or leg, labelled once the user confirms its mode
+export interface ModeExample {
+  example_id: string; // trip_id, or leg_id for legs of multimodal trips
+  trip_id: string;
+  user_id: string;
+  features: ModeFeatures;
+  detected_mode: string;
+  confirmed_mode: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+// Detection accuracy for one mode, measured against user confirmations
+export interface ModeAccuracy {
+  mode: string;
+  confirmed_count: number;
+  correct_count: number;
+  accuracy: number; // 0-1
+}
+
+// Ranked trip purpose guess
+export interface PurposeSuggestion {
+  purpose: TripPurpose;
+  confidence: number; // 0-1
+}
+
+// Purpose the user confirmed for an earlier trip
+export interface PurposeHistoryEntry {
+  destination_place_id: string | null;
+  purpose: string;
+  arrival: number; // epoch milliseconds
+}
+
+// Significant place learned from where the user stops
+export interface Place {
+  place_id: string; // UUID
+  user_id: string;
+  name: string | null; // user-given name
+  place_type: PlaceType | null; // inferred from visit patterns
+  address: string; // last known geocoded name
+  lat: number; // cluster centroid
+  lon: number;
+  radius_meters: number;
+  visit_count: number;
+  total_dwell_seconds: number;
+  first_visit: string; // ISO8601
+  last_visit: string; // ISO8601
+  created_at: string;
+  updated_at: string;
+}
+
+// Trip fields needed to derive places
+export type TripEndpoints = Pick<Trip, 'trip_id' | 'origin' | 'destination' | 'start_time' | 'end_time' | 'trip_purpose'>;
+
+// Trip fields needed for per-day numbering
+export type TripNumberEntry = Pick<Trip, 'trip_id' | 'start_time' | 'trip_number'>;
+
+// Filters for DatabaseService.queryTrips; omitted fields do not filter
+export interface TripQuery {
+  user_id: string;
+  from?: string; // ISO8601, trips departing at or after
+  to?: string; // ISO8601, trips departing before
+  modes?: string[]; // confirmed mode, or detected when unconfirmed
+  purposes?: string[];
+  synced?: boolean;
+  is_private?: boolean;
+  chain_id?: string;
+  bounds?: BoundingBox; // origin or destination inside the box
+  order?: 'newest' | 'oldest'; // by departure, newest first by default
+  limit?: number; // omit for every matching trip
+  after?: TripCursor; // next page: continue after this trip
+}
+
+export interface BoundingBox {
+  south: number;
+  west: number;
+  north: number;
+  east: number;
+}
+
+// Position of a trip in start_time order, for keyset pagination
+export type TripCursor = Pick<Trip, 'start_time' | 'trip_id'>;
+
+export interface TripPage {
+  trips: Trip[];
+  next: TripCursor | null; // null on the last page
+}
+
+// Full-text search for DatabaseService.searchTrips; omitted filters do not filter
+export interface TripSearchQuery {
+  user_id: string;
+  text: string; // words match notes and place names by prefix, all must match
+  from?: string; // ISO8601, trips departing at or after
+  to?: string; // ISO8601, trips departing before
+  modes?: string[]; // confirmed mode, or detected when unconfirmed
+  limit?: number; // defaults to APP_CONFIG.SEARCH.RESULT_LIMIT
+}
+
+// Field text with matched terms between the SEARCH highlight markers
+export interface TripSearchHit {
+  trip: Trip;
+  highlights: {
+    notes: string;
+    origin: string;
+    destination: string;
+  };
+}
+
+export interface TripSearchResults {
+  hits: TripSearchHit[];
+  total: number; // matches before the limit
+  facets: {
+    modes: Record<string, number>; // matches per mode, ignoring the mode filter
+    months: Record<string, number>; // matches per YYYY-MM, ignoring the date filter
+  };
+}
+
+// Which trips a local export includes; omitted fields do not filter
+export interface TripExportFilter {
+  from?: string; // ISO8601, trips departing at or after
+  to?: string; // ISO8601, trips departing before
+  modes?: string[]; // confirmed mode, or detected when unconfirmed
+}
+
+// Local changes waiting to be sent to the server, see SyncService.processOutbox
+export type SyncTableName = 'trips' | 'user_preferences' | 'consent_records' | 'reward_transactions';
+export type SyncOperationType = 'INSERT' | 'UPDATE' | 'DELETE';
+
+export interface SyncQueueItem {
+  id: number;
+  operation_type: SyncOperationType;
+  table_name: SyncTableName;
+  record_id: string;
+  data: any; // the record as it was queued
+  created_at: string;
+  retry_count: number; // failed attempts so far
+  last_retry: string | null;
+  last_error: string | null;
+  next_attempt_at: string | null; // null when due now
+  dead_lettered_at: string | null; // set once the item is no longer retried
 }
 
 export interface TripChain {
@@ -67,6 +306,7 @@ export interface UserPreferences {
   user_id: string;
   background_tracking_enabled: boolean;
   sync_frequency_minutes: number;
+  sync_network_policy: SyncNetworkPolicy;
   battery_optimization: boolean;
   privacy_mode: boolean;
   reward_notifications: boolean;
@@ -133,6 +373,26 @@ export const TRAVEL_MODES = [
 
 export type TravelModeType = typeof TRAVEL_MODES[number];
 
+// Networks sync may use: any, anything but a roaming cellular network,
+// unmetered networks only, or Wi-Fi only
+export const SYNC_NETWORK_POLICIES = [
+  'any',
+  'no_roaming',
+  'unmetered',
+  'wifi'
+] as const;
+
+export type SyncNetworkPolicy = typeof SYNC_NETWORK_POLICIES[number];
+
+// Significant place types
+export const PLACE_TYPES = [
+  'home',
+  'work',
+  'education'
+] as const;
+
+export type PlaceType = typeof PLACE_TYPES[number];
+
 // Accompanying person relations
 export const ACCOMPANYING_RELATIONS = [
   'family',
@@ -2,22 +2,29 @@ import * as Crypto from 'expo-crypto';
 import * as SecureStore from 'expo-secure-store';
 import CryptoJS from 'crypto-js';
 
+// A downloaded trip whose signature does not match its payload: it was
+// altered after upload, or signed with a different trip key
+export class TripIntegrityError extends Error {
+  public code: 'signature_mismatch';
+  
+  constructor(message: string) {
+    super(message);
+    this.name = 'TripIntegrityError';
+    this.code = 'signature_mismatch';
+  }
+}
+
 // Encryption utilities for client-side data protection
 export class EncryptionService {
-  private static readonly KEY_STORAGE_KEY = 'user_encryption_key';
+  // Holds the trip key the server issues. Keys generated on the device lived
+  // in 'user_encryption_key' and are left unused, since the server cannot
+  // open trips sealed with them.
+  private static readonly KEY_STORAGE_KEY = 'trip_sync_key';
   private static readonly SALT_STORAGE_KEY = 'user_encryption_salt';
+  private static readonly DATABASE_KEY_STORAGE_KEY = 'database_encryption_key';
   
-  // Generate a new encryption key for the user
-  static async generateUserKey(): Promise<string> {
-    const key = await Crypto.digestStringAsync(
-      Crypto.CryptoDigestAlgorithm.SHA256,
-      `${Date.now()}-${Math.random()}`,
-      { encoding: Crypto.CryptoEncoding.BASE64 }
-    );
-    return key;
-  }
-  
-  // Store encryption key securely
+  // Store the trip key issued at login. The server derives it from the
+  // user's account, so a reinstalled app gets the same key back.
   static async storeUserKey(key: string): Promise<void> {
     await SecureStore.setItemAsync(this.KEY_STORAGE_KEY, key);
   }
@@ -27,6 +34,10 @@ export class EncryptionService {
     return await SecureStore.getItemAsync(this.KEY_STORAGE_KEY);
   }
   
+  static async deleteUserKey(): Promise<void> {
+    await SecureStore.deleteItemAsync(this.KEY_STORAGE_KEY);
+  }
+  
   // Generate salt for key derivation
   static async generateSalt(): Promise<string> {
     const salt = await Crypto.digestStringAsync(
@@ -47,6 +58,26 @@ export class EncryptionService {
     return await SecureStore.getItemAsync(this.SALT_STORAGE_KEY);
   }
   
+  // Key for the local database, 256 random bits as hex. Kept apart from the
+  // user key so signing out does not lock the app out of its own database.
+  static async getDatabaseKey(): Promise<string | null> {
+    return await SecureStore.getItemAsync(this.DATABASE_KEY_STORAGE_KEY);
+  }
+  
+  // Readable after the first unlock so background trip detection can write
+  static async createDatabaseKey(): Promise<string> {
+    const bytes = await Crypto.getRandomBytesAsync(32);
+    const key = Array.from(bytes, byte => byte.toString(16).padStart(2, '0')).join('');
+    await SecureStore.setItemAsync(this.DATABASE_KEY_STORAGE_KEY, key, {
+      keychainAccessible: SecureStore.AFTER_FIRST_UNLOCK_THIS_DEVICE_ONLY
+    });
+    return key;
+  }
+  
+  static async deleteDatabaseKey(): Promise<void> {
+    await SecureStore.deleteItemAsync(this.DATABASE_KEY_STORAGE_KEY);
+  }
+  
   // Derive key from password using PBKDF2
   static deriveKeyFromPassword(password: string, salt: string): string {
     return CryptoJS.PBKDF2(password, salt, {
@@ -99,6 +130,22 @@ export class EncryptionService {
     };
   }
   
+  // Idempotency key for an upload: an HMAC, so identical uploads share it
+  // without the server learning anything about their contents
+  static async generateUploadId(upload: any): Promise<string> {
+    const userKey = await this.getUserKey();
+    if (!userKey) {
+      throw new Error('User encryption key not found');
+    }
+    
+    return this.generateSignature(JSON.stringify(upload), userKey);
+  }
+  
+  // Idempotency key for a batch of uploads, independent of their order
+  static generateBatchId(uploadIds: string[]): string {
+    return CryptoJS.SHA256([...uploadIds].sort().join(':')).toString();
+  }
+  
   // Decrypt trip data from server
   static async decryptTripFromSync(encryptedData: string, signature: string): Promise<any> {
     const userKey = await this.getUserKey();
@@ -108,7 +155,7 @@ export class EncryptionService {
     
     // Verify signature first
     if (!this.verifySignature(encryptedData, signature, userKey)) {
-      throw new Error('Data integrity check failed');
+      throw new TripIntegrityError('Trip signature does not match its contents');
     }
     
     return this.decrypt(encryptedData, userKey);
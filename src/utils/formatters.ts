@@ -1,3 +1,5 @@
+import { APP_CONFIG } from '../constants/Config';
+
 // Utility functions for formatting data
 
 export const formatDistance = (meters: number): string => {
@@ -156,6 +158,16 @@ export const formatTripPurpose = (purpose: string): string => {
   return purposeMap[purpose] || purpose;
 };
 
+export const formatPlaceType = (placeType: string): string => {
+  const placeTypeMap: Record<string, string> = {
+    home: 'Home',
+    work: 'Work',
+    education: 'Education',
+  };
+  
+  return placeTypeMap[placeType] || placeType;
+};
+
 export const formatConfidence = (confidence: number): string => {
   if (confidence >= 0.8) return 'High';
   if (confidence >= 0.6) return 'Medium';
@@ -177,4 +189,26 @@ export const formatSyncStatus = (isOnline: boolean, isSyncing: boolean, pendingC
   return 'Up to date';
 };
 
+// 'YYYY-MM' as e.g. 'Feb 2026'
+export const formatMonth = (month: string): string => {
+  const [year, monthIndex] = month.split('-').map(Number);
+  return new Date(year, monthIndex - 1, 1).toLocaleDateString(undefined, { month: 'short', year: 'numeric' });
+};
+
+// Splits search highlight text into plain and matched segments
+export const splitHighlights = (text: string): { text: string; match: boolean }[] => {
+  const { HIGHLIGHT_START, HIGHLIGHT_END } = APP_CONFIG.SEARCH;
+  const segments: { text: string; match: boolean }[] = [];
+  for (const part of text.split(HIGHLIGHT_START)) {
+    const end = part.indexOf(HIGHLIGHT_END);
+    if (end >= 0) {
+      segments.push({ text: part.slice(0, end), match: true });
+      if (end + 1 < part.length) segments.push({ text: part.slice(end + 1), match: false });
+    } else if (part) {
+      segments.push({ text: part, match: false });
+    }
+  }
+  return segments;
+};
+
 
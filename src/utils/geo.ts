@@ -0,0 +1,32 @@
+import { LocationPoint } from '../types';
+
+// Geographic helper functions shared by detection, clustering and export code
+
+const EARTH_RADIUS_METERS = 6371000;
+
+const toRadians = (degrees: number): number => degrees * Math.PI / 180;
+
+// Great-circle distance between two coordinates using the haversine formula
+export const calculateDistance = (lat1: number, lon1: number, lat2: number, lon2: number): number => {
+  const dLat = toRadians(lat2 - lat1);
+  const dLon = toRadians(lon2 - lon1);
+  const a = Math.sin(dLat/2) * Math.sin(dLat/2) +
+            Math.cos(toRadians(lat1)) * Math.cos(toRadians(lat2)) *
+            Math.sin(dLon/2) * Math.sin(dLon/2);
+  const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1-a));
+  return EARTH_RADIUS_METERS * c;
+};
+
+// Length of the path through the points, in order
+export const pathDistance = (points: LocationPoint[]): number => {
+  let totalDistance = 0;
+  for (let i = 1; i < points.length; i++) {
+    totalDistance += calculateDistance(
+      points[i-1].latitude,
+      points[i-1].longitude,
+      points[i].latitude,
+      points[i].longitude
+    );
+  }
+  return totalDistance;
+};